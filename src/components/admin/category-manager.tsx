@@ -0,0 +1,283 @@
+import { useState } from 'react'
+import {
+  CheckIcon,
+  PencilSquareIcon,
+  PlusIcon,
+  TrashIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline'
+import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { LoadingSpinner } from '../ui/loading-spinner'
+import { Switch } from '../ui/switch'
+
+// Columns shared by service, business inside and business outside categories
+export interface ManagedCategory {
+  id: string
+  name: string
+  description: string | null
+  icon: string | null
+  is_active: boolean | null
+}
+
+export interface CategoryFormValues {
+  name: string
+  description: string | null
+  icon: string | null
+}
+
+interface CategoryManagerProps {
+  categories: Array<ManagedCategory>
+  isLoading: boolean
+  onCreate: (values: CategoryFormValues) => void
+  onUpdate: (id: string, values: Partial<CategoryFormValues>) => void
+  onToggleActive: (id: string, isActive: boolean) => void
+  onDelete: (id: string) => void
+  // Enables row selection and bulk (de)activation
+  onBulkToggleActive?: (ids: Array<string>, isActive: boolean) => void
+}
+
+const emptyForm = { name: '', description: '', icon: '' }
+
+function toFormValues(form: typeof emptyForm): CategoryFormValues {
+  return {
+    name: form.name.trim(),
+    description: form.description.trim() || null,
+    icon: form.icon.trim() || null,
+  }
+}
+
+// Admin CRUD table for one kind of category
+export function CategoryManager({
+  categories,
+  isLoading,
+  onCreate,
+  onUpdate,
+  onToggleActive,
+  onDelete,
+  onBulkToggleActive,
+}: CategoryManagerProps) {
+  const [newCategory, setNewCategory] = useState(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editForm, setEditForm] = useState(emptyForm)
+  const [selectedIds, setSelectedIds] = useState<Array<string>>([])
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (newCategory.name.trim().length < 2) return
+
+    onCreate(toFormValues(newCategory))
+    setNewCategory(emptyForm)
+  }
+
+  const startEditing = (category: ManagedCategory) => {
+    setEditingId(category.id)
+    setEditForm({
+      name: category.name,
+      description: category.description || '',
+      icon: category.icon || '',
+    })
+  }
+
+  const saveEdit = () => {
+    if (!editingId || editForm.name.trim().length < 2) return
+
+    onUpdate(editingId, toFormValues(editForm))
+    setEditingId(null)
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) =>
+      current.includes(id)
+        ? current.filter((selectedId) => selectedId !== id)
+        : [...current, id],
+    )
+  }
+
+  const applyBulk = (isActive: boolean) => {
+    onBulkToggleActive?.(selectedIds, isActive)
+    setSelectedIds([])
+  }
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={handleCreate}
+        className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 space-y-2"
+      >
+        <div className="flex gap-2">
+          <Input
+            value={newCategory.name}
+            onChange={(event) =>
+              setNewCategory({ ...newCategory, name: event.target.value })
+            }
+            placeholder="New category name"
+            maxLength={100}
+          />
+          <Input
+            value={newCategory.icon}
+            onChange={(event) =>
+              setNewCategory({ ...newCategory, icon: event.target.value })
+            }
+            placeholder="Icon"
+            className="w-24"
+          />
+        </div>
+        <Input
+          value={newCategory.description}
+          onChange={(event) =>
+            setNewCategory({ ...newCategory, description: event.target.value })
+          }
+          placeholder="Description (optional)"
+        />
+        <Button
+          type="submit"
+          size="sm"
+          disabled={newCategory.name.trim().length < 2}
+        >
+          <PlusIcon className="h-4 w-4" />
+          Add category
+        </Button>
+      </form>
+
+      {onBulkToggleActive && selectedIds.length > 0 && (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <span>{selectedIds.length} selected</span>
+          <Button size="sm" variant="outline" onClick={() => applyBulk(true)}>
+            Activate
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => applyBulk(false)}>
+            Deactivate
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <LoadingSpinner />
+        </div>
+      ) : categories.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-10">
+          No categories yet
+        </p>
+      ) : (
+        <ul className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+          {categories.map((category) => (
+            <li key={category.id} className="flex items-center gap-3 p-3">
+              {onBulkToggleActive && (
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(category.id)}
+                  onChange={() => toggleSelected(category.id)}
+                  aria-label={`Select ${category.name}`}
+                />
+              )}
+
+              {editingId === category.id ? (
+                <div className="flex-1 space-y-2">
+                  <div className="flex gap-2">
+                    <Input
+                      value={editForm.name}
+                      onChange={(event) =>
+                        setEditForm({ ...editForm, name: event.target.value })
+                      }
+                      maxLength={100}
+                    />
+                    <Input
+                      value={editForm.icon}
+                      onChange={(event) =>
+                        setEditForm({ ...editForm, icon: event.target.value })
+                      }
+                      placeholder="Icon"
+                      className="w-24"
+                    />
+                  </div>
+                  <Input
+                    value={editForm.description}
+                    onChange={(event) =>
+                      setEditForm({
+                        ...editForm,
+                        description: event.target.value,
+                      })
+                    }
+                    placeholder="Description"
+                  />
+                </div>
+              ) : (
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {category.icon && (
+                      <span className="mr-1">{category.icon}</span>
+                    )}
+                    {category.name}
+                  </p>
+                  {category.description && (
+                    <p className="text-xs text-gray-500 truncate">
+                      {category.description}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {!category.is_active && (
+                <Badge variant="secondary">Inactive</Badge>
+              )}
+              <Switch
+                checked={!!category.is_active}
+                onCheckedChange={(checked) =>
+                  onToggleActive(category.id, checked)
+                }
+                aria-label="Active"
+              />
+
+              {editingId === category.id ? (
+                <>
+                  <button
+                    type="button"
+                    onClick={saveEdit}
+                    className="text-green-600 hover:text-green-700"
+                    aria-label="Save"
+                  >
+                    <CheckIcon className="h-5 w-5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="text-gray-400 hover:text-gray-600"
+                    aria-label="Cancel"
+                  >
+                    <XMarkIcon className="h-5 w-5" />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => startEditing(category)}
+                    className="text-gray-400 hover:text-gray-600"
+                    aria-label="Edit"
+                  >
+                    <PencilSquareIcon className="h-5 w-5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (window.confirm(`Delete "${category.name}"?`)) {
+                        onDelete(category.id)
+                      }
+                    }}
+                    className="text-red-400 hover:text-red-600"
+                    aria-label="Delete"
+                  >
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+import { useState } from 'react'
+import { CurrencyDollarIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+import type {
+  CoinTransferValidationResult,
+  TipTarget,
+} from '@/services/coin-transfer.service'
+import {
+  useCoinTransferUsage,
+  useTipCoins,
+  useTransferCoins,
+  useValidateCoinTransfer,
+} from '@/hooks/use-coin-transfers'
+
+interface CoinTransferDialogProps {
+  recipient: { id: string; username: string }
+  // Set to tip a marketplace listing or a service instead of a plain transfer
+  tipTarget?: TipTarget
+  onClose: () => void
+  onSuccess?: () => void
+}
+
+// Two-step dialog: pick the amount, then confirm once the limits are checked
+export function CoinTransferDialog({
+  recipient,
+  tipTarget,
+  onClose,
+  onSuccess,
+}: CoinTransferDialogProps) {
+  const [amount, setAmount] = useState('')
+  const [note, setNote] = useState('')
+  const [validation, setValidation] =
+    useState<CoinTransferValidationResult | null>(null)
+
+  const { data: usage } = useCoinTransferUsage()
+  const validateTransfer = useValidateCoinTransfer()
+  const transferCoins = useTransferCoins()
+  const tipCoins = useTipCoins()
+
+  const isTip = !!tipTarget
+  const verb = isTip ? 'Tip' : 'Send'
+  const parsedAmount = Number(amount)
+  const isSubmitting = transferCoins.isPending || tipCoins.isPending
+
+  const handleReview = (e: React.FormEvent) => {
+    e.preventDefault()
+    validateTransfer.mutate(parsedAmount, {
+      onSuccess: (result) => setValidation(result),
+    })
+  }
+
+  const handleConfirm = () => {
+    const data = {
+      recipientId: recipient.id,
+      amount: parsedAmount,
+      note: note.trim() || undefined,
+    }
+    const options = {
+      onSuccess: () => {
+        onSuccess?.()
+        onClose()
+      },
+    }
+
+    if (tipTarget) {
+      tipCoins.mutate({ ...data, target: tipTarget }, options)
+    } else {
+      transferCoins.mutate(data, options)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[1100] flex items-end justify-center bg-black/40 sm:items-center">
+      <div className="w-full max-w-sm rounded-t-2xl bg-white p-4 shadow-lg sm:rounded-2xl">
+        <div className="flex items-start justify-between mb-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <CurrencyDollarIcon className="h-5 w-5 text-yellow-500" />
+            {verb} coins to {recipient.username}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        {validation?.canTransfer ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              {verb} <strong>{parsedAmount} coins</strong> to{' '}
+              <strong>{recipient.username}</strong>?
+            </p>
+            <ul className="space-y-1 text-xs text-gray-500">
+              <li>
+                Your balance after: {validation.currentCoins - parsedAmount}{' '}
+                coins
+              </li>
+              <li>
+                Left to send today:{' '}
+                {validation.remainingDailyAmount - parsedAmount} coins
+              </li>
+            </ul>
+            {note.trim() && (
+              <p className="rounded-md bg-gray-50 p-2 text-sm text-gray-600">
+                {note.trim()}
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={() => setValidation(null)}
+                disabled={isSubmitting}
+              >
+                Back
+              </Button>
+              <Button
+                type="button"
+                className="flex-1"
+                onClick={handleConfirm}
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? 'Sending...' : 'Confirm'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleReview} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="coin-transfer-amount">Amount</Label>
+              <Input
+                id="coin-transfer-amount"
+                type="number"
+                inputMode="numeric"
+                min={1}
+                max={usage?.maxPerTransfer}
+                step={1}
+                value={amount}
+                onChange={(e) => {
+                  setAmount(e.target.value)
+                  setValidation(null)
+                }}
+                required
+              />
+              {usage && (
+                <p className="text-xs text-gray-500">
+                  Up to {usage.maxPerTransfer} coins per transfer,{' '}
+                  {Math.max(usage.dailyAmountLimit - usage.sentAmountToday, 0)}{' '}
+                  left today
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="coin-transfer-note">Note (optional)</Label>
+              <Textarea
+                id="coin-transfer-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={200}
+                rows={2}
+              />
+            </div>
+            {validation?.reason && (
+              <p className="text-sm text-red-600">{validation.reason}</p>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!amount || validateTransfer.isPending}
+            >
+              {validateTransfer.isPending ? 'Checking...' : 'Review'}
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
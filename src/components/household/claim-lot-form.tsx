@@ -0,0 +1,40 @@
+import { useState } from 'react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { useClaimLocation } from '@/hooks/use-location-transfers'
+
+interface ClaimLotFormProps {
+  onClaimed?: (locationId: string) => void
+}
+
+// New owner side: enter the claim code received from the previous owner
+export function ClaimLotForm({ onClaimed }: ClaimLotFormProps) {
+  const [code, setCode] = useState('')
+  const claimLocation = useClaimLocation()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    claimLocation.mutate(code, {
+      onSuccess: (locationId) => {
+        setCode('')
+        onClaimed?.(locationId)
+      },
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2">
+      <Input
+        value={code}
+        onChange={(e) => setCode(e.target.value.toUpperCase())}
+        placeholder="Claim code"
+        maxLength={20}
+        autoComplete="off"
+        className="bg-white font-mono"
+      />
+      <Button type="submit" disabled={claimLocation.isPending || !code.trim()}>
+        Claim lot
+      </Button>
+    </form>
+  )
+}
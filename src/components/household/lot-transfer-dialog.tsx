@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import { KeyIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { Button } from '../ui/button'
+import { Label } from '../ui/label'
+import { Switch } from '../ui/switch'
+import type { LocationTransferBusinessAction } from '@/services/location-transfer.service'
+import {
+  LOCATION_CLAIM_CODE_EXPIRY_DAYS,
+  formatClaimCode,
+} from '@/services/location-transfer.service'
+import {
+  useCancelLocationTransfer,
+  useStartLocationTransfer,
+} from '@/hooks/use-location-transfers'
+
+interface LotTransferDialogProps {
+  locationId: string
+  lotLabel: string
+  onClose: () => void
+}
+
+const businessActionLabels: Record<LocationTransferBusinessAction, string> = {
+  archive: 'Archive',
+  reassign: 'Move to my new lot',
+}
+
+// Owner side: move the household out of a sold or vacated lot and get the
+// claim code for the new owner
+export function LotTransferDialog({
+  locationId,
+  lotLabel,
+  onClose,
+}: LotTransferDialogProps) {
+  const [businessAction, setBusinessAction] =
+    useState<LocationTransferBusinessAction>('archive')
+  const [lockUntilClaimed, setLockUntilClaimed] = useState(true)
+  const startTransfer = useStartLocationTransfer()
+  const cancelTransfer = useCancelLocationTransfer()
+
+  const issued = startTransfer.data
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (
+      window.confirm(
+        `Move the whole household out of ${lotLabel}? This cannot be undone.`,
+      )
+    ) {
+      startTransfer.mutate({ locationId, businessAction, lockUntilClaimed })
+    }
+  }
+
+  const handleCancelTransfer = () => {
+    if (issued) {
+      cancelTransfer.mutate(issued.transferId, { onSuccess: onClose })
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[1100] flex items-end justify-center bg-black/40 sm:items-center">
+      <div className="w-full max-w-sm rounded-t-2xl bg-white p-4 shadow-lg sm:rounded-2xl">
+        <div className="flex items-start justify-between mb-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <KeyIcon className="h-5 w-5 text-blue-500" />
+            Transfer {lotLabel}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        {issued ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Give this code to the new owner. It works once and is shown only
+              now.
+            </p>
+            <p className="rounded-lg bg-gray-100 py-3 text-center font-mono text-xl font-semibold tracking-widest text-gray-900">
+              {formatClaimCode(issued.claimCode)}
+            </p>
+            <p className="text-xs text-gray-500">
+              Expires on {new Date(issued.expiresAt).toLocaleDateString()}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={handleCancelTransfer}
+                disabled={cancelTransfer.isPending}
+              >
+                Cancel transfer
+              </Button>
+              <Button className="flex-1" onClick={onClose}>
+                Done
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Every member of the household is removed from the lot and the new
+              owner receives a claim code, valid for{' '}
+              {LOCATION_CLAIM_CODE_EXPIRY_DAYS} days.
+            </p>
+
+            <div className="space-y-2">
+              <Label>Businesses and services at this lot</Label>
+              <div className="flex gap-1 rounded-lg bg-gray-100 p-1">
+                {(['archive', 'reassign'] as const).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setBusinessAction(option)}
+                    className={`flex-1 rounded-md px-2 py-1.5 text-xs font-medium ${
+                      businessAction === option
+                        ? 'bg-white text-gray-900 shadow-sm'
+                        : 'text-gray-500'
+                    }`}
+                  >
+                    {businessActionLabels[option]}
+                  </button>
+                ))}
+              </div>
+              {businessAction === 'reassign' && (
+                <p className="text-xs text-gray-500">
+                  Listings of residents without another lot are archived.
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="transfer-lock">
+                Lock the lot until the new owner claims it
+              </Label>
+              <Switch
+                id="transfer-lock"
+                checked={lockUntilClaimed}
+                onCheckedChange={setLockUntilClaimed}
+              />
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={startTransfer.isPending}
+            >
+              {startTransfer.isPending ? 'Transferring...' : 'Move out'}
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import { Outlet, useNavigate } from '@tanstack/react-router'
 import {
   ChatBubbleLeftRightIcon,
   HomeIcon,
+  MagnifyingGlassIcon,
   MapPinIcon,
   ShoppingBagIcon,
   UserIcon,
@@ -36,6 +37,13 @@ export function MobileLayout({ children }: MobileLayoutProps) {
             <h1 className="text-xl font-semibold text-foreground">
               GGV Connect
             </h1>
+            <button
+              onClick={() => navigate({ to: '/search' })}
+              className="text-muted-foreground hover:text-primary focus:outline-none focus:text-primary"
+              aria-label="Search"
+            >
+              <MagnifyingGlassIcon className="h-5 w-5" />
+            </button>
           </div>
         </div>
       </header>
@@ -0,0 +1,123 @@
+import { useEffect } from 'react'
+import { useStore } from '@tanstack/react-store'
+import {
+  CheckCircleIcon,
+  ExclamationCircleIcon,
+  ExclamationTriangleIcon,
+  InformationCircleIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline'
+
+import { Button } from '../ui/button'
+import type { UIState } from '@/lib/store'
+import { uiActions, uiStore } from '@/lib/store'
+import { cn } from '@/lib/utils'
+
+type Notification = UIState['notifications'][number]
+
+// Older notifications stay queued until the visible ones are dismissed
+const MAX_VISIBLE = 3
+
+const typeStyles = {
+  success: {
+    icon: CheckCircleIcon,
+    className: 'text-green-600 dark:text-green-400',
+  },
+  error: {
+    icon: ExclamationCircleIcon,
+    className: 'text-destructive',
+  },
+  warning: {
+    icon: ExclamationTriangleIcon,
+    className: 'text-yellow-600 dark:text-yellow-400',
+  },
+  info: {
+    icon: InformationCircleIcon,
+    className: 'text-blue-600 dark:text-blue-400',
+  },
+}
+
+function NotificationItem({ notification }: { notification: Notification }) {
+  const { id, type, title, message, duration, action } = notification
+  const { icon: Icon, className } = typeStyles[type]
+
+  // Auto-dismiss once the notification becomes visible
+  useEffect(() => {
+    if (duration <= 0) return
+
+    const timeout = setTimeout(() => uiActions.removeNotification(id), duration)
+    return () => clearTimeout(timeout)
+  }, [id, duration])
+
+  return (
+    <div
+      role={type === 'error' ? 'alert' : 'status'}
+      className="pointer-events-auto flex w-full items-start gap-3 rounded-lg border border-border bg-background p-4 shadow-lg"
+    >
+      <Icon className={cn('h-5 w-5 shrink-0', className)} />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-foreground">{title}</p>
+        {message && (
+          <p className="mt-1 text-sm text-muted-foreground">{message}</p>
+        )}
+        {action && (
+          <Button
+            variant="link"
+            size="sm"
+            className="mt-1 h-auto p-0"
+            onClick={() => {
+              action.onClick()
+              uiActions.removeNotification(id)
+            }}
+          >
+            {action.label}
+          </Button>
+        )}
+      </div>
+      <Button
+        variant="ghost"
+        size="icon-sm"
+        className="-mr-2 -mt-2"
+        onClick={() => uiActions.removeNotification(id)}
+        aria-label="Dismiss notification"
+      >
+        <XMarkIcon className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+export function NotificationCenter() {
+  const notifications = useStore(uiStore, (state) => state.notifications)
+
+  if (notifications.length === 0) return null
+
+  const visible = notifications.slice(0, MAX_VISIBLE)
+  const queued = notifications.length - visible.length
+
+  return (
+    <div
+      aria-live="polite"
+      className="pointer-events-none fixed inset-x-0 top-0 z-50 flex flex-col items-center gap-2 p-4"
+    >
+      {visible.map((notification) => (
+        <div key={notification.id} className="w-full max-w-sm">
+          <NotificationItem notification={notification} />
+        </div>
+      ))}
+      {queued > 0 && (
+        <div className="pointer-events-auto flex items-center gap-2 rounded-full border border-border bg-background px-3 py-1 text-xs text-muted-foreground shadow">
+          <span>+{queued} more</span>
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={() => uiActions.clearNotifications()}
+          >
+            Clear all
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
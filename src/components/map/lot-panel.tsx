@@ -0,0 +1,254 @@
+import { useState } from 'react'
+import { Link } from '@tanstack/react-router'
+import {
+  BriefcaseIcon,
+  BuildingStorefrontIcon,
+  ChatBubbleLeftIcon,
+  CurrencyDollarIcon,
+  HomeIcon,
+  PhotoIcon,
+  UsersIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline'
+import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar'
+import { LoadingSpinner } from '../ui/loading-spinner'
+import { CoinTransferDialog } from '../coins/coin-transfer-dialog'
+import type { TipTarget } from '@/services/coin-transfer.service'
+import type { LocationWithCoords } from '@/services/geospatial.service'
+import { useLotDetails } from '@/hooks/use-geospatial'
+import { useAuth } from '@/contexts/AuthContext'
+
+interface LotPanelProps {
+  location: LocationWithCoords
+  // Area of the lot boundary, when the lot has one
+  areaSqM?: number
+  isHome: boolean
+  onClose: () => void
+}
+
+// Bottom sheet listing who and what is on a lot
+export function LotPanel({
+  location,
+  areaSqM,
+  isHome,
+  onClose,
+}: LotPanelProps) {
+  const { data: details, isLoading, isError } = useLotDetails(location.id)
+  const { user } = useAuth()
+  const [coinRecipient, setCoinRecipient] = useState<{
+    recipient: { id: string; username: string }
+    tipTarget?: TipTarget
+  } | null>(null)
+
+  return (
+    <div className="absolute inset-x-0 bottom-0 z-[1000] max-h-[60%] overflow-y-auto rounded-t-2xl border-t border-gray-200 bg-white p-4 shadow-lg">
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">
+            Block {location.block}, Lot {location.lot}
+          </h2>
+          {areaSqM !== undefined && (
+            <p className="text-xs text-gray-500">
+              {Math.round(areaSqM).toLocaleString()} m²
+            </p>
+          )}
+          {isHome && (
+            <p className="flex items-center gap-1 text-xs font-medium text-blue-600">
+              <HomeIcon className="h-4 w-4" />
+              Your home ·{' '}
+              <Link to="/profile/household" className="underline">
+                Manage household
+              </Link>
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600"
+          aria-label="Close"
+        >
+          <XMarkIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner />
+        </div>
+      ) : isError || !details ? (
+        <p className="text-sm text-gray-500">Could not load this lot</p>
+      ) : (
+        <div className="space-y-4">
+          <section>
+            <h3 className="flex items-center gap-2 text-sm font-medium text-gray-900 mb-2">
+              <UsersIcon className="h-4 w-4" />
+              Residents
+            </h3>
+            {details.residents.length === 0 ? (
+              <p className="text-sm text-gray-500">No verified residents</p>
+            ) : (
+              <ul className="space-y-2">
+                {details.residents.map((resident) => (
+                  <li key={resident.id} className="flex items-center gap-3">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={resident.avatar_url || undefined} />
+                      <AvatarFallback>
+                        {(resident.username || resident.full_name || '?')
+                          .charAt(0)
+                          .toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <span className="text-sm text-gray-700">
+                      {resident.full_name || resident.username || 'Resident'}
+                    </span>
+                    {resident.is_owner && (
+                      <span className="text-xs text-gray-500">Owner</span>
+                    )}
+                    {resident.id !== user?.id && (
+                      <Link
+                        to="/messages/$userId"
+                        params={{ userId: resident.id }}
+                        className="ml-auto text-gray-400 hover:text-gray-600"
+                        aria-label="Send a message"
+                      >
+                        <ChatBubbleLeftIcon className="h-5 w-5" />
+                      </Link>
+                    )}
+                    {resident.id !== user?.id && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setCoinRecipient({
+                            recipient: {
+                              id: resident.id,
+                              username:
+                                resident.username ||
+                                resident.full_name ||
+                                'Resident',
+                            },
+                          })
+                        }
+                        className="text-yellow-600 hover:text-yellow-700"
+                        aria-label="Send coins"
+                      >
+                        <CurrencyDollarIcon className="h-5 w-5" />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {details.businesses.length > 0 && (
+            <section>
+              <h3 className="flex items-center gap-2 text-sm font-medium text-gray-900 mb-2">
+                <BuildingStorefrontIcon className="h-4 w-4" />
+                Businesses
+              </h3>
+              <ul className="space-y-2">
+                {details.businesses.map((business) => (
+                  <li key={business.id} className="space-y-2 text-sm">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium text-gray-700">
+                          {business.business_name}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {[business.category?.name, business.hours]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </p>
+                      </div>
+                      {business.profile_id === user?.id && (
+                        <Link
+                          to="/profile/businesses"
+                          className="text-gray-400 hover:text-gray-600"
+                          aria-label="Edit photos"
+                        >
+                          <PhotoIcon className="h-5 w-5" />
+                        </Link>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {details.services.length > 0 && (
+            <section>
+              <h3 className="flex items-center gap-2 text-sm font-medium text-gray-900 mb-2">
+                <BriefcaseIcon className="h-4 w-4" />
+                Services
+              </h3>
+              <ul className="space-y-2">
+                {details.services.map((service) => {
+                  const provider = service.profile
+                  return (
+                    <li key={service.id} className="space-y-2 text-sm">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <p className="font-medium text-gray-700">
+                            {service.category?.name || 'Service'}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {[
+                              provider?.username,
+                              service.price_range,
+                              service.availability,
+                            ]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </p>
+                        </div>
+                        {provider && provider.id !== user?.id && (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setCoinRecipient({
+                                recipient: {
+                                  id: provider.id,
+                                  username: provider.username || 'Provider',
+                                },
+                                tipTarget: {
+                                  type: 'user_services',
+                                  id: service.id,
+                                },
+                              })
+                            }
+                            className="text-xs font-medium text-yellow-600 hover:text-yellow-700"
+                          >
+                            Tip
+                          </button>
+                        )}
+                        {provider && provider.id === user?.id && (
+                          <Link
+                            to="/profile/businesses"
+                            className="text-gray-400 hover:text-gray-600"
+                            aria-label="Edit photos"
+                          >
+                            <PhotoIcon className="h-5 w-5" />
+                          </Link>
+                        )}
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            </section>
+          )}
+        </div>
+      )}
+
+      {coinRecipient && (
+        <CoinTransferDialog
+          recipient={coinRecipient.recipient}
+          tipTarget={coinRecipient.tipTarget}
+          onClose={() => setCoinRecipient(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,236 @@
+import { useEffect, useMemo, useState } from 'react'
+import L from 'leaflet'
+import {
+  CircleMarker,
+  MapContainer,
+  Marker,
+  Polygon,
+  TileLayer,
+  useMapEvents,
+} from 'react-leaflet'
+import 'leaflet/dist/leaflet.css'
+import type { LatLngBoundsExpression } from 'leaflet'
+import type {
+  BlockOutline,
+  LocationBoundary,
+  LocationCluster,
+  LocationWithCoords,
+  MapBounds,
+} from '@/services/geospatial.service'
+import { geospatialService } from '@/services/geospatial.service'
+import { toLatLngRings } from '@/lib/geo/polygon'
+
+const INITIAL_ZOOM = 17
+// Lot parcels are drawn from this zoom level, block outlines at every zoom
+const MIN_BOUNDARY_ZOOM = 17
+
+interface VillageMapProps {
+  locations: Array<LocationWithCoords>
+  boundaries?: Array<LocationBoundary>
+  blockOutlines?: Array<BlockOutline>
+  bounds: MapBounds
+  homeLocationId?: string | null
+  selectedLocationId?: string | null
+  onSelectLocation: (location: LocationWithCoords) => void
+}
+
+const iconCache = new Map<string, L.Icon | L.DivIcon>()
+
+function getMarkerIcon(markerUrl: string | null, isHome: boolean) {
+  const key = `${markerUrl}|${isHome}`
+  const cached = iconCache.get(key)
+  if (cached) return cached
+
+  const size = isHome ? 40 : 32
+  const icon = markerUrl
+    ? L.icon({
+        iconUrl: markerUrl,
+        iconSize: [size, size],
+        iconAnchor: [size / 2, size],
+        className: isHome ? 'drop-shadow-lg' : undefined,
+      })
+    : L.divIcon({
+        html: `<span style="display:block;width:${size / 2}px;height:${size / 2}px;border-radius:9999px;border:2px solid #fff;background:${isHome ? '#2563eb' : '#6b7280'}"></span>`,
+        className: '',
+        iconSize: [size / 2, size / 2],
+      })
+
+  iconCache.set(key, icon)
+  return icon
+}
+
+function getClusterIcon(count: number) {
+  const size = count < 10 ? 32 : count < 100 ? 40 : 48
+  return L.divIcon({
+    html: `<span style="display:flex;align-items:center;justify-content:center;width:${size}px;height:${size}px;border-radius:9999px;border:3px solid #fff;background:#7c3aed;color:#fff;font-size:12px;font-weight:600">${count}</span>`,
+    className: '',
+    iconSize: [size, size],
+  })
+}
+
+function ZoomTracker({ onZoom }: { onZoom: (zoom: number) => void }) {
+  const map = useMapEvents({
+    zoomend: () => onZoom(map.getZoom()),
+  })
+
+  // Initial zoom comes from fitting the village bounds
+  useEffect(() => {
+    onZoom(map.getZoom())
+  }, [map, onZoom])
+
+  return null
+}
+
+// Village map: every block/lot with its marker, grouped into clusters when zoomed out
+export function VillageMap({
+  locations,
+  boundaries = [],
+  blockOutlines = [],
+  bounds,
+  homeLocationId,
+  selectedLocationId,
+  onSelectLocation,
+}: VillageMapProps) {
+  const [map, setMap] = useState<L.Map | null>(null)
+  const [zoom, setZoom] = useState(INITIAL_ZOOM)
+
+  const locationsById = useMemo(
+    () => new Map(locations.map((location) => [location.id, location])),
+    [locations],
+  )
+
+  // Built once per set of locations, clusters are then cached per zoom level
+  const clusterer = useMemo(
+    () => geospatialService.createLocationClusterer(locations),
+    [locations],
+  )
+  const clusters = useMemo<Array<LocationCluster>>(
+    () => clusterer(zoom),
+    [clusterer, zoom],
+  )
+
+  const homeLocation = homeLocationId
+    ? locationsById.get(homeLocationId)
+    : undefined
+
+  const leafletBounds: LatLngBoundsExpression = [
+    [bounds.south, bounds.west],
+    [bounds.north, bounds.east],
+  ]
+
+  return (
+    <MapContainer
+      bounds={leafletBounds}
+      maxZoom={20}
+      className="h-full w-full"
+      ref={setMap}
+    >
+      <TileLayer
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        maxZoom={20}
+        maxNativeZoom={19}
+      />
+      <ZoomTracker onZoom={setZoom} />
+
+      {blockOutlines.map((outline) => (
+        <Polygon
+          key={outline.block}
+          positions={toLatLngRings(outline.outline)}
+          pathOptions={{
+            color: '#4b5563',
+            weight: 2,
+            dashArray: '6 4',
+            fillOpacity: 0,
+          }}
+          interactive={false}
+        />
+      ))}
+
+      {zoom >= MIN_BOUNDARY_ZOOM &&
+        boundaries.map((boundary) => {
+          const location = locationsById.get(boundary.id)
+          const isSelected = boundary.id === selectedLocationId
+          const isHome = boundary.id === homeLocationId
+
+          return (
+            <Polygon
+              key={boundary.id}
+              positions={toLatLngRings(boundary.boundary)}
+              pathOptions={{
+                color: isSelected ? '#f97316' : isHome ? '#2563eb' : '#6b7280',
+                weight: isSelected ? 3 : 1,
+                fillOpacity: isSelected || isHome ? 0.2 : 0.05,
+              }}
+              eventHandlers={{
+                click: () => location && onSelectLocation(location),
+              }}
+            />
+          )
+        })}
+
+      {homeLocation && (
+        <CircleMarker
+          center={[homeLocation.lat, homeLocation.lng]}
+          radius={22}
+          pathOptions={{ color: '#2563eb', fillOpacity: 0.15, weight: 2 }}
+          interactive={false}
+        />
+      )}
+
+      {selectedLocationId && locationsById.has(selectedLocationId) && (
+        <CircleMarker
+          center={[
+            locationsById.get(selectedLocationId)!.lat,
+            locationsById.get(selectedLocationId)!.lng,
+          ]}
+          radius={18}
+          pathOptions={{ color: '#f97316', fillOpacity: 0.1, weight: 2 }}
+          interactive={false}
+        />
+      )}
+
+      {clusters.map((cluster) => {
+        // Single lot: render its own marker
+        if (cluster.count === 1) {
+          const location = locationsById.get(cluster.locations[0].id)
+          if (!location) return null
+          const isHome = location.id === homeLocationId
+
+          return (
+            <Marker
+              key={location.id}
+              position={[location.lat, location.lng]}
+              icon={getMarkerIcon(location.marker_url, isHome)}
+              title={`Block ${location.block}, Lot ${location.lot}`}
+              zIndexOffset={isHome ? 1000 : 0}
+              eventHandlers={{ click: () => onSelectLocation(location) }}
+            />
+          )
+        }
+
+        return (
+          <Marker
+            key={cluster.locations.map((location) => location.id).join('|')}
+            position={[cluster.center.lat, cluster.center.lng]}
+            icon={getClusterIcon(cluster.count)}
+            eventHandlers={{
+              click: () => {
+                // Zoom in on the lots of the cluster
+                map?.fitBounds(
+                  L.latLngBounds(
+                    cluster.locations.map((location) => [
+                      location.lat,
+                      location.lng,
+                    ]),
+                  ),
+                  { padding: [48, 48] },
+                )
+              },
+            }}
+          />
+        )
+      })}
+    </MapContainer>
+  )
+}
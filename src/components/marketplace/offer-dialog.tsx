@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import { TagIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+import type { MarketplaceOfferKind } from '@/services/marketplace-offer.service'
+import { useMakeOffer } from '@/hooks/use-marketplace-offers'
+
+interface OfferDialogProps {
+  listing: {
+    id: string
+    title: string
+    price: number | null
+    currency: string | null
+  }
+  onClose: () => void
+}
+
+// Buyer side: make a price offer or ask the seller to reserve the item
+export function OfferDialog({ listing, onClose }: OfferDialogProps) {
+  const [kind, setKind] = useState<MarketplaceOfferKind>('offer')
+  const [amount, setAmount] = useState(listing.price?.toString() ?? '')
+  const [message, setMessage] = useState('')
+  const makeOffer = useMakeOffer()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    makeOffer.mutate(
+      {
+        listingId: listing.id,
+        kind,
+        amount: kind === 'offer' ? Number(amount) : undefined,
+        message,
+      },
+      { onSuccess: onClose },
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 z-[1100] flex items-end justify-center bg-black/40 sm:items-center">
+      <div className="w-full max-w-sm rounded-t-2xl bg-white p-4 shadow-lg sm:rounded-2xl">
+        <div className="flex items-start justify-between mb-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <TagIcon className="h-5 w-5 text-blue-500" />
+            {listing.title}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex gap-1 rounded-lg bg-gray-100 p-1">
+            {(['offer', 'reservation'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setKind(option)}
+                className={`flex-1 rounded-md px-2 py-1.5 text-xs font-medium ${
+                  kind === option
+                    ? 'bg-white text-gray-900 shadow-sm'
+                    : 'text-gray-500'
+                }`}
+              >
+                {option === 'offer' ? 'Make an offer' : 'Reserve'}
+              </button>
+            ))}
+          </div>
+
+          {kind === 'offer' ? (
+            <div className="space-y-2">
+              <Label htmlFor="offer-amount">
+                Your offer ({listing.currency || 'PHP'})
+              </Label>
+              <Input
+                id="offer-amount"
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step="any"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+              {listing.price !== null && (
+                <p className="text-xs text-gray-500">
+                  Asking price: {listing.price} {listing.currency}
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              Ask the seller to hold the item for you at the asking price.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="offer-message">Message (optional)</Label>
+            <Textarea
+              id="offer-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={makeOffer.isPending || (kind === 'offer' && !amount)}
+          >
+            {makeOffer.isPending
+              ? 'Sending...'
+              : kind === 'offer'
+                ? 'Send offer'
+                : 'Request reservation'}
+          </Button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import type {
+  MarketplaceOfferAction,
+  MarketplaceOfferStatus,
+  MarketplaceOfferWithRelations,
+} from '@/services/marketplace-offer.service'
+import { useRespondToOffer } from '@/hooks/use-marketplace-offers'
+
+interface OfferListProps {
+  offers: Array<MarketplaceOfferWithRelations>
+  // Profile viewing the list, decides between seller and buyer actions
+  currentUserId: string
+}
+
+const statusVariants: Record<
+  MarketplaceOfferStatus,
+  'warning' | 'success' | 'secondary' | 'info'
+> = {
+  pending: 'warning',
+  accepted: 'info',
+  completed: 'success',
+  declined: 'secondary',
+  withdrawn: 'secondary',
+  cancelled: 'secondary',
+}
+
+const actionLabels: Record<MarketplaceOfferAction, string> = {
+  accept: 'Accept',
+  decline: 'Decline',
+  complete: 'Mark as sold',
+  cancel: 'Cancel reservation',
+  withdraw: 'Withdraw',
+}
+
+function getActions(
+  offer: MarketplaceOfferWithRelations,
+  isSeller: boolean,
+): Array<MarketplaceOfferAction> {
+  if (isSeller) {
+    if (offer.status === 'pending') return ['decline', 'accept']
+    if (offer.status === 'accepted') return ['cancel', 'complete']
+    return []
+  }
+  return offer.status === 'pending' || offer.status === 'accepted'
+    ? ['withdraw']
+    : []
+}
+
+// Offers on a listing (seller) or made by the current user (buyer)
+export function OfferList({ offers, currentUserId }: OfferListProps) {
+  const respondToOffer = useRespondToOffer()
+
+  if (!offers.length) {
+    return <p className="text-sm text-gray-500 text-center py-4">No offers</p>
+  }
+
+  return (
+    <ul className="space-y-2">
+      {offers.map((offer) => {
+        const isSeller = offer.seller_id === currentUserId
+        const counterpart = isSeller ? offer.buyer : offer.seller
+        const actions = getActions(offer, isSeller)
+
+        return (
+          <li
+            key={offer.id}
+            className="space-y-2 rounded-lg border border-gray-200 bg-white p-3"
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">
+                  {offer.kind === 'offer'
+                    ? `${offer.amount} ${offer.listing?.currency || 'PHP'}`
+                    : 'Reservation request'}
+                  {!isSeller && offer.listing && ` · ${offer.listing.title}`}
+                </p>
+                <p className="text-xs text-gray-500 truncate">
+                  {isSeller ? 'From' : 'To'}{' '}
+                  {counterpart?.full_name ||
+                    counterpart?.username ||
+                    'Unnamed resident'}{' '}
+                  · {new Date(offer.created_at).toLocaleDateString()}
+                </p>
+              </div>
+              <Badge
+                variant={statusVariants[offer.status as MarketplaceOfferStatus]}
+              >
+                {offer.status}
+              </Badge>
+            </div>
+
+            {offer.message && (
+              <p className="rounded-md bg-gray-50 p-2 text-sm text-gray-600">
+                {offer.message}
+              </p>
+            )}
+
+            {actions.length > 0 && (
+              <div className="flex justify-end gap-2">
+                {actions.map((action) => (
+                  <Button
+                    key={action}
+                    size="sm"
+                    variant={
+                      action === 'accept' || action === 'complete'
+                        ? 'default'
+                        : 'outline'
+                    }
+                    onClick={() =>
+                      respondToOffer.mutate({ offerId: offer.id, action })
+                    }
+                    disabled={respondToOffer.isPending}
+                  >
+                    {actionLabels[action]}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,181 @@
+import { useRef, useState } from 'react'
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  PhotoIcon,
+  PlusIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline'
+import { LoadingSpinner } from '../ui/loading-spinner'
+import type { MediaEntity } from '@/services/media.service'
+import type { PhotoSlots } from '@/lib/media/photo-slots'
+import { useUploadPhoto } from '@/hooks/use-media'
+import { ALLOWED_PHOTO_TYPES } from '@/services/media.service'
+import { PHOTO_SLOT_COUNT, movePhotoSlot } from '@/lib/media/photo-slots'
+import { cn } from '@/lib/utils'
+
+interface PhotoSlotsEditorProps {
+  entity: MediaEntity
+  ownerId: string
+  entityId: string
+  value: PhotoSlots
+  onChange: (slots: PhotoSlots) => void
+  disabled?: boolean
+  className?: string
+}
+
+// Five photo slots: upload into an empty slot, drag a photo onto another slot
+// or use the arrow buttons (touch screens) to reorder. The first slot is the cover. Changes are saved by the parent
+// with the entity photo hook.
+export function PhotoSlotsEditor({
+  entity,
+  ownerId,
+  entityId,
+  value,
+  onChange,
+  disabled,
+  className,
+}: PhotoSlotsEditorProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [uploadIndex, setUploadIndex] = useState<number | null>(null)
+  const uploadPhoto = useUploadPhoto()
+
+  const slots = Array.from(
+    { length: PHOTO_SLOT_COUNT },
+    (_, index) => value[index] ?? null,
+  )
+
+  const handleSelect = (index: number) => {
+    if (disabled || uploadPhoto.isPending) return
+    setUploadIndex(index)
+    inputRef.current?.click()
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || uploadIndex === null) return
+
+    const index = uploadIndex
+    uploadPhoto.mutate(
+      { entity, ownerId, entityId, file },
+      {
+        onSuccess: (url) => {
+          const next = [...slots]
+          next[index] = url
+          onChange(next)
+        },
+        onSettled: () => setUploadIndex(null),
+      },
+    )
+  }
+
+  const handleRemove = (index: number) => {
+    const next = [...slots]
+    next[index] = null
+    onChange(next)
+  }
+
+  const handleMove = (from: number, to: number) => {
+    onChange(movePhotoSlot(slots, from, to))
+  }
+
+  const handleDrop = (index: number) => {
+    if (dragIndex === null) return
+    onChange(movePhotoSlot(slots, dragIndex, index))
+    setDragIndex(null)
+  }
+
+  return (
+    <div className={cn('grid grid-cols-5 gap-2', className)}>
+      {slots.map((url, index) => {
+        const isUploading = uploadPhoto.isPending && uploadIndex === index
+
+        return (
+          <div
+            key={url ?? `empty-${index}`}
+            draggable={!!url && !disabled}
+            onDragStart={() => setDragIndex(index)}
+            onDragEnd={() => setDragIndex(null)}
+            onDragOver={(e) => dragIndex !== null && e.preventDefault()}
+            onDrop={() => handleDrop(index)}
+            className={cn(
+              'relative aspect-square overflow-hidden rounded-md border bg-muted',
+              dragIndex === index && 'opacity-50',
+              index === 0 && 'ring-2 ring-primary',
+            )}
+          >
+            {isUploading ? (
+              <div className="flex h-full items-center justify-center">
+                <LoadingSpinner size="sm" />
+              </div>
+            ) : url ? (
+              <>
+                <img
+                  src={url}
+                  alt={`Photo ${index + 1}`}
+                  className="h-full w-full cursor-move object-cover"
+                />
+                {!disabled && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(index)}
+                      className="absolute right-1 top-1 rounded-full bg-background/80 p-0.5"
+                      aria-label={`Remove photo ${index + 1}`}
+                    >
+                      <XMarkIcon className="h-4 w-4" />
+                    </button>
+                    {index > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => handleMove(index, index - 1)}
+                        className="absolute bottom-1 left-1 rounded-full bg-background/80 p-0.5"
+                        aria-label={`Move photo ${index + 1} left`}
+                      >
+                        <ChevronLeftIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                    {slots[index + 1] && (
+                      <button
+                        type="button"
+                        onClick={() => handleMove(index, index + 1)}
+                        className="absolute bottom-1 right-1 rounded-full bg-background/80 p-0.5"
+                        aria-label={`Move photo ${index + 1} right`}
+                      >
+                        <ChevronRightIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                  </>
+                )}
+              </>
+            ) : (
+              <button
+                type="button"
+                onClick={() => handleSelect(index)}
+                disabled={disabled || uploadPhoto.isPending}
+                className="flex h-full w-full flex-col items-center justify-center text-muted-foreground"
+                aria-label={`Add photo ${index + 1}`}
+              >
+                {index === 0 ? (
+                  <PhotoIcon className="h-6 w-6" />
+                ) : (
+                  <PlusIcon className="h-6 w-6" />
+                )}
+              </button>
+            )}
+          </div>
+        )
+      })}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ALLOWED_PHOTO_TYPES.join(',')}
+        className="hidden"
+        onChange={handleFileChange}
+      />
+    </div>
+  )
+}
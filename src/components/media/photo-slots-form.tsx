@@ -0,0 +1,54 @@
+import { useState } from 'react'
+import { Button } from '../ui/button'
+import { PhotoSlotsEditor } from './photo-slots-editor'
+import type { MediaEntity } from '@/services/media.service'
+import type { PhotoSlots } from '@/lib/media/photo-slots'
+
+interface PhotoSlotsFormProps {
+  entity: MediaEntity
+  ownerId: string
+  entityId: string
+  initialSlots: PhotoSlots
+  isSaving: boolean
+  onSave: (slots: PhotoSlots) => void
+  onCancel: () => void
+}
+
+// Photo slots editor with save and cancel, the parent saves the slots with
+// the entity photo hook
+export function PhotoSlotsForm({
+  entity,
+  ownerId,
+  entityId,
+  initialSlots,
+  isSaving,
+  onSave,
+  onCancel,
+}: PhotoSlotsFormProps) {
+  const [slots, setSlots] = useState<PhotoSlots>(initialSlots)
+
+  return (
+    <div className="space-y-2">
+      <PhotoSlotsEditor
+        entity={entity}
+        ownerId={ownerId}
+        entityId={entityId}
+        value={slots}
+        onChange={setSlots}
+        disabled={isSaving}
+      />
+      <p className="text-xs text-gray-500">
+        The first photo is the cover, drag photos or use the arrows to reorder
+        them.
+      </p>
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={() => onSave(slots)} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save photos'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+import { DocumentIcon, PhotoIcon } from '@heroicons/react/24/outline'
+
+import { LoadingSpinner } from '../ui/loading-spinner'
+import type { Row } from '@/lib/database-types'
+import { useMessageAttachmentUrls } from '@/hooks/use-private-messages'
+import { getAttachmentFileName } from '@/services/message-attachment.service'
+import { cn } from '@/lib/utils'
+
+type PrivateMessage = Row<'private_messages'>
+
+interface MessageAttachmentProps {
+  message: Pick<
+    PrivateMessage,
+    'attachment_url' | 'attachment_type' | 'message_type' | 'message'
+  >
+  className?: string
+}
+
+// Inline rendering of a private message attachment (photo or document),
+// followed by its caption
+export function MessageAttachment({
+  message,
+  className,
+}: MessageAttachmentProps) {
+  const {
+    data: urls,
+    isLoading,
+    isError,
+  } = useMessageAttachmentUrls(message.attachment_url, message.message_type)
+
+  if (!message.attachment_url) return null
+
+  // The message falls back to the file name when sent without a caption
+  const fileName = getAttachmentFileName(message.attachment_url)
+  const caption = message.message !== fileName ? message.message : null
+  const captionElement = fileName && caption && (
+    <p className="whitespace-pre-wrap">{caption}</p>
+  )
+
+  if (isLoading) {
+    return (
+      <div
+        className={cn(
+          'flex h-40 w-40 items-center justify-center rounded-md bg-muted',
+          className,
+        )}
+      >
+        <LoadingSpinner size="sm" />
+      </div>
+    )
+  }
+
+  if (isError || !urls) {
+    return (
+      <div
+        className={cn(
+          'flex items-center gap-2 rounded-md bg-muted px-3 py-2 text-sm text-muted-foreground',
+          className,
+        )}
+      >
+        <PhotoIcon className="h-4 w-4" />
+        Attachment unavailable
+      </div>
+    )
+  }
+
+  if (message.message_type === 'image') {
+    return (
+      <>
+        <a
+          href={urls.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={cn('block overflow-hidden rounded-md', className)}
+        >
+          <img
+            src={urls.thumbnailUrl || urls.url}
+            alt={caption || fileName || 'Photo'}
+            loading="lazy"
+            className="max-h-60 max-w-60 object-cover"
+          />
+        </a>
+        {captionElement}
+      </>
+    )
+  }
+
+  // Older attachments only have the message to name the file
+  const documentName = fileName || message.message
+
+  return (
+    <>
+      <a
+        href={urls.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        download={documentName}
+        className={cn(
+          'flex items-center gap-2 rounded-md border border-border bg-background px-3 py-2 text-sm hover:bg-accent',
+          className,
+        )}
+      >
+        <DocumentIcon className="h-5 w-5 shrink-0 text-muted-foreground" />
+        <span className="truncate">{documentName}</span>
+      </a>
+      {captionElement}
+    </>
+  )
+}
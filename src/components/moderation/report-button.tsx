@@ -0,0 +1,130 @@
+import { useState } from 'react'
+import { FlagIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { Button } from '../ui/button'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+import type {
+  ReportReason,
+  ReportableContentType,
+} from '@/services/moderation.service'
+import { useReportContent } from '@/hooks/use-moderation'
+import { cn } from '@/lib/utils'
+
+const reportReasons: Array<{ value: ReportReason; label: string }> = [
+  { value: 'spam', label: 'Spam or advertising' },
+  { value: 'harassment', label: 'Harassment or hate' },
+  { value: 'inappropriate', label: 'Inappropriate content' },
+  { value: 'scam', label: 'Scam or fraud' },
+  { value: 'other', label: 'Something else' },
+]
+
+interface ReportButtonProps {
+  contentType: ReportableContentType
+  contentId: string
+  className?: string
+}
+
+// Flag icon opening the report form, drop it next to any reportable content
+export function ReportButton({
+  contentType,
+  contentId,
+  className,
+}: ReportButtonProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [reason, setReason] = useState<ReportReason | null>(null)
+  const [details, setDetails] = useState('')
+  const reportContent = useReportContent()
+
+  const close = () => {
+    setIsOpen(false)
+    setReason(null)
+    setDetails('')
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!reason) return
+
+    reportContent.mutate(
+      { contentType, contentId, reason, details },
+      { onSuccess: close },
+    )
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className={cn('text-gray-400 hover:text-red-500', className)}
+        aria-label="Report"
+      >
+        <FlagIcon className="h-4 w-4" />
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-[1100] flex items-end justify-center bg-black/40 sm:items-center">
+          <form
+            onSubmit={handleSubmit}
+            className="w-full max-w-sm rounded-t-2xl bg-white p-4 shadow-lg sm:rounded-2xl space-y-4"
+          >
+            <div className="flex items-start justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Report content
+              </h2>
+              <button
+                type="button"
+                onClick={close}
+                className="text-gray-400 hover:text-gray-600"
+                aria-label="Close"
+              >
+                <XMarkIcon className="h-5 w-5" />
+              </button>
+            </div>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-gray-700 mb-2">
+                Why are you reporting this?
+              </legend>
+              {reportReasons.map((option) => (
+                <label
+                  key={option.value}
+                  className="flex items-center gap-2 text-sm text-gray-700"
+                >
+                  <input
+                    type="radio"
+                    name="report-reason"
+                    value={option.value}
+                    checked={reason === option.value}
+                    onChange={() => setReason(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </fieldset>
+
+            <div className="space-y-2">
+              <Label htmlFor="report-details">Details (optional)</Label>
+              <Textarea
+                id="report-details"
+                value={details}
+                onChange={(event) => setDetails(event.target.value)}
+                maxLength={500}
+                rows={3}
+              />
+            </div>
+
+            <Button
+              type="submit"
+              variant="destructive"
+              className="w-full"
+              disabled={!reason || reportContent.isPending}
+            >
+              {reportContent.isPending ? 'Sending...' : 'Send report'}
+            </Button>
+          </form>
+        </div>
+      )}
+    </>
+  )
+}
@@ -1,6 +1,8 @@
 import { createContext, useContext, useEffect, useState } from 'react'
 import type { Session, User } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
+import { queryClient } from '@/lib/query-client'
+import { queryPersister } from '@/lib/query-persister'
 import { LoadingSpinner } from '@/components/ui/loading-spinner'
 
 interface AuthContextType {
@@ -69,6 +71,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       const { error } = await supabase.auth.signOut()
       if (error) throw error
+      // Drop the cached and persisted data of the previous user
+      queryClient.clear()
+      await queryPersister.removeClient()
       return {}
     } catch (error) {
       console.error('Sign out error:', error)
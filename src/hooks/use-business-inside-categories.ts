@@ -3,9 +3,10 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { queryKeys } from '../lib/query-keys'
 import { handleMutationError } from '../lib/crud/error-handling'
 import { businessCategoryService } from '../services/business-category.service'
-import type { InsertRow } from '../lib/database-types'
+import type { InsertRow, UpdateRow } from '../lib/database-types'
 
 type BusinessInsideCategoryInsert = InsertRow<'business_inside_categories'>
+type BusinessInsideCategoryUpdate = UpdateRow<'business_inside_categories'>
 
 // Business Inside Categories queries with mobile-first optimizations
 export function useBusinessInsideCategories(id?: string) {
@@ -62,5 +63,49 @@ export function useCreateBusinessInsideCategory() {
   })
 }
 
-// Note: Admin operations (update, delete, bulk operations) are handled directly in Supabase
-// Users can only read and create categories
+// Admin-only hooks
+// Lists active and inactive categories
+export function useAllBusinessInsideCategories() {
+  return useQuery({
+    queryKey: queryKeys.businessInsideCategories.list(),
+    queryFn: () => businessCategoryService.getBusinessInsideCategoriesList(),
+    staleTime: 60 * 1000, // 1 minute, admins edit these lists
+  })
+}
+
+export function useUpdateBusinessInsideCategory() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      ...updates
+    }: BusinessInsideCategoryUpdate & { id: string }) =>
+      businessCategoryService.updateBusinessInsideCategory(id, updates),
+    onSuccess: (data) => {
+      queryClient.setQueryData(
+        queryKeys.businessInsideCategories.detail(data.id),
+        data,
+      )
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.businessInsideCategories.all,
+      })
+    },
+    onError: (error) => handleMutationError(error, 'update'),
+  })
+}
+
+export function useDeleteBusinessInsideCategory() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) =>
+      businessCategoryService.deleteBusinessInsideCategory(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.businessInsideCategories.all,
+      })
+    },
+    onError: (error) => handleMutationError(error, 'delete'),
+  })
+}
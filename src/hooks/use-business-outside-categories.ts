@@ -3,9 +3,10 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { queryKeys } from '../lib/query-keys'
 import { handleMutationError } from '../lib/crud/error-handling'
 import { businessCategoryService } from '../services/business-category.service'
-import type { InsertRow } from '../lib/database-types'
+import type { InsertRow, UpdateRow } from '../lib/database-types'
 
 type BusinessOutsideCategoryInsert = InsertRow<'business_outside_categories'>
+type BusinessOutsideCategoryUpdate = UpdateRow<'business_outside_categories'>
 
 // Business Outside Categories queries with mobile-first optimizations
 export function useBusinessOutsideCategories(id?: string) {
@@ -62,5 +63,49 @@ export function useCreateBusinessOutsideCategory() {
   })
 }
 
-// Note: Admin operations (update, delete, bulk operations) are handled directly in Supabase
-// Users can only read and create categories
+// Admin-only hooks
+// Lists active and inactive categories
+export function useAllBusinessOutsideCategories() {
+  return useQuery({
+    queryKey: queryKeys.businessOutsideCategories.list(),
+    queryFn: () => businessCategoryService.getBusinessOutsideCategoriesList(),
+    staleTime: 60 * 1000, // 1 minute, admins edit these lists
+  })
+}
+
+export function useUpdateBusinessOutsideCategory() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      ...updates
+    }: BusinessOutsideCategoryUpdate & { id: string }) =>
+      businessCategoryService.updateBusinessOutsideCategory(id, updates),
+    onSuccess: (data) => {
+      queryClient.setQueryData(
+        queryKeys.businessOutsideCategories.detail(data.id),
+        data,
+      )
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.businessOutsideCategories.all,
+      })
+    },
+    onError: (error) => handleMutationError(error, 'update'),
+  })
+}
+
+export function useDeleteBusinessOutsideCategory() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) =>
+      businessCategoryService.deleteBusinessOutsideCategory(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.businessOutsideCategories.all,
+      })
+    },
+    onError: (error) => handleMutationError(error, 'delete'),
+  })
+}
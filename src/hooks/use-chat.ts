@@ -1,8 +1,41 @@
 // Chat hooks refactored to use service layer pattern
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useEffect } from 'react'
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query'
 import { queryKeys } from '../lib/query-keys'
 import { handleMutationError } from '../lib/crud/error-handling'
 import { chatService } from '../services/chat.service'
+import type { InfiniteData } from '@tanstack/react-query'
+import type {
+  ChatMessageCursor,
+  ChatMessagePage,
+  MessageWithProfile,
+} from '../services/chat.service'
+
+type ChatInfiniteData = InfiniteData<ChatMessagePage, ChatMessageCursor | null>
+
+// Insert or replace a message in the newest page without touching older pages
+function mergeMessageIntoFirstPage(
+  data: ChatInfiniteData | undefined,
+  message: MessageWithProfile,
+): ChatInfiniteData | undefined {
+  if (!data || data.pages.length === 0) return data
+
+  const [firstPage, ...olderPages] = data.pages
+  const exists = firstPage.messages.some((m) => m.id === message.id)
+  const messages = exists
+    ? firstPage.messages.map((m) => (m.id === message.id ? message : m))
+    : [...firstPage.messages, message]
+
+  return {
+    ...data,
+    pages: [{ ...firstPage, messages }, ...olderPages],
+  }
+}
 
 // Chat queries refactored to use service layer
 export function useChatMessagesByChannel(
@@ -20,6 +53,42 @@ export function useChatMessagesByChannel(
   })
 }
 
+// Keyset-paginated channel history kept live by the realtime subscription
+export function useInfiniteChatMessages(
+  channelId: string,
+  options?: {
+    pageSize?: number
+  },
+) {
+  const queryClient = useQueryClient()
+  const queryKey = queryKeys.chat.infiniteByChannel(channelId)
+
+  useEffect(() => {
+    if (!channelId) return
+
+    return chatService.subscribeToChannel(channelId, (message) => {
+      queryClient.setQueryData<ChatInfiniteData>(
+        queryKeys.chat.infiniteByChannel(channelId),
+        (old) => mergeMessageIntoFirstPage(old, message),
+      )
+    })
+  }, [channelId, queryClient])
+
+  return useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam }) =>
+      chatService.getMessagesPageByChannel(channelId, {
+        cursor: pageParam,
+        limit: options?.pageSize,
+      }),
+    initialPageParam: null as ChatMessageCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!channelId,
+    // Realtime keeps the first page fresh, older pages never change order
+    staleTime: Infinity,
+  })
+}
+
 export function useChatMessagesByUser(
   userId: string,
   options?: {
@@ -119,6 +188,13 @@ export function useSendMessage() {
         queryKey: queryKeys.chat.byChannel(variables.channel_id),
       })
     },
+    onSuccess: (data) => {
+      // Show the sent message right away in paginated history
+      queryClient.setQueryData<ChatInfiniteData>(
+        queryKeys.chat.infiniteByChannel(data.channel_id),
+        (old) => mergeMessageIntoFirstPage(old, data),
+      )
+    },
   })
 }
 
@@ -0,0 +1,57 @@
+// Coin ledger hooks: transaction history and admin reconciliation
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query'
+import { queryKeys } from '../lib/query-keys'
+import { handleMutationError } from '../lib/crud/error-handling'
+import { coinLedgerService } from '../services/coin-ledger.service'
+import type { CoinTransactionReason } from '../services/coin-ledger.service'
+
+// Coin ledger queries
+export function useCoinTransactions(
+  profileId?: string,
+  options?: {
+    reason?: CoinTransactionReason
+    pageSize?: number
+  },
+) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.coinLedger.byProfile(profileId || '', options?.reason),
+    queryFn: ({ pageParam }) =>
+      coinLedgerService.getTransactions(profileId!, {
+        cursor: pageParam,
+        limit: options?.pageSize,
+        reason: options?.reason,
+      }),
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!profileId,
+    staleTime: 60 * 1000, // 1 minute, balances move with check-ins and purchases
+  })
+}
+
+export function useCoinReconciliation(profileId?: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.coinLedger.reconciliation(profileId),
+    queryFn: () => coinLedgerService.reconcileBalances({ profileId }),
+    enabled,
+    staleTime: 0, // Always compare against the current balances
+  })
+}
+
+// Coin ledger mutations
+export function useReconcileCoinBalances() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (profileId?: string) =>
+      coinLedgerService.reconcileBalances({ profileId, fix: true }),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.coinLedger.all })
+    },
+  })
+}
@@ -0,0 +1,79 @@
+// Coin transfer hooks: peer-to-peer transfers, tips and daily limits
+//
+// IMPORTANT: Transfers go through the transfer_coins() PostgreSQL function,
+// which moves the coins atomically and enforces the daily limits.
+// No optimistic coin updates, the balance comes back from the function.
+//
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { authActions } from '../lib/store'
+import { queryKeys } from '../lib/query-keys'
+import { handleMutationError } from '../lib/crud/error-handling'
+import { coinTransferService } from '../services/coin-transfer.service'
+import type {
+  CoinTransferResult,
+  TipData,
+  TransferCoinsData,
+} from '../services/coin-transfer.service'
+
+// Coin transfer queries
+export function useCoinTransferUsage(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.coinTransfers.usage(),
+    queryFn: () => coinTransferService.getTransferUsage(),
+    enabled,
+    staleTime: 30 * 1000, // 30 seconds, the 24 hour window keeps moving
+  })
+}
+
+export function useCoinTransfers(
+  profileId?: string,
+  options?: { limit?: number; offset?: number },
+) {
+  return useQuery({
+    queryKey: queryKeys.coinTransfers.byProfile(profileId || ''),
+    queryFn: () => coinTransferService.getTransfers(profileId!, options),
+    enabled: !!profileId,
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
+
+// Hook to check a transfer against the balance and limits before confirming
+export function useValidateCoinTransfer() {
+  return useMutation({
+    mutationFn: (amount: number) =>
+      coinTransferService.validateTransfer(amount),
+  })
+}
+
+// Coin transfer mutations
+function useCoinTransferMutation<TData extends TransferCoinsData>(
+  mutationFn: (data: TData) => Promise<CoinTransferResult>,
+) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn,
+    onError: (error) => handleMutationError(error, 'create'),
+    onSettled: () => {
+      // Sender and recipient balances and ledgers both changed
+      queryClient.invalidateQueries({ queryKey: queryKeys.profiles.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.coinLedger.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.coinTransfers.all })
+    },
+    onSuccess: (result) => {
+      authActions.updateCoins(result.sender_balance)
+    },
+  })
+}
+
+export function useTransferCoins() {
+  return useCoinTransferMutation((data: TransferCoinsData) =>
+    coinTransferService.transferCoins(data),
+  )
+}
+
+export function useTipCoins() {
+  return useCoinTransferMutation((data: TipData) =>
+    coinTransferService.tip(data),
+  )
+}
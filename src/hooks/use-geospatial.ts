@@ -1,5 +1,6 @@
 // Geospatial utility hooks for map features
 // Using TanStack Query best practices with mobile-first optimizations
+import { useMemo } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { geospatialService } from '../services/geospatial.service'
 
@@ -96,34 +97,99 @@ export function useUserHomeLocation(userId?: string) {
 }
 
 /**
- * Hook to get locations within a specific radius of a point
- * Client-side filtering using coordinates from useLocationsWithCoords
+ * Hook to get the verified residents, inside businesses and services of a lot
+ * Used by the lot panel of the village map
+ */
+export function useLotDetails(locationId?: string) {
+  return useQuery({
+    queryKey: ['geospatial', 'lot-details', locationId || ''],
+    queryFn: () => geospatialService.getLotDetails(locationId!),
+    enabled: !!locationId,
+    staleTime: 5 * 60 * 1000, // 5 minutes for lot details
+  })
+}
+
+/**
+ * Hook to get the lot boundaries as GeoJSON polygons
+ * Uses the get_location_boundaries database function
+ */
+export function useLocationBoundaries() {
+  return useQuery({
+    queryKey: ['geospatial', 'location-boundaries'],
+    queryFn: () => geospatialService.getLocationBoundaries(),
+    staleTime: 10 * 60 * 1000, // 10 minutes, lots rarely move
+  })
+}
+
+/**
+ * Hook to get the block outlines derived from the lot boundaries
+ * Uses the get_block_outlines database function
+ */
+export function useBlockOutlines() {
+  return useQuery({
+    queryKey: ['geospatial', 'block-outlines'],
+    queryFn: () => geospatialService.getBlockOutlines(),
+    staleTime: 10 * 60 * 1000, // 10 minutes, lots rarely move
+  })
+}
+
+/**
+ * Hook to find the lot under a point, e.g. the current position
+ * Matched server-side against the lot boundaries (find_location_at_point)
+ */
+export function useLocationAtPoint(lat?: number, lng?: number) {
+  return useQuery({
+    queryKey: ['geospatial', 'location-at-point', lat, lng],
+    queryFn: () => geospatialService.findLocationAtPoint(lat!, lng!),
+    enabled:
+      lat !== undefined &&
+      lng !== undefined &&
+      geospatialService.validateCoordinates(lat, lng),
+    staleTime: 10 * 60 * 1000, // 10 minutes, lots rarely move
+  })
+}
+
+/**
+ * Hook to get locations within a specific radius of a point, nearest first
+ * Filtered server-side by PostGIS (find_locations_within_radius)
  */
 export function useLocationsWithinRadius(
   centerLat: number,
   centerLng: number,
   radiusKm: number = 1,
 ) {
-  const { data: locations, ...query } = useLocationsWithCoords()
-
-  const filteredLocations = locations?.filter((location) => {
-    if (!location.lat || !location.lng) return false
-
-    // Haversine formula to calculate distance between two points
-    const distance = calculateDistance(
-      centerLat,
-      centerLng,
-      location.lat,
-      location.lng,
-    )
-
-    return distance <= radiusKm
+  return useQuery({
+    queryKey: ['geospatial', 'within-radius', centerLat, centerLng, radiusKm],
+    queryFn: () =>
+      geospatialService.getLocationsWithinRadius(
+        centerLat,
+        centerLng,
+        radiusKm,
+      ),
+    enabled: geospatialService.validateCoordinates(centerLat, centerLng),
+    staleTime: 10 * 60 * 1000, // 10 minutes, lots rarely move
   })
+}
 
-  return {
-    ...query,
-    data: filteredLocations || [],
-  }
+/**
+ * Hook to get the nearest locations to a point
+ * Ordered server-side by PostGIS (find_nearest_locations)
+ */
+export function useNearestLocations(
+  centerLat?: number,
+  centerLng?: number,
+  limit: number = 10,
+) {
+  return useQuery({
+    queryKey: ['geospatial', 'nearest', centerLat, centerLng, limit],
+    queryFn: () =>
+      geospatialService.findNearestLocations(centerLat!, centerLng!, limit),
+    enabled:
+      centerLat !== undefined &&
+      centerLng !== undefined &&
+      geospatialService.validateCoordinates(centerLat, centerLng),
+    staleTime: 10 * 60 * 1000, // 10 minutes, lots rarely move
+  })
 }
 
 /**
@@ -277,69 +343,29 @@ export function useMapBounds(locations?: Array<{ lat: number; lng: number }>) {
 /**
  * Hook to get location clusters for map performance
  * Groups nearby locations together for better visualization at high zoom levels
+ * Pass a zoom level to derive the cluster radius from the map scale
  */
 export function useLocationClusters(
   locations?: Array<{ lat: number; lng: number; id: string }>,
-  clusterRadiusKm: number = 0.5,
+  options?: {
+    clusterRadiusKm?: number
+    zoom?: number
+  },
 ) {
-  return useQuery({
-    queryKey: [
-      'geospatial',
-      'location-clusters',
-      clusterRadiusKm,
-      locations?.length,
-    ],
-    queryFn: () => {
-      if (!locations || locations.length === 0) {
-        return []
-      }
-
-      const clusters: Array<{
-        center: { lat: number; lng: number }
-        locations: Array<{ lat: number; lng: number; id: string }>
-        count: number
-      }> = []
-
-      const processed = new Set<string>()
-
-      locations.forEach((location) => {
-        if (processed.has(location.id)) return
-
-        const nearbyLocations = locations.filter((other) => {
-          if (processed.has(other.id)) return false
-          if (other.id === location.id) return true
-
-          const distance = calculateDistance(
-            location.lat,
-            location.lng,
-            other.lat,
-            other.lng,
-          )
-
-          return distance <= clusterRadiusKm
-        })
-
-        if (nearbyLocations.length > 0) {
-          const centerLat =
-            nearbyLocations.reduce((sum, loc) => sum + loc.lat, 0) /
-            nearbyLocations.length
-          const centerLng =
-            nearbyLocations.reduce((sum, loc) => sum + loc.lng, 0) /
-            nearbyLocations.length
-
-          clusters.push({
-            center: { lat: centerLat, lng: centerLng },
-            locations: nearbyLocations,
-            count: nearbyLocations.length,
-          })
-
-          nearbyLocations.forEach((loc) => processed.add(loc.id))
-        }
-      })
-
-      return clusters
-    },
-    enabled: !!locations && locations.length > 0,
-    staleTime: 5 * 60 * 1000, // 5 minutes for clusters
-  })
+  const clusterer = useMemo(
+    () =>
+      locations && locations.length > 0
+        ? geospatialService.createLocationClusterer(locations)
+        : null,
+    [locations],
+  )
+
+  return useMemo(() => {
+    if (!locations || !clusterer) return []
+    if (options?.zoom !== undefined) return clusterer(options.zoom)
+    return geospatialService.calculateLocationClusters(
+      locations,
+      options?.clusterRadiusKm,
+    )
+  }, [locations, clusterer, options?.zoom, options?.clusterRadiusKm])
 }
@@ -0,0 +1,91 @@
+// Household hooks
+//
+// IMPORTANT: Members are read with useProfileLocationAssociationsByLocation.
+// Role changes, removals and transfers go through PostgreSQL functions that
+// check the permissions of the current user and write the household history,
+// refetch the associations and the history after each of them.
+//
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { uiActions } from '../lib/store'
+import { queryKeys } from '../lib/query-keys'
+import { handleMutationError } from '../lib/crud/error-handling'
+import { householdService } from '../services/household.service'
+import type { QueryClient } from '@tanstack/react-query'
+import type { HouseholdRole } from '../services/household.service'
+
+function invalidateHousehold(queryClient: QueryClient) {
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.profileLocationAssociations.all,
+  })
+  queryClient.invalidateQueries({ queryKey: queryKeys.household.all })
+}
+
+// Household queries
+export function useHouseholdHistory(locationId?: string) {
+  return useQuery({
+    queryKey: queryKeys.household.history(locationId || ''),
+    queryFn: () => householdService.getHouseholdHistory(locationId!),
+    enabled: !!locationId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+// Household mutations
+export function useSetHouseholdRole() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      associationId,
+      role,
+    }: {
+      associationId: number
+      role: Exclude<HouseholdRole, 'owner'>
+    }) => householdService.setMemberRole(associationId, role),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSettled: () => invalidateHousehold(queryClient),
+  })
+}
+
+export function useRevokeHouseholdMember() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (associationId: number) =>
+      householdService.revokeMember(associationId),
+    onError: (error) => handleMutationError(error, 'delete'),
+    onSuccess: () => {
+      uiActions.addNotification({
+        type: 'success',
+        title: 'Household updated',
+        message: 'The resident is no longer associated with this lot.',
+        duration: 3000,
+      })
+    },
+    onSettled: () => invalidateHousehold(queryClient),
+  })
+}
+
+export function useTransferHouseholdOwnership() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      locationId,
+      newOwnerId,
+    }: {
+      locationId: string
+      newOwnerId: string
+    }) => householdService.transferOwnership(locationId, newOwnerId),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSuccess: () => {
+      uiActions.addNotification({
+        type: 'success',
+        title: 'Ownership transferred',
+        message: 'You are now a co-owner of this lot.',
+        duration: 3000,
+      })
+    },
+    onSettled: () => invalidateHousehold(queryClient),
+  })
+}
@@ -1,4 +1,10 @@
 // Location Association Requests CRUD hooks with trigger-aware operations
+//
+// IMPORTANT: Status changes are checked by trigger_location_request_lifecycle
+// (who may approve, reject or cancel) and notified by
+// trigger_notify_location_request_transition. Requests for lots without an
+// owner are escalated to the admins.
+//
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { queryKeys } from '../lib/query-keys'
 import { handleMutationError } from '../lib/crud/error-handling'
@@ -33,9 +39,32 @@ export function usePendingLocationAssociationRequests(approverId: string) {
   })
 }
 
-// REMOVED: useLocationAssociationRequestsByRequester
-// This hook was removed because it doesn't align with the new RLS policies
-// where only approvers can read location association requests
+/**
+ * Hook for fetching the requests sent by a profile
+ * RLS: Requesters can read their own requests
+ */
+export function useLocationAssociationRequestsByRequester(requesterId: string) {
+  return useQuery({
+    queryKey: queryKeys.locationAssociationRequests.byRequester(requesterId),
+    queryFn: () =>
+      locationAssociationRequestService.getRequestsByRequester(requesterId),
+    enabled: !!requesterId,
+    staleTime: 2 * 60 * 1000, // 2 minutes, approvers may answer anytime
+  })
+}
+
+/**
+ * Hook for fetching requests escalated to the admins (lots without owner)
+ * RLS: Only admins can read escalated requests
+ */
+export function useEscalatedLocationAssociationRequests(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.locationAssociationRequests.escalated(),
+    queryFn: () => locationAssociationRequestService.getEscalatedRequests(),
+    enabled,
+    staleTime: 2 * 60 * 1000, // 2 minutes for pending requests
+  })
+}
 
 /**
  * Hook for fetching requests by location (for requesters and approvers)
@@ -106,9 +135,57 @@ export function useRejectLocationAssociationRequest() {
   })
 }
 
+/**
+ * Hook for cancelling a pending request
+ * RLS: Only the requester can cancel their request
+ */
+export function useCancelLocationAssociationRequest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, requesterId }: { id: number; requesterId: string }) =>
+      locationAssociationRequestService.cancelRequest(id, requesterId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.locationAssociationRequests.all,
+      })
+    },
+    onError: (error) => handleMutationError(error, 'update'),
+  })
+}
+
+/**
+ * Hook for approving or rejecting an escalated request
+ * RLS: Only admins can answer escalated requests
+ */
+export function useResolveEscalatedLocationAssociationRequest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      status,
+    }: {
+      id: number
+      status: 'approved' | 'rejected'
+    }) => locationAssociationRequestService.resolveEscalatedRequest(id, status),
+    onSuccess: (_data, { status }) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.locationAssociationRequests.all,
+      })
+      if (status === 'approved') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.locations.lists() })
+        queryClient.invalidateQueries({ queryKey: queryKeys.profiles.lists() })
+      }
+    },
+    onError: (error) => handleMutationError(error, 'update'),
+  })
+}
+
 /**
  * Hook for creating a new location association request
  * RLS: Only requesters can create requests, approver must be location owner
+ * (leave approver_id empty for lots without owner, the request is escalated)
  */
 export function useCreateLocationAssociationRequestWithValidation() {
   const queryClient = useQueryClient()
@@ -117,13 +194,13 @@ export function useCreateLocationAssociationRequestWithValidation() {
     mutationFn: (newRequest: {
       requester_id: string
       location_id: string
-      approver_id: string
+      approver_id?: string | null
     }) =>
       locationAssociationRequestService.createRequestWithValidation(newRequest),
     onSuccess: () => {
       // Invalidate related queries
       queryClient.invalidateQueries({
-        queryKey: queryKeys.locationAssociationRequests.lists(),
+        queryKey: queryKeys.locationAssociationRequests.all,
       })
     },
     onError: (error) => handleMutationError(error, 'create'),
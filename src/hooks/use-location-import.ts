@@ -0,0 +1,60 @@
+// Location import hooks
+//
+// IMPORTANT: Previews are dry runs of import_locations and write nothing.
+// Applying an import creates and updates lots in one transaction, refetch
+// the location lists and the map coordinates afterwards.
+//
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { uiActions } from '../lib/store'
+import { queryKeys } from '../lib/query-keys'
+import { handleMutationError } from '../lib/crud/error-handling'
+import { locationImportService } from '../services/location-import.service'
+import type {
+  LocationImportFormat,
+  LocationImportRow,
+} from '../services/location-import.service'
+
+export function usePreviewLocationImport() {
+  return useMutation({
+    mutationFn: (rows: Array<LocationImportRow>) =>
+      locationImportService.previewImport(rows),
+    onError: (error) => handleMutationError(error, 'create'),
+  })
+}
+
+export function useApplyLocationImport() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (rows: Array<LocationImportRow>) =>
+      locationImportService.applyImport(rows),
+    onError: (error) => handleMutationError(error, 'create'),
+    onSuccess: (changes) => {
+      const created = changes.filter(
+        (change) => change.action === 'create',
+      ).length
+      const updated = changes.filter(
+        (change) => change.action === 'update',
+      ).length
+
+      uiActions.addNotification({
+        type: 'success',
+        title: 'Import complete',
+        message: `${created} lots created, ${updated} updated.`,
+        duration: 3000,
+      })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.locations.all })
+      queryClient.invalidateQueries({ queryKey: ['geospatial'] })
+    },
+  })
+}
+
+export function useExportLocations() {
+  return useMutation({
+    mutationFn: (format: LocationImportFormat) =>
+      locationImportService.exportLocations(format),
+    onError: (error) => handleMutationError(error, 'create'),
+  })
+}
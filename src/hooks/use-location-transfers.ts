@@ -0,0 +1,87 @@
+// Location transfer hooks
+//
+// IMPORTANT: Starting a transfer moves the household out of the lot and
+// archives or reassigns its businesses and services, claiming it creates a
+// new owner association. Both refetch the lot, its household and the
+// businesses and services lists.
+//
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { uiActions } from '../lib/store'
+import { queryKeys } from '../lib/query-keys'
+import { handleMutationError } from '../lib/crud/error-handling'
+import { locationTransferService } from '../services/location-transfer.service'
+import type { QueryClient } from '@tanstack/react-query'
+import type { StartLocationTransferData } from '../services/location-transfer.service'
+
+function invalidateLocationTransfer(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.locationTransfers.all })
+  queryClient.invalidateQueries({ queryKey: queryKeys.locations.all })
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.profileLocationAssociations.all,
+  })
+  queryClient.invalidateQueries({ queryKey: queryKeys.household.all })
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.locationAssociationRequests.all,
+  })
+  queryClient.invalidateQueries({ queryKey: queryKeys.businessInside.all })
+  queryClient.invalidateQueries({ queryKey: queryKeys.services.all })
+}
+
+// Location transfer queries
+export function useLocationTransfers(locationId?: string) {
+  return useQuery({
+    queryKey: queryKeys.locationTransfers.byLocation(locationId || ''),
+    queryFn: () => locationTransferService.getLocationTransfers(locationId!),
+    enabled: !!locationId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+// Location transfer mutations
+export function useStartLocationTransfer() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: StartLocationTransferData) =>
+      locationTransferService.startTransfer(data),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSettled: () => invalidateLocationTransfer(queryClient),
+  })
+}
+
+export function useClaimLocation() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (code: string) => locationTransferService.claimLocation(code),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSuccess: () => {
+      uiActions.addNotification({
+        type: 'success',
+        title: 'Lot claimed',
+        message: 'You are now the owner of this lot.',
+        duration: 3000,
+      })
+    },
+    onSettled: () => invalidateLocationTransfer(queryClient),
+  })
+}
+
+export function useCancelLocationTransfer() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (transferId: string) =>
+      locationTransferService.cancelTransfer(transferId),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSuccess: () => {
+      uiActions.addNotification({
+        type: 'success',
+        title: 'Transfer cancelled',
+        message: 'The claim code no longer works and the lot is unlocked.',
+        duration: 3000,
+      })
+    },
+    onSettled: () => invalidateLocationTransfer(queryClient),
+  })
+}
@@ -2,7 +2,15 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { queryKeys } from '../lib/query-keys'
 import { handleMutationError } from '../lib/crud/error-handling'
+import {
+  getCachedUpdatedAt,
+  offlineMutationKeys,
+  setCachedRow,
+  updateMarketplaceListing,
+} from '../lib/offline-mutations'
 import { MarketplaceService } from '../services/marketplace.service'
+import type { UpdateMarketplaceListingVariables } from '../lib/offline-mutations'
+import type { PhotoSlots } from '../lib/media/photo-slots'
 import type { Row } from '../lib/database-types'
 
 type MarketplaceListing = Row<'marketplace_listings'>
@@ -43,19 +51,59 @@ export const useMarketplaceListingCreate = () => {
   })
 }
 
+// Queued while offline. Edits carry the cached listing's updated_at, so
+// an edit replayed over a newer version is reported as a conflict
 export const useMarketplaceListingUpdate = () => {
   const queryClient = useQueryClient()
 
-  return useMutation({
-    mutationFn: ({ id, ...updates }: any) =>
-      marketplaceService.updateListing(id, updates),
-    onSuccess: () => {
+  const withExpectedUpdatedAt = (
+    variables: UpdateMarketplaceListingVariables,
+  ): UpdateMarketplaceListingVariables =>
+    variables.expectedUpdatedAt !== undefined
+      ? variables
+      : {
+          ...variables,
+          expectedUpdatedAt: getCachedUpdatedAt(
+            queryClient,
+            {
+              detail: queryKeys.marketplaceListings.detail(variables.id),
+              lists: queryKeys.marketplaceListings.lists(),
+            },
+            variables.id,
+          ),
+        }
+
+  const mutation = useMutation({
+    mutationKey: offlineMutationKeys.updateMarketplaceListing,
+    mutationFn: updateMarketplaceListing,
+    onSuccess: (data) => {
+      // The server's updated_at is the version the next edit is made from
+      setCachedRow(
+        queryClient,
+        {
+          detail: queryKeys.marketplaceListings.detail(data.id),
+          lists: queryKeys.marketplaceListings.lists(),
+        },
+        data,
+      )
       queryClient.invalidateQueries({
         queryKey: queryKeys.marketplaceListings.lists(),
       })
     },
     onError: (error) => handleMutationError(error, 'update'),
   })
+
+  return {
+    ...mutation,
+    mutate: (
+      variables: UpdateMarketplaceListingVariables,
+      options?: Parameters<typeof mutation.mutate>[1],
+    ) => mutation.mutate(withExpectedUpdatedAt(variables), options),
+    mutateAsync: (
+      variables: UpdateMarketplaceListingVariables,
+      options?: Parameters<typeof mutation.mutateAsync>[1],
+    ) => mutation.mutateAsync(withExpectedUpdatedAt(variables), options),
+  }
 }
 
 export const useMarketplaceListingDelete = () => {
@@ -72,6 +120,26 @@ export const useMarketplaceListingDelete = () => {
   })
 }
 
+// Replaced or removed uploads are deleted from storage by the service
+export const useMarketplaceListingPhotosUpdate = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, slots }: { id: string; slots: PhotoSlots }) =>
+      marketplaceService.updateListingPhotos(id, slots),
+    onSuccess: (data) => {
+      queryClient.setQueryData(
+        queryKeys.marketplaceListings.detail(data.id),
+        data,
+      )
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.marketplaceListings.lists(),
+      })
+    },
+    onError: (error) => handleMutationError(error, 'update'),
+  })
+}
+
 // Marketplace queries with mobile-first optimizations
 export function useMarketplaceListing(id?: string) {
   return useQuery({
@@ -92,6 +160,7 @@ export function useMarketplaceListingsList(filters?: {
   priceMin?: number
   priceMax?: number
   search?: string
+  includeExpired?: boolean
   limit?: number
   offset?: number
 }) {
@@ -127,6 +196,15 @@ export function useActiveMarketplaceListings() {
   })
 }
 
+export function useExpiringMarketplaceListings(profileId?: string) {
+  return useQuery({
+    queryKey: queryKeys.marketplaceListings.expiring(profileId || ''),
+    queryFn: () => marketplaceService.getExpiringListings(profileId!),
+    enabled: !!profileId,
+    staleTime: 10 * 60 * 1000, // 10 minutes, expiry is processed hourly
+  })
+}
+
 // Specialized mutations for marketplace operations
 export function useCreateMarketplaceListing() {
   const queryClient = useQueryClient()
@@ -331,3 +409,29 @@ export function useToggleMarketplaceListingFeatured() {
     },
   })
 }
+
+// Renewal through renew_marketplace_listing(), coins are spent server-side
+export function useRenewMarketplaceListing() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, useCoins }: { id: string; useCoins?: boolean }) =>
+      marketplaceService.renewListing(id, { useCoins }),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSuccess: (data, { useCoins }) => {
+      queryClient.setQueryData(
+        queryKeys.marketplaceListings.detail(data.id),
+        data,
+      )
+      if (useCoins) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.profiles.all })
+        queryClient.invalidateQueries({ queryKey: queryKeys.coinLedger.all })
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.marketplaceListings.all,
+      })
+    },
+  })
+}
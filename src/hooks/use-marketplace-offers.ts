@@ -0,0 +1,86 @@
+// Marketplace offer hooks: offers, reservations and the seller's responses
+//
+// IMPORTANT: Offers go through the make_marketplace_offer() and
+// respond_to_marketplace_offer() PostgreSQL functions, which also update the
+// listing status and post a private message to the other party. Every
+// mutation invalidates the listings and the conversations with the offers.
+//
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { uiActions } from '../lib/store'
+import { queryKeys } from '../lib/query-keys'
+import { handleMutationError } from '../lib/crud/error-handling'
+import { marketplaceOfferService } from '../services/marketplace-offer.service'
+import type { QueryClient } from '@tanstack/react-query'
+import type {
+  MakeOfferData,
+  MarketplaceOfferAction,
+} from '../services/marketplace-offer.service'
+
+function invalidateOfferContent(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.marketplaceOffers.all })
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.marketplaceListings.all,
+  })
+  queryClient.invalidateQueries({ queryKey: queryKeys.privateMessages.all })
+}
+
+// Marketplace offer queries
+export function useListingOffers(listingId?: string) {
+  return useQuery({
+    queryKey: queryKeys.marketplaceOffers.byListing(listingId || ''),
+    queryFn: () => marketplaceOfferService.getListingOffers(listingId!),
+    enabled: !!listingId,
+    staleTime: 60 * 1000, // 1 minute, buyers can make offers at any time
+  })
+}
+
+export function useProfileOffers(
+  profileId?: string,
+  options?: { role?: 'buyer' | 'seller'; openOnly?: boolean },
+) {
+  return useQuery({
+    queryKey: queryKeys.marketplaceOffers.byProfile(profileId || '', options),
+    queryFn: () =>
+      marketplaceOfferService.getProfileOffers(profileId!, options),
+    enabled: !!profileId,
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
+
+// Marketplace offer mutations
+export function useMakeOffer() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: MakeOfferData) =>
+      marketplaceOfferService.makeOffer(data),
+    onError: (error) => handleMutationError(error, 'create'),
+    onSuccess: (offer) => {
+      uiActions.addNotification({
+        type: 'success',
+        title: offer.kind === 'offer' ? 'Offer sent' : 'Reservation requested',
+        message: 'The seller was notified, follow up in your messages.',
+        duration: 3000,
+      })
+    },
+    onSettled: () => invalidateOfferContent(queryClient),
+  })
+}
+
+export function useRespondToOffer() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      offerId,
+      action,
+      message,
+    }: {
+      offerId: string
+      action: MarketplaceOfferAction
+      message?: string
+    }) => marketplaceOfferService.respondToOffer(offerId, action, message),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSettled: () => invalidateOfferContent(queryClient),
+  })
+}
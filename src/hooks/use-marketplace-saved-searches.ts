@@ -0,0 +1,83 @@
+// Marketplace saved search hooks
+//
+// IMPORTANT: Alerts are sent by the trigger_notify_saved_search_matches
+// database trigger when a matching listing is inserted, they show up in the
+// user notifications. These hooks only manage the saved filters.
+//
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { uiActions } from '../lib/store'
+import { queryKeys } from '../lib/query-keys'
+import { handleMutationError } from '../lib/crud/error-handling'
+import { marketplaceSavedSearchService } from '../services/marketplace-saved-search.service'
+import type { CreateSavedSearchData } from '../services/marketplace-saved-search.service'
+
+// Saved search queries
+export function useMarketplaceSavedSearches(profileId?: string) {
+  return useQuery({
+    queryKey: queryKeys.marketplaceSavedSearches.byProfile(profileId || ''),
+    queryFn: () => marketplaceSavedSearchService.getSavedSearches(profileId!),
+    enabled: !!profileId,
+    staleTime: 5 * 60 * 1000, // 5 minutes, only changed by the user
+  })
+}
+
+// Saved search mutations
+export function useCreateMarketplaceSavedSearch() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateSavedSearchData) =>
+      marketplaceSavedSearchService.createSavedSearch(data),
+    onError: (error) => handleMutationError(error, 'create'),
+    onSuccess: (data) => {
+      uiActions.addNotification({
+        type: 'success',
+        title: 'Search saved',
+        message: data.notify
+          ? 'You will be notified about new matching listings.'
+          : 'Run it again from your saved searches.',
+        duration: 3000,
+      })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.marketplaceSavedSearches.all,
+      })
+    },
+  })
+}
+
+export function useUpdateMarketplaceSavedSearch() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      updates,
+    }: {
+      id: string
+      updates: { name?: string; notify?: boolean }
+    }) => marketplaceSavedSearchService.updateSavedSearch(id, updates),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.marketplaceSavedSearches.all,
+      })
+    },
+  })
+}
+
+export function useDeleteMarketplaceSavedSearch() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) =>
+      marketplaceSavedSearchService.deleteSavedSearch(id),
+    onError: (error) => handleMutationError(error, 'delete'),
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.marketplaceSavedSearches.all,
+      })
+    },
+  })
+}
@@ -0,0 +1,26 @@
+// Photo upload hooks shared by listings, businesses and services
+//
+// IMPORTANT: Uploading only stores the file. The returned URL is saved with
+// the entity photo hooks (useMarketplaceListingPhotosUpdate,
+// useUpdateUserBusinessInsidePhotos, ...), which also clean up replaced files.
+//
+import { useMutation } from '@tanstack/react-query'
+import { handleMutationError } from '../lib/crud/error-handling'
+import { mediaService } from '../services/media.service'
+import type { MediaEntity } from '../services/media.service'
+
+export interface UploadPhotoVariables {
+  entity: MediaEntity
+  ownerId: string
+  entityId: string
+  file: File
+}
+
+// Photo upload mutation
+export function useUploadPhoto() {
+  return useMutation({
+    mutationFn: ({ entity, ownerId, entityId, file }: UploadPhotoVariables) =>
+      mediaService.uploadPhoto(entity, ownerId, entityId, file),
+    onError: (error) => handleMutationError(error, 'create'),
+  })
+}
@@ -116,6 +116,21 @@ export function useMessagesHeaderSearch(
   })
 }
 
+// All residents' messages, used by admin moderation (RLS allows seeing all)
+export function useMessagesHeaderList(filters?: {
+  userId?: string
+  includeExpired?: boolean
+  search?: string
+  limit?: number
+  offset?: number
+}) {
+  return useQuery({
+    queryKey: queryKeys.messagesHeader.list(filters),
+    queryFn: () => messageHeaderService.getMessageHeadersList(filters),
+    staleTime: 60 * 1000, // 1 minute for moderation lists
+  })
+}
+
 // Specialized mutations for messages header
 export function useCreateMessageHeader() {
   const queryClient = useQueryClient()
@@ -214,6 +229,9 @@ export function useCreateMessageHeader() {
         queryClient.invalidateQueries({
           queryKey: queryKeys.messagesHeader.byUser(data.user_id),
         })
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.coinLedger.profile(data.user_id),
+        })
       }
     },
   })
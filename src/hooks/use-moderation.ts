@@ -0,0 +1,101 @@
+// Content reporting and moderation queue hooks
+//
+// IMPORTANT: Reports are resolved by the moderate_report() PostgreSQL function,
+// which hides content, warns or suspends the author and logs the action.
+// The affected content caches are invalidated once it returns.
+//
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { uiActions } from '../lib/store'
+import { queryKeys } from '../lib/query-keys'
+import { handleMutationError } from '../lib/crud/error-handling'
+import { moderationService } from '../services/moderation.service'
+import type {
+  ContentReportFilters,
+  ModerationActionType,
+  ReportContentData,
+  ReportableContentType,
+} from '../services/moderation.service'
+
+// Caches holding each kind of reportable content
+const contentQueryKeys: Record<ReportableContentType, ReadonlyArray<string>> = {
+  chat: queryKeys.chat.all,
+  threads: queryKeys.threads.all,
+  thread_posts: queryKeys.threadPosts.all,
+  marketplace_listings: queryKeys.marketplaceListings.all,
+  messages_header: queryKeys.messagesHeader.all,
+}
+
+// Moderation queries
+export function useContentReports(filters?: ContentReportFilters) {
+  return useQuery({
+    queryKey: queryKeys.contentReports.list(filters),
+    queryFn: () => moderationService.getReports(filters),
+    staleTime: 30 * 1000, // 30 seconds, other admins work the same queue
+  })
+}
+
+export function useModerationActions(filters?: {
+  reportId?: string
+  targetProfileId?: string
+}) {
+  return useQuery({
+    queryKey: queryKeys.moderationActions.list(filters),
+    queryFn: () => moderationService.getModerationActions(filters),
+    staleTime: 60 * 1000, // 1 minute for the moderation log
+  })
+}
+
+// Reporting mutation, usable from any content component
+export function useReportContent() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: ReportContentData) =>
+      moderationService.reportContent(data),
+    onError: (error) => handleMutationError(error, 'create'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.contentReports.all })
+      uiActions.addNotification({
+        type: 'success',
+        title: 'Report sent',
+        message: 'Thank you, the moderators will review this content.',
+        duration: 3000,
+      })
+    },
+  })
+}
+
+// Moderation mutations
+export function useModerateReport() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      reportId,
+      action,
+      note,
+    }: {
+      reportId: string
+      action: ModerationActionType
+      note?: string
+    }) => moderationService.moderateReport(reportId, action, note),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSettled: (data, _error, { action }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.contentReports.all })
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.moderationActions.all,
+      })
+
+      if (!data) return
+      if (action === 'hide_content') {
+        queryClient.invalidateQueries({
+          queryKey:
+            contentQueryKeys[data.content_type as ReportableContentType],
+        })
+      }
+      if (action === 'suspend_profile') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.profiles.all })
+      }
+    },
+  })
+}
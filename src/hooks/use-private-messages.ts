@@ -1,14 +1,40 @@
 // Private Messages CRUD hooks with mobile-first optimizations
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query'
 import { queryKeys } from '../lib/query-keys'
 import { handleMutationError } from '../lib/crud/error-handling'
+import {
+  offlineMutationKeys,
+  sendPrivateMessage,
+} from '../lib/offline-mutations'
 import { PrivateMessageService } from '../services/private-message.service'
+import { messageAttachmentService } from '../services/message-attachment.service'
+import type { InfiniteData } from '@tanstack/react-query'
 import type { Row } from '../lib/database-types'
+import type {
+  ConversationCursor,
+  ConversationPage,
+  ConversationPresence,
+  PrivateMessageWithRelations,
+} from '../services/private-message.service'
 
 type PrivateMessage = Row<'private_messages'>
+type ConversationsInfiniteData = InfiniteData<
+  ConversationPage,
+  ConversationCursor | null
+>
 
 const privateMessageService = new PrivateMessageService()
 
+// Typing indicator timings
+const TYPING_THROTTLE = 2000 // Min delay between two "typing" broadcasts
+const TYPING_TIMEOUT = 5000 // Clears the indicator if "stopped" never arrives
+
 // Create base CRUD hooks for private_messages using PrivateMessageService
 export const usePrivateMessageList = (filters?: any) => {
   return useQuery({
@@ -69,16 +95,28 @@ export const usePrivateMessageDelete = () => {
 }
 
 // Private Messages queries with mobile-first optimizations
+// Conversation summaries paginated by last activity
 export function usePrivateMessageConversations(
   userId: string,
   options?: {
-    limit?: number
-    offset?: number
+    pageSize?: number
+    includeHidden?: boolean
   },
 ) {
-  return useQuery({
-    queryKey: queryKeys.privateMessages.conversations(userId),
-    queryFn: () => privateMessageService.getConversations(userId, options),
+  const includeHidden = options?.includeHidden ?? false
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.privateMessages.conversationList(userId, {
+      includeHidden,
+    }),
+    queryFn: ({ pageParam }) =>
+      privateMessageService.getConversations(userId, {
+        limit: options?.pageSize,
+        cursor: pageParam,
+        includeHidden,
+      }),
+    initialPageParam: null as ConversationCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!userId,
     staleTime: 30 * 1000, // 30 seconds for conversations
   })
@@ -182,18 +220,13 @@ export function usePrivateMessageSearch(
 }
 
 // Specialized mutations for private messages
+// Queued while offline and replayed in order when connectivity returns
 export function useSendPrivateMessage(currentUserId: string) {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (messageData: {
-      receiver_id: string
-      message: string
-      message_type?: 'text' | 'image' | 'file' | 'location'
-      attachment_url?: string
-      attachment_type?: string
-      reply_to?: string
-    }) => privateMessageService.sendMessage(messageData),
+    mutationKey: offlineMutationKeys.sendPrivateMessage,
+    mutationFn: sendPrivateMessage,
     onMutate: async (newMessage) => {
       // Cancel outgoing refetches
       await queryClient.cancelQueries({
@@ -437,3 +470,240 @@ export function useDeleteConversation(currentUserId: string) {
     },
   })
 }
+
+export function useHideConversation(currentUserId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      otherUserId,
+      lastMessageId,
+    }: {
+      otherUserId: string
+      lastMessageId?: string
+    }) =>
+      privateMessageService.hideConversation(
+        otherUserId,
+        currentUserId,
+        lastMessageId,
+      ),
+    onMutate: async ({ otherUserId }) => {
+      const queryKey = queryKeys.privateMessages.conversationList(
+        currentUserId,
+        { includeHidden: false },
+      )
+
+      // Cancel outgoing refetches
+      await queryClient.cancelQueries({ queryKey })
+
+      // Snapshot previous state
+      const previousData =
+        queryClient.getQueryData<ConversationsInfiniteData>(queryKey)
+
+      // Optimistically remove the conversation from the visible list
+      queryClient.setQueryData<ConversationsInfiniteData>(queryKey, (old) =>
+        old
+          ? {
+              ...old,
+              pages: old.pages.map((page) => ({
+                ...page,
+                conversations: page.conversations.filter(
+                  (conversation) => conversation.other_user.id !== otherUserId,
+                ),
+              })),
+            }
+          : old,
+      )
+
+      return { previousData, queryKey }
+    },
+    onError: (error, _variables, context) => {
+      // Rollback on error
+      if (context?.previousData) {
+        queryClient.setQueryData(context.queryKey, context.previousData)
+      }
+      handleMutationError(error, 'delete')
+    },
+    onSettled: () => {
+      // Always refetch after error or success
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.privateMessages.conversations(currentUserId),
+      })
+    },
+  })
+}
+
+// Upload a photo or document, then send it as a message
+// Attachments need connectivity, they are not part of the offline queue
+export function useSendPrivateMessageAttachment(currentUserId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      receiver_id,
+      file,
+      caption,
+      reply_to,
+    }: {
+      receiver_id: string
+      file: File
+      caption?: string
+      reply_to?: string
+    }) => {
+      const attachment = await messageAttachmentService.uploadAttachment(
+        file,
+        currentUserId,
+      )
+
+      try {
+        return await privateMessageService.sendMessage({
+          receiver_id,
+          message: caption?.trim() || attachment.fileName,
+          message_type: attachment.messageType,
+          attachment_url: attachment.path,
+          attachment_type: attachment.attachmentType,
+          reply_to,
+        })
+      } catch (error) {
+        // Don't leave an orphan file behind
+        await messageAttachmentService
+          .removeAttachment(attachment.path)
+          .catch(() => undefined)
+        throw error
+      }
+    },
+    onError: (error) => handleMutationError(error, 'create'),
+    onSettled: (_data, _error, variables) => {
+      // Always refetch after error or success
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.privateMessages.conversation(
+          currentUserId,
+          variables.receiver_id,
+        ),
+      })
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.privateMessages.conversations(currentUserId),
+      })
+    },
+  })
+}
+
+export function useMessageAttachmentUrls(
+  path: string | null | undefined,
+  messageType: string | null,
+) {
+  return useQuery({
+    queryKey: queryKeys.privateMessages.attachment(path || ''),
+    queryFn: () =>
+      messageAttachmentService.getAttachmentUrls(path!, messageType),
+    enabled: !!path,
+    staleTime: 50 * 60 * 1000, // 50 minutes, signed URLs expire after 1 hour
+    gcTime: 50 * 60 * 1000,
+  })
+}
+
+// Realtime: live delivery and read receipts merged into the conversation caches
+export function usePrivateMessagesRealtime(currentUserId: string) {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!currentUserId) return
+
+    return privateMessageService.subscribeToUserMessages(currentUserId, {
+      onMessage: (message) => {
+        // Append to the open conversation, if it is cached
+        queryClient.setQueryData<Array<PrivateMessageWithRelations>>(
+          queryKeys.privateMessages.conversation(
+            currentUserId,
+            message.sender_id,
+          ),
+          (old) =>
+            old && !old.some((m) => m.id === message.id)
+              ? [...old, message]
+              : old,
+        )
+
+        // Summaries and counters are computed server side
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.privateMessages.conversations(currentUserId),
+        })
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.privateMessages.unreadCount(currentUserId),
+        })
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.privateMessages.unread(currentUserId),
+        })
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.privateMessages.received(currentUserId),
+        })
+      },
+      onRead: (message) => {
+        queryClient.setQueryData<Array<PrivateMessage>>(
+          queryKeys.privateMessages.conversation(
+            currentUserId,
+            message.receiver_id,
+          ),
+          (old) =>
+            old?.map((m) =>
+              m.id === message.id ? { ...m, read_at: message.read_at } : m,
+            ),
+        )
+      },
+    })
+  }, [currentUserId, queryClient])
+}
+
+// Realtime: typing indicator and online state of the other participant
+export function useConversationPresence(
+  currentUserId: string,
+  otherUserId: string,
+) {
+  const [isPeerTyping, setIsPeerTyping] = useState(false)
+  const [isPeerOnline, setIsPeerOnline] = useState(false)
+  const presenceRef = useRef<ConversationPresence | null>(null)
+  const lastTypingSentRef = useRef(0)
+
+  useEffect(() => {
+    if (!currentUserId || !otherUserId) return
+
+    let typingTimeout: ReturnType<typeof setTimeout> | undefined
+
+    const presence = privateMessageService.subscribeToConversationPresence(
+      currentUserId,
+      otherUserId,
+      {
+        onTyping: (isTyping) => {
+          clearTimeout(typingTimeout)
+          setIsPeerTyping(isTyping)
+          if (isTyping) {
+            typingTimeout = setTimeout(
+              () => setIsPeerTyping(false),
+              TYPING_TIMEOUT,
+            )
+          }
+        },
+        onPresence: setIsPeerOnline,
+      },
+    )
+    presenceRef.current = presence
+
+    return () => {
+      clearTimeout(typingTimeout)
+      presence.unsubscribe()
+      presenceRef.current = null
+      setIsPeerTyping(false)
+      setIsPeerOnline(false)
+    }
+  }, [currentUserId, otherUserId])
+
+  // Call with true on each keystroke, false on send or blur
+  const setTyping = useCallback((isTyping: boolean) => {
+    const now = Date.now()
+    if (isTyping && now - lastTypingSentRef.current < TYPING_THROTTLE) return
+
+    lastTypingSentRef.current = isTyping ? now : 0
+    presenceRef.current?.sendTyping(isTyping)
+  }, [])
+
+  return { isPeerTyping, isPeerOnline, setTyping }
+}
@@ -0,0 +1,83 @@
+// Block and mute hooks
+//
+// IMPORTANT: Private messages and chat are filtered by RLS, so a block or mute
+// only shows up after the message caches are refetched. Every mutation below
+// invalidates them together with the profile search results.
+//
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { uiActions } from '../lib/store'
+import { queryKeys } from '../lib/query-keys'
+import { handleMutationError } from '../lib/crud/error-handling'
+import { profileBlockService } from '../services/profile-block.service'
+import type { QueryClient } from '@tanstack/react-query'
+import type { ProfileBlockKind } from '../services/profile-block.service'
+
+function invalidateBlockedContent(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.profileBlocks.all })
+  queryClient.invalidateQueries({ queryKey: queryKeys.privateMessages.all })
+  queryClient.invalidateQueries({ queryKey: queryKeys.chat.all })
+  queryClient.invalidateQueries({ queryKey: queryKeys.profiles.searches() })
+}
+
+// Profile block queries
+export function useProfileBlocks(blockerId?: string) {
+  return useQuery({
+    queryKey: queryKeys.profileBlocks.byProfile(blockerId || ''),
+    queryFn: () => profileBlockService.getBlocks(blockerId!),
+    enabled: !!blockerId,
+    staleTime: 5 * 60 * 1000, // 5 minutes, only changed by the user
+  })
+}
+
+export function useProfileBlockIds(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.profileBlocks.ids(),
+    queryFn: () => profileBlockService.getBlockIds(),
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes, only changed by the user
+  })
+}
+
+// Profile block mutations
+export function useBlockProfile() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      blockedId,
+      kind,
+    }: {
+      blockedId: string
+      kind: ProfileBlockKind
+    }) => profileBlockService.blockProfile(blockedId, kind),
+    onError: (error) => handleMutationError(error, 'create'),
+    onSuccess: (_data, { kind }) => {
+      uiActions.addNotification({
+        type: 'success',
+        title: kind === 'mute' ? 'Resident muted' : 'Resident blocked',
+        message:
+          kind === 'mute'
+            ? 'Their messages are hidden until you unmute them.'
+            : 'You will no longer exchange messages with this resident.',
+        duration: 3000,
+      })
+    },
+    onSettled: () => invalidateBlockedContent(queryClient),
+  })
+}
+
+export function useUnblockProfile() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      blockerId,
+      blockedId,
+    }: {
+      blockerId: string
+      blockedId: string
+    }) => profileBlockService.unblockProfile(blockerId, blockedId),
+    onError: (error) => handleMutationError(error, 'delete'),
+    onSettled: () => invalidateBlockedContent(queryClient),
+  })
+}
@@ -5,7 +5,14 @@ import { authActions, authStore } from '../lib/store'
 import { useAuth } from '../contexts/AuthContext'
 import { queryKeys } from '../lib/query-keys'
 import { handleMutationError } from '../lib/crud/error-handling'
+import {
+  getCachedUpdatedAt,
+  offlineMutationKeys,
+  setCachedRow,
+  updateProfile,
+} from '../lib/offline-mutations'
 import { profileService } from '../services/profile.service'
+import type { UpdateProfileVariables } from '../lib/offline-mutations'
 import type { Row, UpdateRow } from '../lib/database-types'
 
 type Profile = Row<'profiles'>
@@ -143,23 +150,48 @@ export function useProfilesList(filters?: {
   })
 }
 
+// Resident search, residents blocked in either direction are left out
+export function useProfileSearch(query: string, limit = 10) {
+  return useQuery({
+    queryKey: queryKeys.profiles.search(query),
+    queryFn: () => profileService.searchProfiles(query, limit),
+    enabled: query.length >= 2,
+    staleTime: 2 * 60 * 1000, // 2 minutes for search results
+  })
+}
+
 // Profile mutations with optimistic updates - now using service layer
 // Note: Profile creation is automatically handled by the database trigger `handle_new_user()`
 // which creates a profile with 10 coins when a new user signs up via Supabase Auth.
 // Manual profile creation is not needed and could cause duplicates.
 // If admin profile creation is needed, create a separate admin-specific function.
 
+// Queued while offline. Edits carry the cached profile's updated_at, so
+// an edit replayed over a newer version is reported as a conflict
 export function useUpdateProfile() {
   const queryClient = useQueryClient()
 
-  return useMutation({
-    mutationFn: async ({
-      id,
-      ...updateData
-    }: ProfileUpdate & { id: string }) => {
-      return await profileService.updateProfile(id, updateData)
-    },
-    onMutate: async (variables: ProfileUpdate & { id: string }) => {
+  const withExpectedUpdatedAt = (
+    variables: UpdateProfileVariables,
+  ): UpdateProfileVariables =>
+    variables.expectedUpdatedAt !== undefined
+      ? variables
+      : {
+          ...variables,
+          expectedUpdatedAt: getCachedUpdatedAt(
+            queryClient,
+            {
+              detail: queryKeys.profiles.detail(variables.id),
+              lists: queryKeys.profiles.lists(),
+            },
+            variables.id,
+          ),
+        }
+
+  const mutation = useMutation({
+    mutationKey: offlineMutationKeys.updateProfile,
+    mutationFn: updateProfile,
+    onMutate: async ({ expectedUpdatedAt: _, ...variables }) => {
       // Cancel outgoing refetches
       await queryClient.cancelQueries({ queryKey: queryKeys.profiles.lists() })
 
@@ -173,9 +205,7 @@ export function useUpdateProfile() {
         queryKeys.profiles.lists(),
         (old = []) =>
           old.map((item) =>
-            item.id === variables.id
-              ? { ...item, ...variables, updated_at: new Date().toISOString() }
-              : item,
+            item.id === variables.id ? { ...item, ...variables } : item,
           ),
       )
 
@@ -196,8 +226,15 @@ export function useUpdateProfile() {
       queryClient.invalidateQueries({ queryKey: queryKeys.profiles.lists() })
     },
     onSuccess: (data) => {
-      // Update the detail cache
-      queryClient.setQueryData(queryKeys.profiles.detail(data.id), data)
+      // Update the detail and list caches with the server's updated_at
+      setCachedRow(
+        queryClient,
+        {
+          detail: queryKeys.profiles.detail(data.id),
+          lists: queryKeys.profiles.lists(),
+        },
+        data,
+      )
 
       // If updating current user, update auth store
       // Note: This will be removed in Task 6 when authStore is fully deprecated
@@ -217,6 +254,18 @@ export function useUpdateProfile() {
       }
     },
   })
+
+  return {
+    ...mutation,
+    mutate: (
+      variables: UpdateProfileVariables,
+      options?: Parameters<typeof mutation.mutate>[1],
+    ) => mutation.mutate(withExpectedUpdatedAt(variables), options),
+    mutateAsync: (
+      variables: UpdateProfileVariables,
+      options?: Parameters<typeof mutation.mutateAsync>[1],
+    ) => mutation.mutateAsync(withExpectedUpdatedAt(variables), options),
+  }
 }
 
 export function useUpdateProfileCoins() {
@@ -247,11 +296,7 @@ export function useUpdateProfileCoins() {
       queryClient.setQueryData<Array<Profile>>(
         queryKeys.profiles.lists(),
         (old = []) =>
-          old.map((item) =>
-            item.id === id
-              ? { ...item, coins, updated_at: new Date().toISOString() }
-              : item,
-          ),
+          old.map((item) => (item.id === id ? { ...item, coins } : item)),
       )
 
       return { previousData }
@@ -266,13 +311,23 @@ export function useUpdateProfileCoins() {
       }
       handleMutationError(error, 'update')
     },
-    onSettled: () => {
+    onSettled: (_data, _error, { id }) => {
       // Always refetch after error or success
       queryClient.invalidateQueries({ queryKey: queryKeys.profiles.lists() })
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.coinLedger.profile(id),
+      })
     },
     onSuccess: (data) => {
-      // Update the detail cache
-      queryClient.setQueryData(queryKeys.profiles.detail(data.id), data)
+      // Update the detail and list caches with the server's updated_at
+      setCachedRow(
+        queryClient,
+        {
+          detail: queryKeys.profiles.detail(data.id),
+          lists: queryKeys.profiles.lists(),
+        },
+        data,
+      )
 
       // Update coins in auth store if current user
       // Note: This will be removed in Task 6 when authStore is fully deprecated
@@ -309,7 +364,6 @@ export function useCompleteOnboarding() {
               ? {
                   ...item,
                   onboarding_completed: true,
-                  updated_at: new Date().toISOString(),
                 }
               : item,
           ),
@@ -332,8 +386,15 @@ export function useCompleteOnboarding() {
       queryClient.invalidateQueries({ queryKey: queryKeys.profiles.lists() })
     },
     onSuccess: (data) => {
-      // Update the detail cache
-      queryClient.setQueryData(queryKeys.profiles.detail(data.id), data)
+      // Update the detail and list caches with the server's updated_at
+      setCachedRow(
+        queryClient,
+        {
+          detail: queryKeys.profiles.detail(data.id),
+          lists: queryKeys.profiles.lists(),
+        },
+        data,
+      )
 
       // Update onboarding in auth store if current user
       // Note: This will be removed in Task 6 when authStore is fully deprecated
@@ -425,7 +486,6 @@ export function useDailyCheckin() {
               ? {
                   ...item,
                   last_daily_checkin: new Date().toISOString(),
-                  updated_at: new Date().toISOString(),
                 }
               : item,
           ),
@@ -443,9 +503,12 @@ export function useDailyCheckin() {
       }
       handleMutationError(error, 'update')
     },
-    onSettled: () => {
+    onSettled: (_data, _error, id) => {
       // Always refetch after error or success
       queryClient.invalidateQueries({ queryKey: queryKeys.profiles.lists() })
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.coinLedger.profile(id),
+      })
     },
     onSuccess: (data: any, variables) => {
       // Update profile in cache with new coins and checkin time
@@ -508,9 +571,7 @@ export function useAdminUpdateProfile() {
         queryKeys.profiles.lists(),
         (old = []) =>
           old.map((item) =>
-            item.id === variables.id
-              ? { ...item, ...variables, updated_at: new Date().toISOString() }
-              : item,
+            item.id === variables.id ? { ...item, ...variables } : item,
           ),
       )
 
@@ -531,8 +592,15 @@ export function useAdminUpdateProfile() {
       queryClient.invalidateQueries({ queryKey: queryKeys.profiles.lists() })
     },
     onSuccess: (data) => {
-      // Update the detail cache
-      queryClient.setQueryData(queryKeys.profiles.detail(data.id), data)
+      // Update the detail and list caches with the server's updated_at
+      setCachedRow(
+        queryClient,
+        {
+          detail: queryKeys.profiles.detail(data.id),
+          lists: queryKeys.profiles.lists(),
+        },
+        data,
+      )
     },
   })
 }
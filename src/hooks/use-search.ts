@@ -0,0 +1,20 @@
+// Global search hooks
+//
+// IMPORTANT: Results come ranked from the search_content RPC, do not re-sort
+// them client side. Queries shorter than MIN_SEARCH_LENGTH are not sent.
+//
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from '../lib/query-keys'
+import { MIN_SEARCH_LENGTH, searchService } from '../services/search.service'
+import type { SearchOptions } from '../services/search.service'
+
+export function useGlobalSearch(query: string, options?: SearchOptions) {
+  const term = query.trim()
+
+  return useQuery({
+    queryKey: queryKeys.search.results(term, options?.types),
+    queryFn: () => searchService.search(term, options),
+    enabled: term.length >= MIN_SEARCH_LENGTH,
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
@@ -1,8 +1,12 @@
 // Service Categories CRUD hooks with mobile-first optimizations
-import { useQuery } from '@tanstack/react-query'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { queryKeys } from '../lib/query-keys'
-
+import { handleMutationError } from '../lib/crud/error-handling'
 import { serviceCategoryService } from '../services/service-category.service'
+import type { InsertRow, UpdateRow } from '../lib/database-types'
+
+type ServiceCategoryInsert = InsertRow<'service_categories'>
+type ServiceCategoryUpdate = UpdateRow<'service_categories'>
 
 // Service categories hooks refactored to use service layer
 
@@ -56,5 +60,83 @@ export function useSearchServiceCategories(searchQuery: string) {
   })
 }
 
-// Note: Admin operations (update, delete, bulk operations) are handled directly in Supabase
-// Users can only read and create categories
+// Admin-only hooks, users can only read categories
+// Lists active and inactive categories
+export function useAllServiceCategories() {
+  return useQuery({
+    queryKey: queryKeys.serviceCategories.list(),
+    queryFn: () => serviceCategoryService.getServiceCategoriesList(),
+    staleTime: 60 * 1000, // 1 minute, admins edit these lists
+  })
+}
+
+export function useCreateServiceCategory() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (category: ServiceCategoryInsert) =>
+      serviceCategoryService.createServiceCategory(category),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.serviceCategories.all,
+      })
+    },
+    onError: (error) => handleMutationError(error, 'create'),
+  })
+}
+
+export function useUpdateServiceCategory() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, ...updates }: ServiceCategoryUpdate & { id: string }) =>
+      serviceCategoryService.updateServiceCategory(id, updates),
+    onSuccess: (data) => {
+      queryClient.setQueryData(
+        queryKeys.serviceCategories.detail(data.id),
+        data,
+      )
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.serviceCategories.all,
+      })
+    },
+    onError: (error) => handleMutationError(error, 'update'),
+  })
+}
+
+export function useDeleteServiceCategory() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) =>
+      serviceCategoryService.deleteServiceCategory(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.serviceCategories.all,
+      })
+    },
+    onError: (error) => handleMutationError(error, 'delete'),
+  })
+}
+
+export function useBulkToggleServiceCategoriesStatus() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      ids,
+      isActive,
+    }: {
+      ids: Array<string>
+      isActive: boolean
+    }) =>
+      serviceCategoryService.bulkToggleServiceCategoriesStatus(ids, isActive),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSettled: () => {
+      // Some categories may have been updated before a failure
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.serviceCategories.all,
+      })
+    },
+  })
+}
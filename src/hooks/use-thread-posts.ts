@@ -0,0 +1,210 @@
+// Thread posts (replies) hooks: paginated replies, quoting, editing and soft deletion
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+} from '@tanstack/react-query'
+import { queryKeys } from '../lib/query-keys'
+import { handleMutationError } from '../lib/crud/error-handling'
+import { waitForUndo } from '../lib/crud/mutation-helpers'
+import { threadPostService } from '../services/thread-post.service'
+import type { InfiniteData } from '@tanstack/react-query'
+import type {
+  CreateThreadPostData,
+  ThreadPostCursor,
+  ThreadPostPage,
+  ThreadPostWithRelations,
+} from '../services/thread-post.service'
+
+type ThreadPostsInfiniteData = InfiniteData<
+  ThreadPostPage,
+  ThreadPostCursor | null
+>
+
+/**
+ * Apply an update to a post wherever it appears in the loaded pages,
+ * including replies quoting it
+ */
+function updatePostInPages(
+  data: ThreadPostsInfiniteData | undefined,
+  postId: string,
+  update: (
+    post: Pick<ThreadPostWithRelations, 'content' | 'deleted_at'>,
+  ) => Partial<ThreadPostWithRelations>,
+): ThreadPostsInfiniteData | undefined {
+  if (!data) return data
+
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({
+      ...page,
+      posts: page.posts.map((post) => {
+        if (post.id === postId) {
+          return { ...post, ...update(post) }
+        }
+        if (post.quoted_post?.id === postId) {
+          const { content, deleted_at } = update(post.quoted_post)
+          return {
+            ...post,
+            quoted_post: {
+              ...post.quoted_post,
+              content: content ?? post.quoted_post.content,
+              deleted_at:
+                deleted_at !== undefined
+                  ? deleted_at
+                  : post.quoted_post.deleted_at,
+            },
+          }
+        }
+        return post
+      }),
+    })),
+  }
+}
+
+// Thread posts queries
+export function useThreadPosts(
+  threadId: string,
+  options?: {
+    pageSize?: number
+  },
+) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.threadPosts.byThread(threadId),
+    queryFn: ({ pageParam }) =>
+      threadPostService.getPostsByThread(threadId, {
+        cursor: pageParam,
+        limit: options?.pageSize,
+      }),
+    initialPageParam: null as ThreadPostCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!threadId,
+    staleTime: 60 * 1000, // 1 minute for thread replies
+  })
+}
+
+// Thread posts mutations
+export function useCreateThreadPost(threadId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (postData: Omit<CreateThreadPostData, 'thread_id'>) =>
+      threadPostService.createPost({ ...postData, thread_id: threadId }),
+    onSuccess: (post) => {
+      // Append the reply when the last page is loaded, otherwise it shows up
+      // once the user reaches the end of the thread
+      queryClient.setQueryData<ThreadPostsInfiniteData>(
+        queryKeys.threadPosts.byThread(threadId),
+        (old) => {
+          if (!old || old.pages.length === 0) return old
+          const lastIndex = old.pages.length - 1
+          if (old.pages[lastIndex].nextCursor) return old
+
+          return {
+            ...old,
+            pages: old.pages.map((page, index) =>
+              index === lastIndex
+                ? { ...page, posts: [...page.posts, post] }
+                : page,
+            ),
+          }
+        },
+      )
+    },
+    onError: (error) => handleMutationError(error, 'create'),
+    onSettled: () => {
+      // reply_count and last_activity_at changed
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.threads.detail(threadId),
+      })
+      queryClient.invalidateQueries({ queryKey: queryKeys.threads.all })
+    },
+  })
+}
+
+export function useEditThreadPost(threadId: string) {
+  const queryClient = useQueryClient()
+  const queryKey = queryKeys.threadPosts.byThread(threadId)
+
+  return useMutation({
+    mutationFn: ({ id, content }: { id: string; content: string }) =>
+      threadPostService.editPost(id, content),
+    onMutate: async ({ id, content }) => {
+      // Cancel outgoing refetches
+      await queryClient.cancelQueries({ queryKey })
+
+      // Snapshot previous state
+      const previousPosts =
+        queryClient.getQueryData<ThreadPostsInfiniteData>(queryKey)
+
+      // Optimistically update the post and its quotes
+      queryClient.setQueryData<ThreadPostsInfiniteData>(queryKey, (old) =>
+        updatePostInPages(old, id, () => ({
+          content,
+          is_edited: true,
+        })),
+      )
+
+      return { previousPosts }
+    },
+    onError: (error, _variables, context) => {
+      // Rollback on error
+      if (context?.previousPosts) {
+        queryClient.setQueryData(queryKey, context.previousPosts)
+      }
+      handleMutationError(error, 'update')
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey })
+    },
+  })
+}
+
+export function useDeleteThreadPost(threadId: string) {
+  const queryClient = useQueryClient()
+  const queryKey = queryKeys.threadPosts.byThread(threadId)
+
+  return useMutation({
+    // Resolves to false when the deletion was undone
+    mutationFn: async (id: string) => {
+      if (!(await waitForUndo('Reply deleted'))) return false
+      await threadPostService.deletePost(id)
+      return true
+    },
+    onMutate: async (id) => {
+      // Cancel outgoing refetches
+      await queryClient.cancelQueries({ queryKey })
+
+      // Snapshot previous state
+      const previousPosts =
+        queryClient.getQueryData<ThreadPostsInfiniteData>(queryKey)
+
+      // Optimistically hide the post, it stays in place as a placeholder
+      queryClient.setQueryData<ThreadPostsInfiniteData>(queryKey, (old) =>
+        updatePostInPages(old, id, () => ({
+          content: '',
+          deleted_at: new Date().toISOString(),
+        })),
+      )
+
+      return { previousPosts }
+    },
+    onError: (error, _variables, context) => {
+      // Rollback on error
+      if (context?.previousPosts) {
+        queryClient.setQueryData(queryKey, context.previousPosts)
+      }
+      handleMutationError(error, 'delete')
+    },
+    onSuccess: (deleted, _variables, context) => {
+      // Put the post back right away when the deletion was undone
+      if (!deleted && context.previousPosts) {
+        queryClient.setQueryData(queryKey, context.previousPosts)
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey })
+      queryClient.invalidateQueries({ queryKey: queryKeys.threads.all })
+    },
+  })
+}
@@ -129,6 +129,8 @@ export function useCreateThread() {
         ...newData,
         id: `temp-${Date.now()}`,
         created_at: new Date().toISOString(),
+        reply_count: 0,
+        last_activity_at: new Date().toISOString(),
       } as Thread
 
       queryClient.setQueryData<Array<Thread>>(
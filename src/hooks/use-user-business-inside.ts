@@ -1,9 +1,10 @@
 // User Business Inside CRUD hooks with mobile-first optimizations
-import { useQuery } from '@tanstack/react-query'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { useAuth } from '../contexts/AuthContext'
 import { queryKeys } from '../lib/query-keys'
-
+import { handleMutationError } from '../lib/crud/error-handling'
 import { businessService } from '../services/business.service'
+import type { PhotoSlots } from '../lib/media/photo-slots'
 
 // User business inside hooks refactored to use service layer
 
@@ -110,4 +111,24 @@ export function useBusinessInsideLocationAssignmentInfo(businessId: string) {
   })
 }
 
+/**
+ * Hook to save the photo slots of a business inside
+ * Replaced or removed uploads are deleted from storage by the service
+ */
+export function useUpdateUserBusinessInsidePhotos() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, slots }: { id: string; slots: PhotoSlots }) =>
+      businessService.updateUserBusinessInsidePhotos(id, slots),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.businessInside.detail(data.id), data)
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.businessInside.all })
+    },
+  })
+}
+
 // Bulk operations for admin functionality
@@ -1,9 +1,10 @@
 // User Business Outside CRUD hooks with mobile-first optimizations
-import { useQuery } from '@tanstack/react-query'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { useAuth } from '../contexts/AuthContext'
 import { queryKeys } from '../lib/query-keys'
-
+import { handleMutationError } from '../lib/crud/error-handling'
 import { businessService } from '../services/business.service'
+import type { PhotoSlots } from '../lib/media/photo-slots'
 
 // User business outside hooks refactored to use service layer
 
@@ -86,3 +87,23 @@ export function useFeaturedUserBusinessOutside(limit = 10) {
 }
 
 // Specialized mutations that extend the basic CRUD hooks
+
+/**
+ * Hook to save the photo slots of a business outside
+ * Replaced or removed uploads are deleted from storage by the service
+ */
+export function useUpdateUserBusinessOutsidePhotos() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, slots }: { id: string; slots: PhotoSlots }) =>
+      businessService.updateUserBusinessOutsidePhotos(id, slots),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.businessOutside.detail(data.id), data)
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.businessOutside.all })
+    },
+  })
+}
@@ -0,0 +1,61 @@
+// User notification hooks: moderation warnings and other persistent notices
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/query-keys'
+import { handleMutationError } from '../lib/crud/error-handling'
+import { userNotificationService } from '../services/user-notification.service'
+
+// User notification queries
+export function useUserNotifications(
+  profileId?: string,
+  options?: { unreadOnly?: boolean; limit?: number },
+) {
+  return useQuery({
+    queryKey: queryKeys.userNotifications.byProfile(
+      profileId || '',
+      options?.unreadOnly,
+    ),
+    queryFn: () =>
+      userNotificationService.getNotifications(profileId!, options),
+    enabled: !!profileId,
+    staleTime: 60 * 1000, // 1 minute for notifications
+  })
+}
+
+export function useUnreadNotificationCount(profileId?: string) {
+  return useQuery({
+    queryKey: queryKeys.userNotifications.unreadCount(profileId || ''),
+    queryFn: () => userNotificationService.getUnreadCount(profileId!),
+    enabled: !!profileId,
+    staleTime: 60 * 1000, // 1 minute for the unread badge
+  })
+}
+
+// User notification mutations
+export function useMarkNotificationsAsRead() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (ids: Array<string>) => userNotificationService.markAsRead(ids),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.userNotifications.all,
+      })
+    },
+  })
+}
+
+export function useMarkAllNotificationsAsRead() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (profileId: string) =>
+      userNotificationService.markAllAsRead(profileId),
+    onError: (error) => handleMutationError(error, 'update'),
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.userNotifications.all,
+      })
+    },
+  })
+}
@@ -6,6 +6,13 @@ import { useAuth } from '../contexts/AuthContext'
 import { queryKeys } from '../lib/query-keys'
 
 import { handleMutationError } from '../lib/crud/error-handling'
+import {
+  getPhotoSlots,
+  getRemovedPhotos,
+  toPhotoColumns,
+} from '../lib/media/photo-slots'
+import { mediaService } from '../services/media.service'
+import type { PhotoSlots } from '../lib/media/photo-slots'
 import type { Row, UpdateRow } from '../lib/database-types'
 
 // Type alias for user_services table
@@ -221,35 +228,46 @@ export function useDeactivateUserService() {
 
 /**
  * Hook to update service photos
+ * Slots are packed from photo_1_url, replaced or removed uploads are
+ * deleted from the service-photos bucket once saved
  */
 export function useUpdateServicePhotos() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: async ({
-      id,
-      photos,
-    }: {
-      id: string
-      photos: {
-        photo_1_url?: string | null
-        photo_2_url?: string | null
-        photo_3_url?: string | null
-        photo_4_url?: string | null
-        photo_5_url?: string | null
-      }
-    }) => {
+    mutationFn: async ({ id, slots }: { id: string; slots: PhotoSlots }) => {
+      const { data: current, error: currentError } = await supabase
+        .from('user_services')
+        .select(
+          'photo_1_url, photo_2_url, photo_3_url, photo_4_url, photo_5_url',
+        )
+        .eq('id', id)
+        .single()
+
+      if (currentError) throw currentError
+
       const { data, error } = await supabase
         .from('user_services')
-        .update(photos)
+        .update(toPhotoColumns(slots))
         .eq('id', id)
         .select()
         .single()
 
       if (error) throw error
+
+      try {
+        await mediaService.removePhotos(
+          'user_services',
+          getRemovedPhotos(getPhotoSlots(current), slots),
+        )
+      } catch (removeError) {
+        // The service is saved, leftover files are only wasted storage
+        console.error('Error removing replaced service photos:', removeError)
+      }
+
       return data as UserService
     },
-    onMutate: async ({ id, photos }) => {
+    onMutate: async ({ id, slots }) => {
       await queryClient.cancelQueries({ queryKey: queryKeys.services.lists() })
 
       const previousData = queryClient.getQueryData<Array<UserService>>(
@@ -261,7 +279,9 @@ export function useUpdateServicePhotos() {
         queryKeys.services.lists(),
         (old = []) =>
           old.map((service) =>
-            service.id === id ? { ...service, ...photos } : service,
+            service.id === id
+              ? { ...service, ...toPhotoColumns(slots) }
+              : service,
           ),
       )
 
@@ -277,7 +297,68 @@ export function useUpdateServicePhotos() {
       handleMutationError(error, 'update')
     },
     onSettled: () => {
-      queryClient.invalidateQueries({ queryKey: queryKeys.services.lists() })
+      queryClient.invalidateQueries({ queryKey: queryKeys.services.all })
+    },
+  })
+}
+
+/**
+ * Hook to delete a service and its uploaded photos
+ */
+export function useDeleteUserService() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase
+        .from('user_services')
+        .delete()
+        .eq('id', id)
+        .select('profile_id')
+        .maybeSingle()
+
+      if (error) throw error
+
+      if (data) {
+        try {
+          await mediaService.removeEntityPhotos(
+            'user_services',
+            data.profile_id,
+            id,
+          )
+        } catch (removeError) {
+          console.error('Error removing service photos:', removeError)
+        }
+      }
+
+      return id
+    },
+    onMutate: async (id: string) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.services.lists() })
+
+      const previousData = queryClient.getQueryData<Array<UserService>>(
+        queryKeys.services.lists(),
+      )
+
+      // Optimistically remove the service
+      queryClient.setQueryData<Array<UserService>>(
+        queryKeys.services.lists(),
+        (old = []) => old.filter((service) => service.id !== id),
+      )
+
+      return { previousData }
+    },
+    onError: (error, _variables, context) => {
+      if (context?.previousData) {
+        queryClient.setQueryData(
+          queryKeys.services.lists(),
+          context.previousData,
+        )
+      }
+      handleMutationError(error, 'delete')
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.services.all })
     },
   })
 }
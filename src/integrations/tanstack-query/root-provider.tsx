@@ -1,9 +1,13 @@
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client'
+import type { QueryClient } from '@tanstack/react-query'
+import { queryClient as sharedQueryClient } from '@/lib/query-client'
+import { persistOptions } from '@/lib/query-persister'
 
 export function getContext() {
-  const queryClient = new QueryClient()
+  // Shared client: keeps the cache across router re-creation on auth changes
+  // and carries the global error subscribers
   return {
-    queryClient,
+    queryClient: sharedQueryClient,
   }
 }
 
@@ -15,6 +19,13 @@ export function Provider({
   queryClient: QueryClient
 }) {
   return (
-    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    <PersistQueryClientProvider
+      client={queryClient}
+      persistOptions={persistOptions}
+      // Replay the offline queue restored from IndexedDB
+      onSuccess={() => queryClient.resumePausedMutations()}
+    >
+      {children}
+    </PersistQueryClientProvider>
   )
 }
@@ -3,6 +3,16 @@
  * Follows TanStack Query official patterns and handles RLS errors
  */
 
+import { uiActions } from '../store'
+import {
+  ConflictError,
+  InsufficientCoinsError,
+  NetworkError,
+  NotFoundError,
+  PermissionDeniedError,
+  ServiceError,
+  ValidationError,
+} from './errors'
 import type { PostgrestError } from '@supabase/supabase-js'
 
 /**
@@ -20,6 +30,8 @@ export interface RLSError extends PostgrestError {
  * RLS errors use PostgreSQL code 42501 for insufficient privilege
  */
 export function isRLSError(error: unknown): error is RLSError {
+  if (error instanceof PermissionDeniedError) return true
+
   return (
     typeof error === 'object' &&
     error !== null &&
@@ -32,6 +44,10 @@ export function isRLSError(error: unknown): error is RLSError {
  * Type guard to detect network errors
  */
 export function isNetworkError(error: unknown): boolean {
+  if (error instanceof NetworkError) return true
+  // Typed service errors carry their kind, don't guess from the message
+  if (error instanceof ServiceError) return false
+
   return (
     error instanceof Error &&
     (error.message.includes('fetch') ||
@@ -66,6 +82,62 @@ export function isClientError(error: unknown): boolean {
   return false
 }
 
+/**
+ * Type guard to detect missing rows
+ */
+export function isNotFoundError(error: unknown): error is NotFoundError {
+  return error instanceof NotFoundError
+}
+
+/**
+ * Type guard to detect unique/foreign key conflicts
+ */
+export function isConflictError(error: unknown): error is ConflictError {
+  return error instanceof ConflictError
+}
+
+/**
+ * Type guard to detect invalid input
+ */
+export function isValidationError(error: unknown): error is ValidationError {
+  return error instanceof ValidationError
+}
+
+/**
+ * Type guard to detect a coin balance too low for the operation
+ */
+export function isInsufficientCoinsError(
+  error: unknown,
+): error is InsufficientCoinsError {
+  return error instanceof InsufficientCoinsError
+}
+
+/**
+ * Options shared by the error handlers
+ */
+export interface ErrorNotificationOptions {
+  // Adds a "Retry" action to the notification
+  onRetry?: () => void
+}
+
+// Errors already surfaced, so the global cache subscribers don't notify twice
+const notifiedErrors = new WeakSet<object>()
+
+function markNotified(error: unknown): void {
+  if (typeof error === 'object' && error !== null) {
+    notifiedErrors.add(error)
+  }
+}
+
+/**
+ * Whether a notification was already shown for this error
+ */
+export function wasErrorNotified(error: unknown): boolean {
+  return (
+    typeof error === 'object' && error !== null && notifiedErrors.has(error)
+  )
+}
+
 /**
  * Handle mutation errors with appropriate user feedback
  * Integrates with UI Store for notifications
@@ -73,6 +145,7 @@ export function isClientError(error: unknown): boolean {
 export function handleMutationError(
   error: unknown,
   operation: 'create' | 'update' | 'delete',
+  options?: ErrorNotificationOptions,
 ): void {
   console.error(`Mutation error (${operation}):`, error)
 
@@ -89,6 +162,18 @@ export function handleMutationError(
 
     title = 'Permission Denied'
     message = `You don't have permission to ${operationText} this resource.`
+  } else if (isInsufficientCoinsError(error)) {
+    title = 'Not Enough Coins'
+    message = "You don't have enough coins for this action."
+  } else if (isConflictError(error)) {
+    title = 'Conflict'
+    message = 'This item already exists or was changed by someone else.'
+  } else if (isNotFoundError(error)) {
+    title = 'Not Found'
+    message = 'This item no longer exists.'
+  } else if (isValidationError(error)) {
+    title = 'Invalid Data'
+    message = error.message
   } else if (isNetworkError(error)) {
     // Network connectivity issues
     title = 'Network Error'
@@ -106,53 +191,71 @@ export function handleMutationError(
   }
 
   // Add error notification to UI Store
-  // Note: This will be used when UI Store is available
-  // uiActions.addNotification({
-  //   type: 'error',
-  //   title,
-  //   message,
-  //   duration: 5000,
-  // })
-
-  // For now, just log the structured error
-  console.warn('Error notification:', { title, message, error })
+  uiActions.addNotification({
+    type: 'error',
+    title,
+    message,
+    duration: 5000,
+    action: options?.onRetry
+      ? { label: 'Retry', onClick: options.onRetry }
+      : undefined,
+  })
+  markNotified(error)
 }
 
 /**
  * Handle query errors with appropriate user feedback
- * Less intrusive than mutation errors since queries retry automatically
+ * Less intrusive than mutation errors since queries retry automatically,
+ * so this only runs once the retries are exhausted
  */
-export function handleQueryError(error: unknown): void {
+export function handleQueryError(
+  error: unknown,
+  options?: ErrorNotificationOptions,
+): void {
   console.error('Query error:', error)
 
+  if (wasErrorNotified(error)) return
+
+  const retryAction = options?.onRetry
+    ? { label: 'Retry', onClick: options.onRetry }
+    : undefined
+
   if (isRLSError(error)) {
     // RLS errors for queries - access denied
-    console.warn('RLS access denied:', error)
-
-    // Add notification for RLS errors
-    // uiActions.addNotification({
-    //   type: 'error',
-    //   title: 'Access Denied',
-    //   message: 'You don\'t have permission to access this data.',
-    //   duration: 5000,
-    // })
+    uiActions.addNotification({
+      type: 'error',
+      title: 'Access Denied',
+      message: "You don't have permission to access this data.",
+      duration: 5000,
+    })
   } else if (isNetworkError(error)) {
-    // Network errors are handled by retry logic, just log
-    console.warn('Network error, retrying:', error)
+    // Retries exhausted while offline or unreachable
+    uiActions.addNotification({
+      type: 'warning',
+      title: 'Connection Problem',
+      message: 'Unable to reach the server.',
+      duration: 5000,
+      action: retryAction,
+    })
   } else if (isClientError(error)) {
     // 4xx errors won't retry, show user feedback
-    console.warn('Client error, no retry:', error)
-
-    // uiActions.addNotification({
-    //   type: 'warning',
-    //   title: 'Data Load Error',
-    //   message: 'Unable to load data. Please refresh the page.',
-    //   duration: 3000,
-    // })
+    uiActions.addNotification({
+      type: 'warning',
+      title: 'Data Load Error',
+      message: getErrorMessage(error),
+      duration: 3000,
+    })
   } else {
-    // Other errors
-    console.warn('Unexpected query error:', error)
+    // Other errors (5xx, unexpected)
+    uiActions.addNotification({
+      type: 'error',
+      title: 'Something went wrong',
+      message: 'Unable to load data.',
+      duration: 5000,
+      action: retryAction,
+    })
   }
+  markNotified(error)
 }
 
 /**
@@ -193,6 +296,18 @@ export function getErrorMessage(error: unknown): string {
     return 'Permission denied. You may not have access to this resource.'
   }
 
+  if (isInsufficientCoinsError(error)) {
+    return "You don't have enough coins for this action."
+  }
+
+  if (isConflictError(error)) {
+    return 'This item already exists or was changed by someone else.'
+  }
+
+  if (isNotFoundError(error)) {
+    return 'This item no longer exists.'
+  }
+
   if (isNetworkError(error)) {
     return 'Network connection error. Please check your internet connection.'
   }
@@ -0,0 +1,161 @@
+/**
+ * Typed error hierarchy for the service layer
+ * Keeps the Postgrest code, details and hint so the UI can react to each kind
+ */
+
+export interface ServiceErrorInfo {
+  context: string
+  code?: string | null
+  details?: string | null
+  hint?: string | null
+  status?: number
+  cause?: unknown
+}
+
+/**
+ * Base class for every error thrown by a service
+ * `message` is the raw message, safe to show to users; `context` names the
+ * service method for logs
+ */
+export class ServiceError extends Error {
+  readonly context: string
+  readonly code: string | null
+  readonly details: string | null
+  readonly hint: string | null
+  readonly status: number | undefined
+
+  constructor(message: string, info: ServiceErrorInfo) {
+    super(message, { cause: info.cause })
+    this.name = new.target.name
+    this.context = info.context
+    this.code = info.code ?? null
+    this.details = info.details ?? null
+    this.hint = info.hint ?? null
+    this.status = info.status ?? this.defaultStatus()
+  }
+
+  protected defaultStatus(): number | undefined {
+    return undefined
+  }
+}
+
+/**
+ * RLS rejection or missing authentication (42501, PGRST301, 401/403)
+ */
+export class PermissionDeniedError extends ServiceError {
+  protected defaultStatus() {
+    return 403
+  }
+}
+
+/**
+ * Row does not exist or is hidden by RLS (PGRST116, P0002 from functions)
+ */
+export class NotFoundError extends ServiceError {
+  protected defaultStatus() {
+    return 404
+  }
+}
+
+/**
+ * Unique, exclusion or foreign key violation (23505, 23P01, 23503)
+ */
+export class ConflictError extends ServiceError {
+  protected defaultStatus() {
+    return 409
+  }
+}
+
+/**
+ * Invalid input rejected by the service or by a database constraint
+ */
+export class ValidationError extends ServiceError {
+  protected defaultStatus() {
+    return 422
+  }
+}
+
+/**
+ * Request never reached Supabase (offline, DNS, CORS, aborted fetch)
+ */
+export class NetworkError extends ServiceError {}
+
+/**
+ * Coin balance too low for the requested operation
+ */
+export class InsufficientCoinsError extends ServiceError {
+  protected defaultStatus() {
+    return 402
+  }
+}
+
+const PERMISSION_CODES = ['42501', 'PGRST301', 'PGRST302']
+const NOT_FOUND_CODES = ['PGRST116', 'P0002']
+const CONFLICT_CODES = ['23505', '23P01', '23503', '40001']
+const VALIDATION_CODES = [
+  '23502',
+  '23514',
+  '22001',
+  '22003',
+  '22007',
+  '22023',
+  '22P02',
+  'PGRST102',
+  'PGRST204',
+]
+
+// fetch rejects with a TypeError whose message names the failure, other
+// TypeErrors are programming errors
+function isNetworkFailure(error: any, message: string): boolean {
+  return (
+    error?.name === 'AbortError' ||
+    /failed to fetch|fetch failed|networkerror|network request failed|load failed/i.test(
+      message,
+    )
+  )
+}
+
+/**
+ * Convert any Supabase/Postgrest/JS error into the matching ServiceError
+ */
+export function toServiceError(error: any, context: string): ServiceError {
+  if (error instanceof ServiceError) return error
+
+  const message: string = error?.message || 'Unknown error occurred'
+  const code: string | null = error?.code || null
+  const status: number | undefined =
+    typeof error?.status === 'number' ? error.status : undefined
+  const info: ServiceErrorInfo = {
+    context,
+    code,
+    details: error?.details ?? null,
+    hint: error?.hint ?? null,
+    status,
+    cause: error,
+  }
+
+  if (/not enough coins|insufficient coins/i.test(message)) {
+    return new InsufficientCoinsError(message, info)
+  }
+  if (
+    (code && PERMISSION_CODES.includes(code)) ||
+    status === 401 ||
+    status === 403
+  ) {
+    return new PermissionDeniedError(message, info)
+  }
+  if ((code && NOT_FOUND_CODES.includes(code)) || status === 404) {
+    return new NotFoundError(message, info)
+  }
+  if ((code && CONFLICT_CODES.includes(code)) || status === 409) {
+    return new ConflictError(message, info)
+  }
+  if (code && VALIDATION_CODES.includes(code)) {
+    return new ValidationError(message, info)
+  }
+  if (isNetworkFailure(error, message)) {
+    return new NetworkError(message, info)
+  }
+
+  return new ServiceError(message, info)
+}
@@ -3,6 +3,7 @@
  * Based on: https://tanstack.com/query/v5/docs/framework/react/guides/optimistic-updates
  */
 
+import { uiActions } from '../store'
 import type { QueryClient } from '@tanstack/react-query'
 
 /**
@@ -182,3 +183,36 @@ export function createOptimisticListRemove<T>(
     },
   }
 }
+
+// How long a deletion can be undone before it is sent to the server
+export const UNDO_WINDOW_MS = 5000
+
+/**
+ * Hold a deletion for the undo window, with an Undo action in the
+ * notification center. Resolves to false when the user undid it.
+ * Use it in mutationFn after the optimistic update, the server is only
+ * called once the window is over (deleted rows can't be restored under RLS)
+ */
+export function waitForUndo(title: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      // Too late to undo, even if the notification is still queued
+      uiActions.removeNotification(notificationId)
+      resolve(true)
+    }, UNDO_WINDOW_MS)
+
+    const notificationId = uiActions.addNotification({
+      type: 'info',
+      title,
+      message: null,
+      duration: UNDO_WINDOW_MS,
+      action: {
+        label: 'Undo',
+        onClick: () => {
+          clearTimeout(timeout)
+          resolve(false)
+        },
+      },
+    })
+  })
+}
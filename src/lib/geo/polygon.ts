@@ -0,0 +1,187 @@
+// GeoJSON polygons for lot boundaries and block outlines
+// Positions follow GeoJSON order: [lng, lat]
+
+export type GeoJsonPosition = [number, number]
+
+// First ring is the outline, the following ones are holes
+export interface GeoJsonPolygon {
+  type: 'Polygon'
+  coordinates: Array<Array<GeoJsonPosition>>
+}
+
+export interface GeoJsonMultiPolygon {
+  type: 'MultiPolygon'
+  coordinates: Array<Array<Array<GeoJsonPosition>>>
+}
+
+export type GeoJsonArea = GeoJsonPolygon | GeoJsonMultiPolygon
+
+// WGS84 equatorial radius, as used by PostGIS geography areas
+const EARTH_RADIUS_M = 6378137
+
+function polygonsOf(area: GeoJsonArea): Array<Array<Array<GeoJsonPosition>>> {
+  return area.type === 'Polygon' ? [area.coordinates] : area.coordinates
+}
+
+function isPosition(value: unknown): value is GeoJsonPosition {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    Number.isFinite(value[0]) &&
+    Number.isFinite(value[1])
+  )
+}
+
+function isRing(value: unknown): value is Array<GeoJsonPosition> {
+  return Array.isArray(value) && value.length >= 4 && value.every(isPosition)
+}
+
+/**
+ * Whether a parsed GeoJSON geometry is a polygon with closed rings of at
+ * least 4 positions
+ */
+export function isGeoJsonPolygon(value: unknown): value is GeoJsonPolygon {
+  if (typeof value !== 'object' || value === null) return false
+  const { type, coordinates } = value as {
+    type?: unknown
+    coordinates?: unknown
+  }
+
+  return (
+    type === 'Polygon' &&
+    Array.isArray(coordinates) &&
+    coordinates.length > 0 &&
+    coordinates.every(
+      (ring) =>
+        isRing(ring) &&
+        ring[0][0] === ring[ring.length - 1][0] &&
+        ring[0][1] === ring[ring.length - 1][1],
+    )
+  )
+}
+
+/**
+ * Ray casting test of a point against one ring
+ */
+function isPointInRing(
+  lat: number,
+  lng: number,
+  ring: Array<GeoJsonPosition>,
+): boolean {
+  let inside = false
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i]
+    const [lngJ, latJ] = ring[j]
+
+    if (
+      latI > lat !== latJ > lat &&
+      lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI
+    ) {
+      inside = !inside
+    }
+  }
+
+  return inside
+}
+
+/**
+ * Whether a point lies inside a polygon, outside of its holes
+ */
+export function isPointInPolygon(
+  lat: number,
+  lng: number,
+  area: GeoJsonArea,
+): boolean {
+  return polygonsOf(area).some(
+    ([outline, ...holes]) =>
+      isPointInRing(lat, lng, outline) &&
+      !holes.some((hole) => isPointInRing(lat, lng, hole)),
+  )
+}
+
+/**
+ * Area of a ring on the sphere in square meters, positive for
+ * counter-clockwise rings (Chamberlain and Duquette)
+ */
+function ringArea(ring: Array<GeoJsonPosition>): number {
+  const toRadians = (degrees: number) => degrees * (Math.PI / 180)
+  let total = 0
+
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [lng1, lat1] = ring[i]
+    const [lng2, lat2] = ring[i + 1]
+    total +=
+      toRadians(lng2 - lng1) *
+      (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)))
+  }
+
+  return (total * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2
+}
+
+/**
+ * Area of a polygon in square meters, holes excluded
+ */
+export function polygonArea(area: GeoJsonArea): number {
+  return polygonsOf(area).reduce(
+    (sum, [outline, ...holes]) =>
+      sum +
+      Math.abs(ringArea(outline)) -
+      holes.reduce(
+        (holesArea, hole) => holesArea + Math.abs(ringArea(hole)),
+        0,
+      ),
+    0,
+  )
+}
+
+/**
+ * Area-weighted centroid of a polygon's outlines
+ * Lots span a few meters, so the planar formula on lng/lat is accurate
+ * enough. Degenerate outlines fall back to the average of their vertices
+ */
+export function polygonCentroid(area: GeoJsonArea): {
+  lat: number
+  lng: number
+} {
+  let weightedLat = 0
+  let weightedLng = 0
+  let totalArea = 0
+  const vertices: Array<GeoJsonPosition> = []
+
+  polygonsOf(area).forEach(([outline]) => {
+    for (let i = 0; i < outline.length - 1; i++) {
+      const [lng1, lat1] = outline[i]
+      const [lng2, lat2] = outline[i + 1]
+      const cross = lng1 * lat2 - lng2 * lat1
+
+      totalArea += cross / 2
+      weightedLng += (lng1 + lng2) * cross
+      weightedLat += (lat1 + lat2) * cross
+      vertices.push(outline[i])
+    }
+  })
+
+  if (totalArea === 0) {
+    return {
+      lat: vertices.reduce((sum, [, lat]) => sum + lat, 0) / vertices.length,
+      lng: vertices.reduce((sum, [lng]) => sum + lng, 0) / vertices.length,
+    }
+  }
+
+  return {
+    lat: weightedLat / (6 * totalArea),
+    lng: weightedLng / (6 * totalArea),
+  }
+}
+
+/**
+ * Rings as [lat, lng] positions, the order Leaflet expects
+ */
+export function toLatLngRings(
+  area: GeoJsonArea,
+): Array<Array<Array<[number, number]>>> {
+  return polygonsOf(area).map((polygon) =>
+    polygon.map((ring) => ring.map(([lng, lat]) => [lat, lng])),
+  )
+}
@@ -0,0 +1,212 @@
+// Grid spatial index and zoom-aware clustering for map markers
+
+export interface GeoPoint {
+  id: string
+  lat: number
+  lng: number
+}
+
+export interface PointCluster<T extends GeoPoint> {
+  center: { lat: number; lng: number }
+  points: Array<T>
+}
+
+const KM_PER_DEGREE_LAT = 110.574
+const KM_PER_DEGREE_LNG_AT_EQUATOR = 111.32
+// Web Mercator ground resolution at zoom 0, in meters per pixel
+const METERS_PER_PIXEL_AT_ZOOM_0 = 156543.03392
+
+// Screen distance under which markers are grouped into a cluster
+export const DEFAULT_CLUSTER_RADIUS_PX = 48
+// From this zoom level every marker is shown individually
+export const MAX_CLUSTER_ZOOM = 19
+
+/**
+ * Distance between two points in kilometers (Haversine formula)
+ */
+export function haversineDistance(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+): number {
+  const toRadians = (degrees: number) => degrees * (Math.PI / 180)
+  const dLat = toRadians(lat2 - lat1)
+  const dLng = toRadians(lng2 - lng1)
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLng / 2) *
+      Math.sin(dLng / 2)
+
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+/**
+ * Cluster radius (km) covering `radiusPx` screen pixels at a zoom level
+ * Returns 0 from MAX_CLUSTER_ZOOM, where clustering is disabled
+ */
+export function clusterRadiusForZoom(
+  zoom: number,
+  latitude: number,
+  radiusPx: number = DEFAULT_CLUSTER_RADIUS_PX,
+): number {
+  if (zoom >= MAX_CLUSTER_ZOOM) return 0
+
+  const metersPerPixel =
+    (METERS_PER_PIXEL_AT_ZOOM_0 * Math.cos((latitude * Math.PI) / 180)) /
+    Math.pow(2, zoom)
+  return (metersPerPixel * radiusPx) / 1000
+}
+
+/**
+ * Uniform grid over an equirectangular projection of the points
+ * The subdivision spans a few kilometers, so the projection error is
+ * negligible and cell lookups stay O(1)
+ */
+export class GridSpatialIndex<T extends GeoPoint> {
+  private cells = new Map<string, Array<T>>()
+  private kmPerDegreeLng: number
+
+  constructor(
+    points: Array<T>,
+    private cellSizeKm: number,
+  ) {
+    if (cellSizeKm <= 0) {
+      throw new Error('Cell size must be greater than 0')
+    }
+
+    const referenceLat =
+      points.length > 0
+        ? points.reduce((sum, point) => sum + point.lat, 0) / points.length
+        : 0
+    this.kmPerDegreeLng =
+      KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos((referenceLat * Math.PI) / 180)
+
+    points.forEach((point) => {
+      const key = this.cellKey(...this.cellOf(point.lat, point.lng))
+      const cell = this.cells.get(key)
+      if (cell) {
+        cell.push(point)
+      } else {
+        this.cells.set(key, [point])
+      }
+    })
+  }
+
+  private cellOf(lat: number, lng: number): [number, number] {
+    return [
+      Math.floor((lng * this.kmPerDegreeLng) / this.cellSizeKm),
+      Math.floor((lat * KM_PER_DEGREE_LAT) / this.cellSizeKm),
+    ]
+  }
+
+  private cellKey(x: number, y: number): string {
+    return `${x}:${y}`
+  }
+
+  /**
+   * Points within `radiusKm` of a point, nearest first
+   */
+  within(
+    lat: number,
+    lng: number,
+    radiusKm: number,
+  ): Array<{ point: T; distance: number }> {
+    const [cellX, cellY] = this.cellOf(lat, lng)
+    const range = Math.ceil(radiusKm / this.cellSizeKm)
+    const results: Array<{ point: T; distance: number }> = []
+
+    for (let x = cellX - range; x <= cellX + range; x++) {
+      for (let y = cellY - range; y <= cellY + range; y++) {
+        const cell = this.cells.get(this.cellKey(x, y))
+        if (!cell) continue
+
+        cell.forEach((point) => {
+          const distance = haversineDistance(lat, lng, point.lat, point.lng)
+          if (distance <= radiusKm) {
+            results.push({ point, distance })
+          }
+        })
+      }
+    }
+
+    return results.sort((a, b) => a.distance - b.distance)
+  }
+}
+
+/**
+ * Greedy clustering: each unclustered point absorbs the unclustered points
+ * within `radiusKm`. With a grid whose cells match the radius, every point
+ * only looks at its 3x3 neighbourhood instead of every other point
+ */
+export function clusterPoints<T extends GeoPoint>(
+  points: Array<T>,
+  radiusKm: number,
+): Array<PointCluster<T>> {
+  if (points.length === 0) return []
+
+  if (radiusKm <= 0) {
+    return points.map((point) => ({
+      center: { lat: point.lat, lng: point.lng },
+      points: [point],
+    }))
+  }
+
+  const index = new GridSpatialIndex(points, radiusKm)
+  const clustered = new Set<string>()
+  const clusters: Array<PointCluster<T>> = []
+
+  points.forEach((point) => {
+    if (clustered.has(point.id)) return
+
+    const members = index
+      .within(point.lat, point.lng, radiusKm)
+      .map(({ point: neighbour }) => neighbour)
+      .filter((neighbour) => !clustered.has(neighbour.id))
+
+    members.forEach((member) => clustered.add(member.id))
+
+    clusters.push({
+      center: {
+        lat:
+          members.reduce((sum, member) => sum + member.lat, 0) / members.length,
+        lng:
+          members.reduce((sum, member) => sum + member.lng, 0) / members.length,
+      },
+      points: members,
+    })
+  })
+
+  return clusters
+}
+
+/**
+ * Clusters for a zoom level, cached per integer zoom so panning and zooming
+ * back and forth does not recompute them
+ */
+export function createZoomClusterer<T extends GeoPoint>(
+  points: Array<T>,
+  options?: { radiusPx?: number },
+): (zoom: number) => Array<PointCluster<T>> {
+  const cache = new Map<number, Array<PointCluster<T>>>()
+  const referenceLat =
+    points.length > 0
+      ? points.reduce((sum, point) => sum + point.lat, 0) / points.length
+      : 0
+
+  return (zoom) => {
+    const level = Math.min(Math.floor(zoom), MAX_CLUSTER_ZOOM)
+    const cached = cache.get(level)
+    if (cached) return cached
+
+    const clusters = clusterPoints(
+      points,
+      clusterRadiusForZoom(level, referenceLat, options?.radiusPx),
+    )
+    cache.set(level, clusters)
+    return clusters
+  }
+}
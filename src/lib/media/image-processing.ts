@@ -0,0 +1,109 @@
+// Client-side image processing (compression and thumbnails) using canvas
+
+export interface ImageProcessingOptions {
+  // Longest side of the output image, in pixels
+  maxDimension: number
+  // Encoder quality between 0 and 1
+  quality?: number
+  mimeType?: 'image/jpeg' | 'image/webp'
+}
+
+export interface ProcessedImage {
+  blob: Blob
+  width: number
+  height: number
+}
+
+/**
+ * Compression preset for photos shared in messages
+ */
+export const COMPRESSED_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxDimension: 1600,
+  quality: 0.8,
+  mimeType: 'image/jpeg',
+}
+
+/**
+ * Thumbnail preset rendered inline in conversations
+ */
+export const THUMBNAIL_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxDimension: 320,
+  quality: 0.7,
+  mimeType: 'image/jpeg',
+}
+
+function fitWithin(
+  width: number,
+  height: number,
+  maxDimension: number,
+): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height))
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  }
+}
+
+/**
+ * Resize and re-encode an image
+ * Re-encoding through a canvas also drops the original metadata
+ */
+export async function processImage(
+  file: Blob,
+  options: ImageProcessingOptions,
+): Promise<ProcessedImage> {
+  // imageOrientation applies the EXIF rotation before it is discarded
+  const bitmap = await createImageBitmap(file, {
+    imageOrientation: 'from-image',
+  })
+
+  try {
+    const { width, height } = fitWithin(
+      bitmap.width,
+      bitmap.height,
+      options.maxDimension,
+    )
+
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Canvas 2D context is not available')
+    }
+
+    const mimeType = options.mimeType || 'image/jpeg'
+    if (mimeType === 'image/jpeg') {
+      // JPEG has no alpha channel, avoid black backgrounds on transparent PNGs
+      context.fillStyle = '#ffffff'
+      context.fillRect(0, 0, width, height)
+    }
+    context.drawImage(bitmap, 0, 0, width, height)
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, mimeType, options.quality ?? 0.8),
+    )
+    if (!blob) {
+      throw new Error('Image encoding failed')
+    }
+
+    return { blob, width, height }
+  } finally {
+    bitmap.close()
+  }
+}
+
+/**
+ * Compress a photo before upload
+ */
+export function compressImage(file: Blob): Promise<ProcessedImage> {
+  return processImage(file, COMPRESSED_IMAGE_OPTIONS)
+}
+
+/**
+ * Create a small preview of a photo
+ */
+export function createThumbnail(file: Blob): Promise<ProcessedImage> {
+  return processImage(file, THUMBNAIL_IMAGE_OPTIONS)
+}
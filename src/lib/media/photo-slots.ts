@@ -0,0 +1,66 @@
+// Five photo slots (photo_1_url..photo_5_url) shared by listings, businesses and services
+
+export const PHOTO_SLOT_COLUMNS = [
+  'photo_1_url',
+  'photo_2_url',
+  'photo_3_url',
+  'photo_4_url',
+  'photo_5_url',
+] as const
+
+export const PHOTO_SLOT_COUNT = PHOTO_SLOT_COLUMNS.length
+
+export type PhotoSlotColumn = (typeof PHOTO_SLOT_COLUMNS)[number]
+
+export type PhotoColumns = Record<PhotoSlotColumn, string | null>
+
+// One entry per slot, null for an empty slot
+export type PhotoSlots = Array<string | null>
+
+/**
+ * Read the photo slots of a row
+ */
+export function getPhotoSlots(
+  row: Partial<Record<PhotoSlotColumn, string | null>>,
+): PhotoSlots {
+  return PHOTO_SLOT_COLUMNS.map((column) => row[column] || null)
+}
+
+/**
+ * Convert slots to column updates, photos are packed from the first slot
+ * so photo_1_url is always the cover
+ */
+export function toPhotoColumns(slots: PhotoSlots): PhotoColumns {
+  const photos = slots.filter((url): url is string => !!url)
+
+  return Object.fromEntries(
+    PHOTO_SLOT_COLUMNS.map((column, index) => [column, photos[index] ?? null]),
+  ) as PhotoColumns
+}
+
+/**
+ * Move a photo to another slot, shifting the photos in between
+ */
+export function movePhotoSlot(
+  slots: PhotoSlots,
+  from: number,
+  to: number,
+): PhotoSlots {
+  if (from === to) return slots
+
+  const next = [...slots]
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, moved)
+  return next
+}
+
+/**
+ * Photos present before an edit and gone after it
+ */
+export function getRemovedPhotos(
+  previous: PhotoSlots,
+  next: PhotoSlots,
+): Array<string> {
+  const kept = new Set(next.filter(Boolean))
+  return previous.filter((url): url is string => !!url && !kept.has(url))
+}
@@ -0,0 +1,179 @@
+// Offline mutation queue: mutations that can be made without connectivity
+import { MarketplaceService } from '../services/marketplace.service'
+import { PrivateMessageService } from '../services/private-message.service'
+import { profileService } from '../services/profile.service'
+import type { QueryClient, QueryKey } from '@tanstack/react-query'
+import type { UpdateRow } from './database-types'
+
+const marketplaceService = new MarketplaceService()
+const privateMessageService = new PrivateMessageService()
+
+/**
+ * Mutation keys of the queued mutations
+ * Paused mutations are persisted with their key only, the mutationFn is
+ * looked up again through setMutationDefaults when the app relaunches
+ */
+export const offlineMutationKeys = {
+  sendPrivateMessage: ['private-messages', 'send'] as const,
+  updateMarketplaceListing: ['marketplace-listings', 'update'] as const,
+  updateProfile: ['profiles', 'update'] as const,
+}
+
+// A single scope makes TanStack Query run queued mutations one at a time,
+// in the order they were made
+const OFFLINE_SCOPE = { id: 'offline-queue' }
+
+export interface SendPrivateMessageVariables {
+  receiver_id: string
+  message: string
+  message_type?: 'text' | 'image' | 'file' | 'location'
+  attachment_url?: string
+  attachment_type?: string
+  reply_to?: string
+}
+
+export type UpdateMarketplaceListingVariables =
+  UpdateRow<'marketplace_listings'> & {
+    id: string
+    // updated_at of the listing the edit was made from, enables conflict detection
+    expectedUpdatedAt?: string | null
+  }
+
+export type UpdateProfileVariables = UpdateRow<'profiles'> & {
+  id: string
+  // updated_at of the profile the edit was made from, enables conflict detection
+  expectedUpdatedAt?: string | null
+}
+
+interface CachedRow {
+  id: string
+  updated_at?: string | null
+}
+
+/**
+ * updated_at of the cached row an edit is made from, read from its detail
+ * query or from any cached list (plain arrays or `{ data }` pages)
+ * Read when the edit is made, not when it runs: a queued edit must keep the
+ * version it was made from
+ */
+export function getCachedUpdatedAt(
+  queryClient: QueryClient,
+  keys: { detail: QueryKey; lists: QueryKey },
+  id: string,
+): string | null {
+  const detail = queryClient.getQueryData<CachedRow>(keys.detail)
+  if (detail?.updated_at) return detail.updated_at
+
+  const lists = queryClient.getQueriesData<
+    Array<CachedRow> | { data?: Array<CachedRow> }
+  >({ queryKey: keys.lists })
+  for (const [, data] of lists) {
+    const rows = Array.isArray(data) ? data : data?.data
+    const row = rows?.find((item) => item.id === id)
+    if (row?.updated_at) return row.updated_at
+  }
+
+  return null
+}
+
+/**
+ * Versions produced by this client's own edits, by table, row and the
+ * version each edit was made from
+ * Two edits queued from the same cached row both carry its updated_at: once
+ * the first one is replayed, the second one continues from the version the
+ * first one produced instead of conflicting with it. An edit made by
+ * someone else in between still changes updated_at and is a conflict
+ */
+const ownVersions = new Map<string, string>()
+
+const versionKey = (table: string, id: string, version: string) =>
+  `${table}:${id}:${version}`
+
+async function applyOnOwnVersion<T extends CachedRow>(
+  table: string,
+  id: string,
+  expectedUpdatedAt: string | null | undefined,
+  update: (expectedUpdatedAt: string | null | undefined) => Promise<T>,
+): Promise<T> {
+  let expected = expectedUpdatedAt
+  const seen = new Set<string>()
+  while (expected && !seen.has(expected)) {
+    seen.add(expected)
+    const next = ownVersions.get(versionKey(table, id, expected))
+    if (!next) break
+    expected = next
+  }
+
+  const row = await update(expected)
+  if (expected && row.updated_at) {
+    ownVersions.set(versionKey(table, id, expected), row.updated_at)
+  }
+  return row
+}
+
+export const sendPrivateMessage = (variables: SendPrivateMessageVariables) =>
+  privateMessageService.sendMessage(variables)
+
+export const updateMarketplaceListing = ({
+  id,
+  expectedUpdatedAt,
+  ...updates
+}: UpdateMarketplaceListingVariables) =>
+  applyOnOwnVersion('marketplace_listings', id, expectedUpdatedAt, (expected) =>
+    marketplaceService.updateListing(id, updates, {
+      expectedUpdatedAt: expected,
+    }),
+  )
+
+export const updateProfile = ({
+  id,
+  expectedUpdatedAt,
+  ...updates
+}: UpdateProfileVariables) =>
+  applyOnOwnVersion('profiles', id, expectedUpdatedAt, (expected) =>
+    profileService.updateProfile(id, updates, { expectedUpdatedAt: expected }),
+  )
+
+/**
+ * Put the row returned by the server in the detail query and in every
+ * cached list that holds it, so the next edit carries the server's
+ * updated_at
+ */
+export function setCachedRow<T extends CachedRow>(
+  queryClient: QueryClient,
+  keys: { detail: QueryKey; lists: QueryKey },
+  row: T,
+): void {
+  queryClient.setQueryData(keys.detail, row)
+  queryClient.setQueriesData<Array<T> | { data?: Array<T> }>(
+    { queryKey: keys.lists },
+    (data) => {
+      const replace = (rows: Array<T>) =>
+        rows.map((item) => (item.id === row.id ? { ...item, ...row } : item))
+      if (Array.isArray(data)) return replace(data)
+      if (data?.data) return { ...data, data: replace(data.data) }
+      return data
+    },
+  )
+}
+
+/**
+ * Register the queued mutations so they can be resumed after a relaunch
+ */
+export function registerOfflineMutations(queryClient: QueryClient): void {
+  queryClient.setMutationDefaults(offlineMutationKeys.sendPrivateMessage, {
+    mutationFn: sendPrivateMessage,
+    scope: OFFLINE_SCOPE,
+  })
+  queryClient.setMutationDefaults(
+    offlineMutationKeys.updateMarketplaceListing,
+    {
+      mutationFn: updateMarketplaceListing,
+      scope: OFFLINE_SCOPE,
+    },
+  )
+  queryClient.setMutationDefaults(offlineMutationKeys.updateProfile, {
+    mutationFn: updateProfile,
+    scope: OFFLINE_SCOPE,
+  })
+}
@@ -1,6 +1,14 @@
 // TanStack Query configuration optimized for mobile PWA
 import { QueryClient } from '@tanstack/react-query'
-import { handleQueryError } from './crud/error-handling'
+import {
+  getRetryDelay,
+  handleMutationError,
+  handleQueryError,
+  shouldRetryError,
+  wasErrorNotified,
+} from './crud/error-handling'
+import { registerOfflineMutations } from './offline-mutations'
+import { PERSIST_MAX_AGE } from './query-persister'
 
 /**
  * QueryClient configuration following TanStack best practices
@@ -8,7 +16,7 @@ import { handleQueryError } from './crud/error-handling'
  * Features:
  * - Mobile-first approach with appropriate staleTime
  * - Intelligent retry logic (no retry on 4xx errors)
- * - Offline/online support
+ * - Offline-first: cache persisted to IndexedDB, paused mutations queued
  * - Global error tracking using TanStack Query's cache events
  * - Optimized for PWA usage
  */
@@ -17,23 +25,21 @@ export const queryClient = new QueryClient({
     queries: {
       // Mobile-first: stale data is better than no data
       staleTime: 5 * 60 * 1000, // 5 minutes
-      gcTime: 10 * 60 * 1000, // 10 minutes
-      retry: (failureCount, error) => {
-        // Don't retry on 4xx errors (client errors)
-        const status = (error as any)?.status
-        if (typeof status === 'number' && status >= 400 && status < 500) {
-          return false
-        }
-        // Retry up to 3 times for network errors
-        return failureCount < 3
-      },
-      retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+      gcTime: PERSIST_MAX_AGE, // Must outlive the persisted cache
+      // Typed service errors carry a status: no retry on 4xx/RLS errors,
+      // up to 3 attempts for network and server errors
+      retry: shouldRetryError,
+      retryDelay: getRetryDelay,
       refetchOnWindowFocus: false, // Mobile: don't refocus often
       refetchOnReconnect: true, // Important for offline/online transitions
-      networkMode: 'online',
+      // Serve the persisted cache first, fetch when the network allows it
+      networkMode: 'offlineFirst',
     },
     mutations: {
-      retry: 1, // Mutations should be more conservative
+      // Mutations should be more conservative: a single retry, never on 4xx
+      retry: (failureCount, error) =>
+        failureCount < 1 && shouldRetryError(failureCount, error),
+      // Offline mutations are paused and replayed once back online
       networkMode: 'online',
       // Note: Mutation errors should be handled individually in useMutation hooks
       // This allows for specific error handling per operation type
@@ -41,6 +47,8 @@ export const queryClient = new QueryClient({
   },
 })
 
+registerOfflineMutations(queryClient)
+
 /**
  * Set up global error tracking using TanStack Query's cache events
  * This follows TanStack Query best practices for centralized error handling
@@ -51,14 +59,35 @@ queryClient.getQueryCache().subscribe((event) => {
     // Handle query errors globally using TanStack Query's event system
     const error = event.query.state.error
     if (error) {
-      handleQueryError(error)
+      const queryKey = event.query.queryKey
+      handleQueryError(error, {
+        onRetry: () => {
+          queryClient.refetchQueries({ queryKey, exact: true })
+        },
+      })
     }
   }
 })
 
 queryClient.getMutationCache().subscribe((event) => {
   if (event.type === 'updated' && event.action.type === 'error') {
-    // Log mutation errors globally (individual mutations should handle their own UI notifications)
-    console.error('Global mutation error:', event.mutation.state.error)
+    const { mutation } = event
+    const error = mutation.state.error
+    console.error('Global mutation error:', error)
+
+    // Hooks report their own errors from onError, only notify the others
+    if (error && !wasErrorNotified(error)) {
+      handleMutationError(error, 'update', {
+        onRetry: () => {
+          queryClient
+            .getMutationCache()
+            .build(queryClient, mutation.options)
+            .execute(mutation.state.variables)
+            .catch(() => {
+              // Reported again by this subscriber
+            })
+        },
+      })
+    }
   }
 })
@@ -21,11 +21,64 @@ export const queryKeys = {
     detail: (id: string) => [...queryKeys.profiles.details(), id] as const,
     byUsername: (username: string) =>
       [...queryKeys.profiles.all, 'username', username] as const,
+    searches: () => [...queryKeys.profiles.all, 'search'] as const,
+    search: (query: string) =>
+      [...queryKeys.profiles.searches(), query] as const,
     currentUser: () => [...queryKeys.profiles.all, 'current'] as const,
     dailyCheckin: (profileId: string) =>
       [...queryKeys.profiles.all, 'daily-checkin', profileId] as const,
   },
 
+  // Coin ledger
+  coinLedger: {
+    all: ['coin-ledger'] as const,
+    byProfile: (profileId: string, reason?: string) =>
+      [...queryKeys.coinLedger.all, 'profile', profileId, reason] as const,
+    profile: (profileId: string) =>
+      [...queryKeys.coinLedger.all, 'profile', profileId] as const,
+    reconciliation: (profileId?: string) =>
+      [...queryKeys.coinLedger.all, 'reconciliation', profileId] as const,
+  },
+
+  // Coin transfers and tips
+  coinTransfers: {
+    all: ['coin-transfers'] as const,
+    usage: () => [...queryKeys.coinTransfers.all, 'usage'] as const,
+    byProfile: (profileId: string) =>
+      [...queryKeys.coinTransfers.all, 'profile', profileId] as const,
+  },
+
+  // Content reports and moderation
+  contentReports: {
+    all: ['content-reports'] as const,
+    lists: () => [...queryKeys.contentReports.all, 'list'] as const,
+    list: (filters?: ContentReportsFilters) =>
+      [...queryKeys.contentReports.lists(), filters] as const,
+  },
+
+  moderationActions: {
+    all: ['moderation-actions'] as const,
+    list: (filters?: { reportId?: string; targetProfileId?: string }) =>
+      [...queryKeys.moderationActions.all, 'list', filters] as const,
+  },
+
+  // Blocked and muted residents
+  profileBlocks: {
+    all: ['profile-blocks'] as const,
+    byProfile: (blockerId: string) =>
+      [...queryKeys.profileBlocks.all, blockerId] as const,
+    ids: () => [...queryKeys.profileBlocks.all, 'ids'] as const,
+  },
+
+  // User notifications
+  userNotifications: {
+    all: ['user-notifications'] as const,
+    byProfile: (profileId: string, unreadOnly?: boolean) =>
+      [...queryKeys.userNotifications.all, profileId, unreadOnly] as const,
+    unreadCount: (profileId: string) =>
+      [...queryKeys.userNotifications.all, profileId, 'unread-count'] as const,
+  },
+
   // Locations
   locations: {
     all: ['locations'] as const,
@@ -162,6 +215,8 @@ export const queryKeys = {
     detail: (id: string) => [...queryKeys.chat.details(), id] as const,
     byChannel: (channelId: string) =>
       [...queryKeys.chat.all, 'channel', channelId] as const,
+    infiniteByChannel: (channelId: string) =>
+      [...queryKeys.chat.all, 'channel-infinite', channelId] as const,
     byUser: (userId: string) =>
       [...queryKeys.chat.all, 'user', userId] as const,
     replies: (messageId: string) =>
@@ -217,6 +272,15 @@ export const queryKeys = {
       [...queryKeys.threads.all, 'search', query] as const,
   },
 
+  // Thread posts (replies)
+  threadPosts: {
+    all: ['thread-posts'] as const,
+    byThread: (threadId: string) =>
+      [...queryKeys.threadPosts.all, 'thread', threadId] as const,
+    details: () => [...queryKeys.threadPosts.all, 'detail'] as const,
+    detail: (id: string) => [...queryKeys.threadPosts.details(), id] as const,
+  },
+
   // Location Association Requests
   locationAssociationRequests: {
     all: ['location-association-requests'] as const,
@@ -248,6 +312,8 @@ export const queryKeys = {
       ] as const,
     pending: () =>
       [...queryKeys.locationAssociationRequests.all, 'pending'] as const,
+    escalated: () =>
+      [...queryKeys.locationAssociationRequests.all, 'escalated'] as const,
   },
 
   // Marketplace Listings
@@ -267,10 +333,43 @@ export const queryKeys = {
       [...queryKeys.marketplaceListings.all, 'type', listingType] as const,
     featured: () => [...queryKeys.marketplaceListings.all, 'featured'] as const,
     active: () => [...queryKeys.marketplaceListings.all, 'active'] as const,
+    expiring: (profileId: string) =>
+      [...queryKeys.marketplaceListings.all, 'expiring', profileId] as const,
     search: (query: string) =>
       [...queryKeys.marketplaceListings.all, 'search', query] as const,
   },
 
+  // Marketplace offers and reservations
+  marketplaceOffers: {
+    all: ['marketplace-offers'] as const,
+    byListing: (listingId: string) =>
+      [...queryKeys.marketplaceOffers.all, 'listing', listingId] as const,
+    byProfile: (
+      profileId: string,
+      options?: { role?: 'buyer' | 'seller'; openOnly?: boolean },
+    ) =>
+      [
+        ...queryKeys.marketplaceOffers.all,
+        'profile',
+        profileId,
+        options,
+      ] as const,
+  },
+
+  // Marketplace saved searches
+  marketplaceSavedSearches: {
+    all: ['marketplace-saved-searches'] as const,
+    byProfile: (profileId: string) =>
+      [...queryKeys.marketplaceSavedSearches.all, profileId] as const,
+  },
+
+  // Global search
+  search: {
+    all: ['search'] as const,
+    results: (query: string, types?: Array<string>) =>
+      [...queryKeys.search.all, query, types] as const,
+  },
+
   // Profile Location Associations
   profileLocationAssociations: {
     all: ['profile-location-associations'] as const,
@@ -300,6 +399,20 @@ export const queryKeys = {
       [...queryKeys.profileLocationAssociations.all, 'owners'] as const,
   },
 
+  // Households
+  household: {
+    all: ['household'] as const,
+    history: (locationId: string) =>
+      [...queryKeys.household.all, 'history', locationId] as const,
+  },
+
+  // Lot transfers
+  locationTransfers: {
+    all: ['location-transfers'] as const,
+    byLocation: (locationId: string) =>
+      [...queryKeys.locationTransfers.all, 'location', locationId] as const,
+  },
+
   // Private Messages
   privateMessages: {
     all: ['private-messages'] as const,
@@ -311,6 +424,8 @@ export const queryKeys = {
       [...queryKeys.privateMessages.details(), id] as const,
     conversations: (userId: string) =>
       [...queryKeys.privateMessages.all, 'conversations', userId] as const,
+    conversationList: (userId: string, filters?: { includeHidden?: boolean }) =>
+      [...queryKeys.privateMessages.conversations(userId), filters] as const,
     conversation: (userId1: string, userId2: string) =>
       [
         ...queryKeys.privateMessages.all,
@@ -328,6 +443,8 @@ export const queryKeys = {
       [...queryKeys.privateMessages.all, 'unread-count', userId] as const,
     replies: (messageId: string) =>
       [...queryKeys.privateMessages.all, 'replies', messageId] as const,
+    attachment: (path: string) =>
+      [...queryKeys.privateMessages.all, 'attachment', path] as const,
     search: (query: string, userId?: string) =>
       userId
         ? ([...queryKeys.privateMessages.all, 'search', query, userId] as const)
@@ -386,6 +503,13 @@ export interface ChatFilters {
   search?: string
 }
 
+export interface ContentReportsFilters {
+  status?: string
+  contentType?: string
+  limit?: number
+  offset?: number
+}
+
 export interface MessagesHeaderFilters {
   userId?: string
   active?: boolean
@@ -416,7 +540,7 @@ export interface LocationAssociationRequestsFilters {
   requesterId?: string
   locationId?: string
   approverId?: string
-  status?: 'pending' | 'approved' | 'rejected'
+  status?: 'pending' | 'approved' | 'rejected' | 'cancelled' | 'expired'
   limit?: number
   offset?: number
 }
@@ -0,0 +1,66 @@
+// IndexedDB persistence for the TanStack Query cache (offline-first PWA)
+import { createStore, del, get, set } from 'idb-keyval'
+import type {
+  PersistQueryClientOptions,
+  PersistedClient,
+  Persister,
+} from '@tanstack/react-query-persist-client'
+
+const CACHE_KEY = 'react-query-cache'
+// Bump to drop caches persisted with an incompatible shape
+const CACHE_BUSTER = 'v1'
+// Writes are coalesced, the cache changes on every fetch
+const PERSIST_THROTTLE = 1000
+
+// Persisted data older than this is discarded on launch
+export const PERSIST_MAX_AGE = 24 * 60 * 60 * 1000 // 24 hours
+
+const cacheStore = createStore('ggv-query-cache', 'query-cache')
+
+/**
+ * Persister backed by IndexedDB through idb-keyval
+ * IndexedDB stores structured clones, so no JSON serialization is needed
+ */
+function createIDBPersister(): Persister {
+  let pending: PersistedClient | null = null
+  let timeout: ReturnType<typeof setTimeout> | null = null
+
+  return {
+    persistClient: (client) => {
+      pending = client
+      if (timeout) return
+
+      timeout = setTimeout(() => {
+        timeout = null
+        const latest = pending
+        pending = null
+        if (latest) {
+          set(CACHE_KEY, latest, cacheStore).catch((error) =>
+            console.error('Failed to persist query cache:', error),
+          )
+        }
+      }, PERSIST_THROTTLE)
+    },
+    restoreClient: () => get<PersistedClient>(CACHE_KEY, cacheStore),
+    removeClient: async () => {
+      if (timeout) {
+        clearTimeout(timeout)
+        timeout = null
+      }
+      pending = null
+      await del(CACHE_KEY, cacheStore)
+    },
+  }
+}
+
+export const queryPersister = createIDBPersister()
+
+export const persistOptions: Omit<PersistQueryClientOptions, 'queryClient'> = {
+  persister: queryPersister,
+  maxAge: PERSIST_MAX_AGE,
+  buster: CACHE_BUSTER,
+  dehydrateOptions: {
+    // Paused mutations are the offline queue, they must survive a relaunch
+    shouldDehydrateMutation: (mutation) => mutation.state.isPaused,
+  },
+}
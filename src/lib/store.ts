@@ -21,6 +21,12 @@ export interface AuthState {
   error: string | null
 }
 
+// Optional call-to-action rendered on a notification ("Retry", "Undo"...)
+export interface NotificationAction {
+  label: string
+  onClick: () => void
+}
+
 // Types for UI state
 export interface UIState {
   theme: 'light' | 'dark'
@@ -30,8 +36,9 @@ export interface UIState {
     type: 'success' | 'error' | 'info' | 'warning'
     title: string
     message: string | null
-    duration: number
+    duration: number // ms before auto-dismiss, 0 keeps it until closed
     timestamp: number
+    action?: NotificationAction
   }>
 }
 
@@ -117,6 +124,7 @@ export const uiActions = {
         { ...notification, id, timestamp },
       ],
     }))
+    return id
   },
 
   removeNotification: (id: string) => {
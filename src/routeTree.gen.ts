@@ -13,7 +13,24 @@ import { Route as LoginRouteImport } from './routes/login'
 import { Route as AuthenticatedRouteRouteImport } from './routes/_authenticated/route'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as AuthCallbackRouteImport } from './routes/auth/callback'
+import { Route as AuthenticatedSearchRouteImport } from './routes/_authenticated/search'
+import { Route as AuthenticatedMarketplaceRouteImport } from './routes/_authenticated/marketplace'
+import { Route as AuthenticatedLocationsRouteImport } from './routes/_authenticated/locations'
 import { Route as AuthenticatedDashboardRouteImport } from './routes/_authenticated/dashboard'
+import { Route as AuthenticatedAdminRouteRouteImport } from './routes/_authenticated/_admin/route'
+import { Route as AuthenticatedProfileHouseholdRouteImport } from './routes/_authenticated/profile/household'
+import { Route as AuthenticatedProfileBusinessesRouteImport } from './routes/_authenticated/profile/businesses'
+import { Route as AuthenticatedProfileBlockedRouteImport } from './routes/_authenticated/profile/blocked'
+import { Route as AuthenticatedMessagesUserIdRouteImport } from './routes/_authenticated/messages.$userId'
+import { Route as AuthenticatedAdminAdminIndexRouteImport } from './routes/_authenticated/_admin/admin/index'
+import { Route as AuthenticatedCommunityThreadsThreadIdRouteImport } from './routes/_authenticated/community/threads.$threadId'
+import { Route as AuthenticatedCommunityForumsForumIdRouteImport } from './routes/_authenticated/community/forums.$forumId'
+import { Route as AuthenticatedAdminAdminReportsRouteImport } from './routes/_authenticated/_admin/admin/reports'
+import { Route as AuthenticatedAdminAdminProfilesRouteImport } from './routes/_authenticated/_admin/admin/profiles'
+import { Route as AuthenticatedAdminAdminModerationRouteImport } from './routes/_authenticated/_admin/admin/moderation'
+import { Route as AuthenticatedAdminAdminLocationsRouteImport } from './routes/_authenticated/_admin/admin/locations'
+import { Route as AuthenticatedAdminAdminCleanupRouteImport } from './routes/_authenticated/_admin/admin/cleanup'
+import { Route as AuthenticatedAdminAdminCategoriesRouteImport } from './routes/_authenticated/_admin/admin/categories'
 
 const LoginRoute = LoginRouteImport.update({
   id: '/login',
@@ -34,44 +51,248 @@ const AuthCallbackRoute = AuthCallbackRouteImport.update({
   path: '/auth/callback',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AuthenticatedSearchRoute = AuthenticatedSearchRouteImport.update({
+  id: '/search',
+  path: '/search',
+  getParentRoute: () => AuthenticatedRouteRoute,
+} as any)
+const AuthenticatedMarketplaceRoute =
+  AuthenticatedMarketplaceRouteImport.update({
+    id: '/marketplace',
+    path: '/marketplace',
+    getParentRoute: () => AuthenticatedRouteRoute,
+  } as any)
+const AuthenticatedLocationsRoute = AuthenticatedLocationsRouteImport.update({
+  id: '/locations',
+  path: '/locations',
+  getParentRoute: () => AuthenticatedRouteRoute,
+} as any)
 const AuthenticatedDashboardRoute = AuthenticatedDashboardRouteImport.update({
   id: '/dashboard',
   path: '/dashboard',
   getParentRoute: () => AuthenticatedRouteRoute,
 } as any)
+const AuthenticatedAdminRouteRoute = AuthenticatedAdminRouteRouteImport.update({
+  id: '/_admin',
+  getParentRoute: () => AuthenticatedRouteRoute,
+} as any)
+const AuthenticatedProfileHouseholdRoute =
+  AuthenticatedProfileHouseholdRouteImport.update({
+    id: '/profile/household',
+    path: '/profile/household',
+    getParentRoute: () => AuthenticatedRouteRoute,
+  } as any)
+const AuthenticatedProfileBusinessesRoute =
+  AuthenticatedProfileBusinessesRouteImport.update({
+    id: '/profile/businesses',
+    path: '/profile/businesses',
+    getParentRoute: () => AuthenticatedRouteRoute,
+  } as any)
+const AuthenticatedProfileBlockedRoute =
+  AuthenticatedProfileBlockedRouteImport.update({
+    id: '/profile/blocked',
+    path: '/profile/blocked',
+    getParentRoute: () => AuthenticatedRouteRoute,
+  } as any)
+const AuthenticatedMessagesUserIdRoute =
+  AuthenticatedMessagesUserIdRouteImport.update({
+    id: '/messages/$userId',
+    path: '/messages/$userId',
+    getParentRoute: () => AuthenticatedRouteRoute,
+  } as any)
+const AuthenticatedAdminAdminIndexRoute =
+  AuthenticatedAdminAdminIndexRouteImport.update({
+    id: '/admin/',
+    path: '/admin/',
+    getParentRoute: () => AuthenticatedAdminRouteRoute,
+  } as any)
+const AuthenticatedCommunityThreadsThreadIdRoute =
+  AuthenticatedCommunityThreadsThreadIdRouteImport.update({
+    id: '/community/threads/$threadId',
+    path: '/community/threads/$threadId',
+    getParentRoute: () => AuthenticatedRouteRoute,
+  } as any)
+const AuthenticatedCommunityForumsForumIdRoute =
+  AuthenticatedCommunityForumsForumIdRouteImport.update({
+    id: '/community/forums/$forumId',
+    path: '/community/forums/$forumId',
+    getParentRoute: () => AuthenticatedRouteRoute,
+  } as any)
+const AuthenticatedAdminAdminReportsRoute =
+  AuthenticatedAdminAdminReportsRouteImport.update({
+    id: '/admin/reports',
+    path: '/admin/reports',
+    getParentRoute: () => AuthenticatedAdminRouteRoute,
+  } as any)
+const AuthenticatedAdminAdminProfilesRoute =
+  AuthenticatedAdminAdminProfilesRouteImport.update({
+    id: '/admin/profiles',
+    path: '/admin/profiles',
+    getParentRoute: () => AuthenticatedAdminRouteRoute,
+  } as any)
+const AuthenticatedAdminAdminModerationRoute =
+  AuthenticatedAdminAdminModerationRouteImport.update({
+    id: '/admin/moderation',
+    path: '/admin/moderation',
+    getParentRoute: () => AuthenticatedAdminRouteRoute,
+  } as any)
+const AuthenticatedAdminAdminLocationsRoute =
+  AuthenticatedAdminAdminLocationsRouteImport.update({
+    id: '/admin/locations',
+    path: '/admin/locations',
+    getParentRoute: () => AuthenticatedAdminRouteRoute,
+  } as any)
+const AuthenticatedAdminAdminCleanupRoute =
+  AuthenticatedAdminAdminCleanupRouteImport.update({
+    id: '/admin/cleanup',
+    path: '/admin/cleanup',
+    getParentRoute: () => AuthenticatedAdminRouteRoute,
+  } as any)
+const AuthenticatedAdminAdminCategoriesRoute =
+  AuthenticatedAdminAdminCategoriesRouteImport.update({
+    id: '/admin/categories',
+    path: '/admin/categories',
+    getParentRoute: () => AuthenticatedAdminRouteRoute,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/login': typeof LoginRoute
   '/dashboard': typeof AuthenticatedDashboardRoute
+  '/locations': typeof AuthenticatedLocationsRoute
+  '/marketplace': typeof AuthenticatedMarketplaceRoute
+  '/search': typeof AuthenticatedSearchRoute
   '/auth/callback': typeof AuthCallbackRoute
+  '/messages/$userId': typeof AuthenticatedMessagesUserIdRoute
+  '/profile/blocked': typeof AuthenticatedProfileBlockedRoute
+  '/profile/businesses': typeof AuthenticatedProfileBusinessesRoute
+  '/profile/household': typeof AuthenticatedProfileHouseholdRoute
+  '/admin/categories': typeof AuthenticatedAdminAdminCategoriesRoute
+  '/admin/cleanup': typeof AuthenticatedAdminAdminCleanupRoute
+  '/admin/locations': typeof AuthenticatedAdminAdminLocationsRoute
+  '/admin/moderation': typeof AuthenticatedAdminAdminModerationRoute
+  '/admin/profiles': typeof AuthenticatedAdminAdminProfilesRoute
+  '/admin/reports': typeof AuthenticatedAdminAdminReportsRoute
+  '/community/forums/$forumId': typeof AuthenticatedCommunityForumsForumIdRoute
+  '/community/threads/$threadId': typeof AuthenticatedCommunityThreadsThreadIdRoute
+  '/admin': typeof AuthenticatedAdminAdminIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/login': typeof LoginRoute
   '/dashboard': typeof AuthenticatedDashboardRoute
+  '/locations': typeof AuthenticatedLocationsRoute
+  '/marketplace': typeof AuthenticatedMarketplaceRoute
+  '/search': typeof AuthenticatedSearchRoute
   '/auth/callback': typeof AuthCallbackRoute
+  '/messages/$userId': typeof AuthenticatedMessagesUserIdRoute
+  '/profile/blocked': typeof AuthenticatedProfileBlockedRoute
+  '/profile/businesses': typeof AuthenticatedProfileBusinessesRoute
+  '/profile/household': typeof AuthenticatedProfileHouseholdRoute
+  '/admin/categories': typeof AuthenticatedAdminAdminCategoriesRoute
+  '/admin/cleanup': typeof AuthenticatedAdminAdminCleanupRoute
+  '/admin/locations': typeof AuthenticatedAdminAdminLocationsRoute
+  '/admin/moderation': typeof AuthenticatedAdminAdminModerationRoute
+  '/admin/profiles': typeof AuthenticatedAdminAdminProfilesRoute
+  '/admin/reports': typeof AuthenticatedAdminAdminReportsRoute
+  '/community/forums/$forumId': typeof AuthenticatedCommunityForumsForumIdRoute
+  '/community/threads/$threadId': typeof AuthenticatedCommunityThreadsThreadIdRoute
+  '/admin': typeof AuthenticatedAdminAdminIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
   '/_authenticated': typeof AuthenticatedRouteRouteWithChildren
   '/login': typeof LoginRoute
+  '/_authenticated/_admin': typeof AuthenticatedAdminRouteRouteWithChildren
   '/_authenticated/dashboard': typeof AuthenticatedDashboardRoute
+  '/_authenticated/locations': typeof AuthenticatedLocationsRoute
+  '/_authenticated/marketplace': typeof AuthenticatedMarketplaceRoute
+  '/_authenticated/search': typeof AuthenticatedSearchRoute
   '/auth/callback': typeof AuthCallbackRoute
+  '/_authenticated/messages/$userId': typeof AuthenticatedMessagesUserIdRoute
+  '/_authenticated/profile/blocked': typeof AuthenticatedProfileBlockedRoute
+  '/_authenticated/profile/businesses': typeof AuthenticatedProfileBusinessesRoute
+  '/_authenticated/profile/household': typeof AuthenticatedProfileHouseholdRoute
+  '/_authenticated/_admin/admin/categories': typeof AuthenticatedAdminAdminCategoriesRoute
+  '/_authenticated/_admin/admin/cleanup': typeof AuthenticatedAdminAdminCleanupRoute
+  '/_authenticated/_admin/admin/locations': typeof AuthenticatedAdminAdminLocationsRoute
+  '/_authenticated/_admin/admin/moderation': typeof AuthenticatedAdminAdminModerationRoute
+  '/_authenticated/_admin/admin/profiles': typeof AuthenticatedAdminAdminProfilesRoute
+  '/_authenticated/_admin/admin/reports': typeof AuthenticatedAdminAdminReportsRoute
+  '/_authenticated/community/forums/$forumId': typeof AuthenticatedCommunityForumsForumIdRoute
+  '/_authenticated/community/threads/$threadId': typeof AuthenticatedCommunityThreadsThreadIdRoute
+  '/_authenticated/_admin/admin/': typeof AuthenticatedAdminAdminIndexRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/login' | '/dashboard' | '/auth/callback'
+  fullPaths:
+    | '/'
+    | '/login'
+    | '/dashboard'
+    | '/locations'
+    | '/marketplace'
+    | '/search'
+    | '/auth/callback'
+    | '/messages/$userId'
+    | '/profile/blocked'
+    | '/profile/businesses'
+    | '/profile/household'
+    | '/admin/categories'
+    | '/admin/cleanup'
+    | '/admin/locations'
+    | '/admin/moderation'
+    | '/admin/profiles'
+    | '/admin/reports'
+    | '/community/forums/$forumId'
+    | '/community/threads/$threadId'
+    | '/admin'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/login' | '/dashboard' | '/auth/callback'
+  to:
+    | '/'
+    | '/login'
+    | '/dashboard'
+    | '/locations'
+    | '/marketplace'
+    | '/search'
+    | '/auth/callback'
+    | '/messages/$userId'
+    | '/profile/blocked'
+    | '/profile/businesses'
+    | '/profile/household'
+    | '/admin/categories'
+    | '/admin/cleanup'
+    | '/admin/locations'
+    | '/admin/moderation'
+    | '/admin/profiles'
+    | '/admin/reports'
+    | '/community/forums/$forumId'
+    | '/community/threads/$threadId'
+    | '/admin'
   id:
     | '__root__'
     | '/'
     | '/_authenticated'
     | '/login'
+    | '/_authenticated/_admin'
     | '/_authenticated/dashboard'
+    | '/_authenticated/locations'
+    | '/_authenticated/marketplace'
+    | '/_authenticated/search'
     | '/auth/callback'
+    | '/_authenticated/messages/$userId'
+    | '/_authenticated/profile/blocked'
+    | '/_authenticated/profile/businesses'
+    | '/_authenticated/profile/household'
+    | '/_authenticated/_admin/admin/categories'
+    | '/_authenticated/_admin/admin/cleanup'
+    | '/_authenticated/_admin/admin/locations'
+    | '/_authenticated/_admin/admin/moderation'
+    | '/_authenticated/_admin/admin/profiles'
+    | '/_authenticated/_admin/admin/reports'
+    | '/_authenticated/community/forums/$forumId'
+    | '/_authenticated/community/threads/$threadId'
+    | '/_authenticated/_admin/admin/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -111,6 +332,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthCallbackRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/_authenticated/search': {
+      id: '/_authenticated/search'
+      path: '/search'
+      fullPath: '/search'
+      preLoaderRoute: typeof AuthenticatedSearchRouteImport
+      parentRoute: typeof AuthenticatedRouteRoute
+    }
+    '/_authenticated/marketplace': {
+      id: '/_authenticated/marketplace'
+      path: '/marketplace'
+      fullPath: '/marketplace'
+      preLoaderRoute: typeof AuthenticatedMarketplaceRouteImport
+      parentRoute: typeof AuthenticatedRouteRoute
+    }
+    '/_authenticated/locations': {
+      id: '/_authenticated/locations'
+      path: '/locations'
+      fullPath: '/locations'
+      preLoaderRoute: typeof AuthenticatedLocationsRouteImport
+      parentRoute: typeof AuthenticatedRouteRoute
+    }
     '/_authenticated/dashboard': {
       id: '/_authenticated/dashboard'
       path: '/dashboard'
@@ -118,15 +360,164 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedDashboardRouteImport
       parentRoute: typeof AuthenticatedRouteRoute
     }
+    '/_authenticated/_admin': {
+      id: '/_authenticated/_admin'
+      path: ''
+      fullPath: ''
+      preLoaderRoute: typeof AuthenticatedAdminRouteRouteImport
+      parentRoute: typeof AuthenticatedRouteRoute
+    }
+    '/_authenticated/profile/household': {
+      id: '/_authenticated/profile/household'
+      path: '/profile/household'
+      fullPath: '/profile/household'
+      preLoaderRoute: typeof AuthenticatedProfileHouseholdRouteImport
+      parentRoute: typeof AuthenticatedRouteRoute
+    }
+    '/_authenticated/profile/businesses': {
+      id: '/_authenticated/profile/businesses'
+      path: '/profile/businesses'
+      fullPath: '/profile/businesses'
+      preLoaderRoute: typeof AuthenticatedProfileBusinessesRouteImport
+      parentRoute: typeof AuthenticatedRouteRoute
+    }
+    '/_authenticated/profile/blocked': {
+      id: '/_authenticated/profile/blocked'
+      path: '/profile/blocked'
+      fullPath: '/profile/blocked'
+      preLoaderRoute: typeof AuthenticatedProfileBlockedRouteImport
+      parentRoute: typeof AuthenticatedRouteRoute
+    }
+    '/_authenticated/messages/$userId': {
+      id: '/_authenticated/messages/$userId'
+      path: '/messages/$userId'
+      fullPath: '/messages/$userId'
+      preLoaderRoute: typeof AuthenticatedMessagesUserIdRouteImport
+      parentRoute: typeof AuthenticatedRouteRoute
+    }
+    '/_authenticated/_admin/admin/': {
+      id: '/_authenticated/_admin/admin/'
+      path: '/admin'
+      fullPath: '/admin'
+      preLoaderRoute: typeof AuthenticatedAdminAdminIndexRouteImport
+      parentRoute: typeof AuthenticatedAdminRouteRoute
+    }
+    '/_authenticated/community/threads/$threadId': {
+      id: '/_authenticated/community/threads/$threadId'
+      path: '/community/threads/$threadId'
+      fullPath: '/community/threads/$threadId'
+      preLoaderRoute: typeof AuthenticatedCommunityThreadsThreadIdRouteImport
+      parentRoute: typeof AuthenticatedRouteRoute
+    }
+    '/_authenticated/community/forums/$forumId': {
+      id: '/_authenticated/community/forums/$forumId'
+      path: '/community/forums/$forumId'
+      fullPath: '/community/forums/$forumId'
+      preLoaderRoute: typeof AuthenticatedCommunityForumsForumIdRouteImport
+      parentRoute: typeof AuthenticatedRouteRoute
+    }
+    '/_authenticated/_admin/admin/reports': {
+      id: '/_authenticated/_admin/admin/reports'
+      path: '/admin/reports'
+      fullPath: '/admin/reports'
+      preLoaderRoute: typeof AuthenticatedAdminAdminReportsRouteImport
+      parentRoute: typeof AuthenticatedAdminRouteRoute
+    }
+    '/_authenticated/_admin/admin/profiles': {
+      id: '/_authenticated/_admin/admin/profiles'
+      path: '/admin/profiles'
+      fullPath: '/admin/profiles'
+      preLoaderRoute: typeof AuthenticatedAdminAdminProfilesRouteImport
+      parentRoute: typeof AuthenticatedAdminRouteRoute
+    }
+    '/_authenticated/_admin/admin/moderation': {
+      id: '/_authenticated/_admin/admin/moderation'
+      path: '/admin/moderation'
+      fullPath: '/admin/moderation'
+      preLoaderRoute: typeof AuthenticatedAdminAdminModerationRouteImport
+      parentRoute: typeof AuthenticatedAdminRouteRoute
+    }
+    '/_authenticated/_admin/admin/locations': {
+      id: '/_authenticated/_admin/admin/locations'
+      path: '/admin/locations'
+      fullPath: '/admin/locations'
+      preLoaderRoute: typeof AuthenticatedAdminAdminLocationsRouteImport
+      parentRoute: typeof AuthenticatedAdminRouteRoute
+    }
+    '/_authenticated/_admin/admin/cleanup': {
+      id: '/_authenticated/_admin/admin/cleanup'
+      path: '/admin/cleanup'
+      fullPath: '/admin/cleanup'
+      preLoaderRoute: typeof AuthenticatedAdminAdminCleanupRouteImport
+      parentRoute: typeof AuthenticatedAdminRouteRoute
+    }
+    '/_authenticated/_admin/admin/categories': {
+      id: '/_authenticated/_admin/admin/categories'
+      path: '/admin/categories'
+      fullPath: '/admin/categories'
+      preLoaderRoute: typeof AuthenticatedAdminAdminCategoriesRouteImport
+      parentRoute: typeof AuthenticatedAdminRouteRoute
+    }
   }
 }
 
+interface AuthenticatedAdminRouteRouteChildren {
+  AuthenticatedAdminAdminCategoriesRoute: typeof AuthenticatedAdminAdminCategoriesRoute
+  AuthenticatedAdminAdminCleanupRoute: typeof AuthenticatedAdminAdminCleanupRoute
+  AuthenticatedAdminAdminLocationsRoute: typeof AuthenticatedAdminAdminLocationsRoute
+  AuthenticatedAdminAdminModerationRoute: typeof AuthenticatedAdminAdminModerationRoute
+  AuthenticatedAdminAdminProfilesRoute: typeof AuthenticatedAdminAdminProfilesRoute
+  AuthenticatedAdminAdminReportsRoute: typeof AuthenticatedAdminAdminReportsRoute
+  AuthenticatedAdminAdminIndexRoute: typeof AuthenticatedAdminAdminIndexRoute
+}
+
+const AuthenticatedAdminRouteRouteChildren: AuthenticatedAdminRouteRouteChildren =
+  {
+    AuthenticatedAdminAdminCategoriesRoute:
+      AuthenticatedAdminAdminCategoriesRoute,
+    AuthenticatedAdminAdminCleanupRoute: AuthenticatedAdminAdminCleanupRoute,
+    AuthenticatedAdminAdminLocationsRoute:
+      AuthenticatedAdminAdminLocationsRoute,
+    AuthenticatedAdminAdminModerationRoute:
+      AuthenticatedAdminAdminModerationRoute,
+    AuthenticatedAdminAdminProfilesRoute: AuthenticatedAdminAdminProfilesRoute,
+    AuthenticatedAdminAdminReportsRoute: AuthenticatedAdminAdminReportsRoute,
+    AuthenticatedAdminAdminIndexRoute: AuthenticatedAdminAdminIndexRoute,
+  }
+
+const AuthenticatedAdminRouteRouteWithChildren =
+  AuthenticatedAdminRouteRoute._addFileChildren(
+    AuthenticatedAdminRouteRouteChildren,
+  )
+
 interface AuthenticatedRouteRouteChildren {
+  AuthenticatedAdminRouteRoute: typeof AuthenticatedAdminRouteRouteWithChildren
   AuthenticatedDashboardRoute: typeof AuthenticatedDashboardRoute
+  AuthenticatedLocationsRoute: typeof AuthenticatedLocationsRoute
+  AuthenticatedMarketplaceRoute: typeof AuthenticatedMarketplaceRoute
+  AuthenticatedSearchRoute: typeof AuthenticatedSearchRoute
+  AuthenticatedMessagesUserIdRoute: typeof AuthenticatedMessagesUserIdRoute
+  AuthenticatedProfileBlockedRoute: typeof AuthenticatedProfileBlockedRoute
+  AuthenticatedProfileBusinessesRoute: typeof AuthenticatedProfileBusinessesRoute
+  AuthenticatedProfileHouseholdRoute: typeof AuthenticatedProfileHouseholdRoute
+  AuthenticatedCommunityForumsForumIdRoute: typeof AuthenticatedCommunityForumsForumIdRoute
+  AuthenticatedCommunityThreadsThreadIdRoute: typeof AuthenticatedCommunityThreadsThreadIdRoute
 }
 
 const AuthenticatedRouteRouteChildren: AuthenticatedRouteRouteChildren = {
+  AuthenticatedAdminRouteRoute: AuthenticatedAdminRouteRouteWithChildren,
   AuthenticatedDashboardRoute: AuthenticatedDashboardRoute,
+  AuthenticatedLocationsRoute: AuthenticatedLocationsRoute,
+  AuthenticatedMarketplaceRoute: AuthenticatedMarketplaceRoute,
+  AuthenticatedSearchRoute: AuthenticatedSearchRoute,
+  AuthenticatedMessagesUserIdRoute: AuthenticatedMessagesUserIdRoute,
+  AuthenticatedProfileBlockedRoute: AuthenticatedProfileBlockedRoute,
+  AuthenticatedProfileBusinessesRoute: AuthenticatedProfileBusinessesRoute,
+  AuthenticatedProfileHouseholdRoute: AuthenticatedProfileHouseholdRoute,
+  AuthenticatedCommunityForumsForumIdRoute:
+    AuthenticatedCommunityForumsForumIdRoute,
+  AuthenticatedCommunityThreadsThreadIdRoute:
+    AuthenticatedCommunityThreadsThreadIdRoute,
 }
 
 const AuthenticatedRouteRouteWithChildren =
@@ -1,14 +1,18 @@
 import { Outlet, createRootRouteWithContext } from '@tanstack/react-router'
+import { NotificationCenter } from '../components/layout/notification-center'
+import type { QueryClient } from '@tanstack/react-query'
 import type { User } from '@supabase/supabase-js'
 
 interface MyRouterContext {
   auth: User | null
+  queryClient: QueryClient
 }
 
 export const Route = createRootRouteWithContext<MyRouterContext>()({
   component: () => (
     <>
       <Outlet />
+      <NotificationCenter />
     </>
   ),
 })
@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import {
+  useAllServiceCategories,
+  useBulkToggleServiceCategoriesStatus,
+  useCreateServiceCategory,
+  useDeleteServiceCategory,
+  useUpdateServiceCategory,
+} from '@/hooks/use-service-categories'
+import {
+  useAllBusinessInsideCategories,
+  useCreateBusinessInsideCategory,
+  useDeleteBusinessInsideCategory,
+  useUpdateBusinessInsideCategory,
+} from '@/hooks/use-business-inside-categories'
+import {
+  useAllBusinessOutsideCategories,
+  useCreateBusinessOutsideCategory,
+  useDeleteBusinessOutsideCategory,
+  useUpdateBusinessOutsideCategory,
+} from '@/hooks/use-business-outside-categories'
+import { CategoryManager } from '@/components/admin/category-manager'
+
+export const Route = createFileRoute('/_authenticated/_admin/admin/categories')(
+  {
+    component: AdminCategoriesPage,
+  },
+)
+
+const categoryKinds = [
+  { value: 'services', label: 'Services' },
+  { value: 'business-inside', label: 'Businesses inside' },
+  { value: 'business-outside', label: 'Businesses outside' },
+] as const
+
+type CategoryKind = (typeof categoryKinds)[number]['value']
+
+function AdminCategoriesPage() {
+  const [kind, setKind] = useState<CategoryKind>('services')
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-1 rounded-lg bg-gray-100 p-1">
+        {categoryKinds.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setKind(option.value)}
+            className={`flex-1 rounded-md px-2 py-1.5 text-xs font-medium ${
+              kind === option.value
+                ? 'bg-white text-gray-900 shadow-sm'
+                : 'text-gray-500'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {kind === 'services' && <ServiceCategoriesManager />}
+      {kind === 'business-inside' && <BusinessInsideCategoriesManager />}
+      {kind === 'business-outside' && <BusinessOutsideCategoriesManager />}
+    </div>
+  )
+}
+
+function ServiceCategoriesManager() {
+  const { data, isLoading } = useAllServiceCategories()
+  const createCategory = useCreateServiceCategory()
+  const updateCategory = useUpdateServiceCategory()
+  const deleteCategory = useDeleteServiceCategory()
+  const bulkToggle = useBulkToggleServiceCategoriesStatus()
+
+  return (
+    <CategoryManager
+      categories={data?.data ?? []}
+      isLoading={isLoading}
+      onCreate={(values) => createCategory.mutate(values)}
+      onUpdate={(id, values) => updateCategory.mutate({ id, ...values })}
+      onToggleActive={(id, isActive) =>
+        updateCategory.mutate({ id, is_active: isActive })
+      }
+      onDelete={(id) => deleteCategory.mutate(id)}
+      onBulkToggleActive={(ids, isActive) =>
+        bulkToggle.mutate({ ids, isActive })
+      }
+    />
+  )
+}
+
+function BusinessInsideCategoriesManager() {
+  const { data, isLoading } = useAllBusinessInsideCategories()
+  const createCategory = useCreateBusinessInsideCategory()
+  const updateCategory = useUpdateBusinessInsideCategory()
+  const deleteCategory = useDeleteBusinessInsideCategory()
+
+  return (
+    <CategoryManager
+      categories={data?.data ?? []}
+      isLoading={isLoading}
+      onCreate={(values) => createCategory.mutate(values)}
+      onUpdate={(id, values) => updateCategory.mutate({ id, ...values })}
+      onToggleActive={(id, isActive) =>
+        updateCategory.mutate({ id, is_active: isActive })
+      }
+      onDelete={(id) => deleteCategory.mutate(id)}
+    />
+  )
+}
+
+function BusinessOutsideCategoriesManager() {
+  const { data, isLoading } = useAllBusinessOutsideCategories()
+  const createCategory = useCreateBusinessOutsideCategory()
+  const updateCategory = useUpdateBusinessOutsideCategory()
+  const deleteCategory = useDeleteBusinessOutsideCategory()
+
+  return (
+    <CategoryManager
+      categories={data?.data ?? []}
+      isLoading={isLoading}
+      onCreate={(values) => createCategory.mutate(values)}
+      onUpdate={(id, values) => updateCategory.mutate({ id, ...values })}
+      onToggleActive={(id, isActive) =>
+        updateCategory.mutate({ id, is_active: isActive })
+      }
+      onDelete={(id) => deleteCategory.mutate(id)}
+    />
+  )
+}
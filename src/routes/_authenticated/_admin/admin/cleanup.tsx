@@ -0,0 +1,144 @@
+import { useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import { ArrowPathIcon } from '@heroicons/react/24/outline'
+import {
+  useCleanupStatistics,
+  useCoordinatedCleanup,
+} from '@/hooks/use-messages-header'
+import {
+  useCoinReconciliation,
+  useReconcileCoinBalances,
+} from '@/hooks/use-coin-ledger'
+import { Button } from '@/components/ui/button'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+
+export const Route = createFileRoute('/_authenticated/_admin/admin/cleanup')({
+  component: AdminCleanupPage,
+})
+
+function AdminCleanupPage() {
+  const {
+    data: statistics,
+    isLoading,
+    refetch: refetchStatistics,
+  } = useCleanupStatistics()
+  const coordinatedCleanup = useCoordinatedCleanup()
+
+  const [isCheckingBalances, setIsCheckingBalances] = useState(false)
+  const { data: mismatches, isFetching: isReconciling } = useCoinReconciliation(
+    undefined,
+    isCheckingBalances,
+  )
+  const reconcileBalances = useReconcileCoinBalances()
+
+  const statisticCards = statistics
+    ? [
+        { label: 'Header messages', value: statistics.total_messages },
+        { label: 'Active', value: statistics.active_messages },
+        { label: 'Expired', value: statistics.expired_messages },
+        { label: 'Coins spent', value: statistics.total_coins_spent },
+      ]
+    : []
+
+  return (
+    <div className="space-y-6">
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Header message cleanup
+          </h2>
+          <button
+            type="button"
+            onClick={() => refetchStatistics()}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Refresh"
+          >
+            <ArrowPathIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            {statisticCards.map((card) => (
+              <div
+                key={card.label}
+                className="bg-white rounded-xl p-4 shadow-sm border border-gray-200"
+              >
+                <p className="text-2xl font-bold text-gray-900">{card.value}</p>
+                <p className="text-xs text-gray-500">{card.label}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          onClick={() =>
+            coordinatedCleanup.mutate(undefined, {
+              onSuccess: () => refetchStatistics(),
+            })
+          }
+          disabled={coordinatedCleanup.isPending}
+        >
+          {coordinatedCleanup.isPending
+            ? 'Cleaning up...'
+            : 'Clean up expired messages'}
+        </Button>
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Coin balance reconciliation
+        </h2>
+        <p className="text-sm text-gray-500">
+          Compares every balance with the coin ledger. Fixing appends a
+          reconciliation entry, the profile balance stays unchanged.
+        </p>
+
+        <Button
+          variant="outline"
+          onClick={() => setIsCheckingBalances(true)}
+          disabled={isReconciling}
+        >
+          {isReconciling ? 'Checking...' : 'Check balances'}
+        </Button>
+
+        {mismatches &&
+          (mismatches.length === 0 ? (
+            <p className="text-sm text-green-600">
+              All balances match the ledger
+            </p>
+          ) : (
+            <>
+              <ul className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+                {mismatches.map((mismatch) => (
+                  <li
+                    key={mismatch.profile_id}
+                    className="flex items-center justify-between p-3 text-sm"
+                  >
+                    <span className="text-gray-900">{mismatch.username}</span>
+                    <span className="text-gray-500">
+                      {mismatch.balance} vs {mismatch.ledger_balance} (
+                      {mismatch.difference > 0 ? '+' : ''}
+                      {mismatch.difference})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <Button
+                variant="destructive"
+                onClick={() => reconcileBalances.mutate(undefined)}
+                disabled={reconcileBalances.isPending}
+              >
+                Fix {mismatches.length} balance
+                {mismatches.length === 1 ? '' : 's'}
+              </Button>
+            </>
+          ))}
+      </section>
+    </div>
+  )
+}
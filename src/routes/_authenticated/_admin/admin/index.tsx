@@ -0,0 +1,7 @@
+import { createFileRoute, redirect } from '@tanstack/react-router'
+
+export const Route = createFileRoute('/_authenticated/_admin/admin/')({
+  beforeLoad: () => {
+    throw redirect({ to: '/admin/profiles' })
+  },
+})
@@ -0,0 +1,293 @@
+import { useRef, useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline'
+import type {
+  LocationImportAction,
+  LocationImportChange,
+  LocationImportFormat,
+  LocationImportIssue,
+  LocationImportRow,
+} from '@/services/location-import.service'
+import { locationImportService } from '@/services/location-import.service'
+import {
+  useApplyLocationImport,
+  useExportLocations,
+  usePreviewLocationImport,
+} from '@/hooks/use-location-import'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+
+export const Route = createFileRoute('/_authenticated/_admin/admin/locations')({
+  component: AdminLocationsPage,
+})
+
+// Issues and changes listed before the rest are summarized
+const MAX_LISTED = 50
+
+const actionVariants: Record<
+  LocationImportAction,
+  'success' | 'info' | 'secondary'
+> = {
+  create: 'success',
+  update: 'info',
+  unchanged: 'secondary',
+}
+
+const exportFiles: Record<
+  LocationImportFormat,
+  { name: string; type: string }
+> = {
+  csv: { name: 'locations.csv', type: 'text/csv' },
+  geojson: { name: 'locations.geojson', type: 'application/geo+json' },
+}
+
+function formatPoint(lat: number | null, lng: number | null) {
+  return lat !== null && lng !== null
+    ? `${lat.toFixed(6)}, ${lng.toFixed(6)}`
+    : 'no coordinates'
+}
+
+function downloadFile(content: string, format: LocationImportFormat) {
+  const file = exportFiles[format]
+  const url = URL.createObjectURL(new Blob([content], { type: file.type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = file.name
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function AdminLocationsPage() {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState<string>()
+  const [rows, setRows] = useState<Array<LocationImportRow>>([])
+  const [issues, setIssues] = useState<Array<LocationImportIssue>>([])
+
+  const previewImport = usePreviewLocationImport()
+  const applyImport = useApplyLocationImport()
+  const exportLocations = useExportLocations()
+
+  const changes = previewImport.data ?? []
+  const counts = changes.reduce<Record<LocationImportAction, number>>(
+    (total, change) => ({
+      ...total,
+      [change.action]: total[change.action] + 1,
+    }),
+    { create: 0, update: 0, unchanged: 0 },
+  )
+  const pendingChanges = changes.filter(
+    (change) => change.action !== 'unchanged',
+  )
+
+  const reset = () => {
+    setFileName(undefined)
+    setRows([])
+    setIssues([])
+    previewImport.reset()
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    reset()
+    setFileName(file.name)
+
+    const format: LocationImportFormat = /\.csv$/i.test(file.name)
+      ? 'csv'
+      : 'geojson'
+    const parsed = locationImportService.parseImport(await file.text(), format)
+
+    setRows(parsed.rows)
+    setIssues(parsed.issues)
+    if (!parsed.issues.length && parsed.rows.length) {
+      previewImport.mutate(parsed.rows)
+    }
+  }
+
+  const handleApply = () => {
+    applyImport.mutate(rows, { onSuccess: reset })
+  }
+
+  const handleExport = (format: LocationImportFormat) => {
+    exportLocations.mutate(format, {
+      onSuccess: (content) => downloadFile(content, format),
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-900">Import lots</h2>
+        <p className="text-sm text-gray-500">
+          CSV with a <code>block,lot,lat,lng,marker</code> header, or a GeoJSON
+          FeatureCollection of points with <code>block</code>, <code>lot</code>{' '}
+          and <code>marker</code> properties. GeoJSON features can carry the lot
+          boundary as a Polygon, alone or in a GeometryCollection with the
+          point. Existing lots are matched by block and lot; nothing is written
+          until you apply the preview.
+        </p>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => inputRef.current?.click()}>
+            <ArrowUpTrayIcon className="h-4 w-4" />
+            Choose file
+          </Button>
+          {fileName && (
+            <span className="truncate text-sm text-gray-600">{fileName}</span>
+          )}
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.json,.geojson,text/csv,application/geo+json,application/json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+
+        {issues.length > 0 && (
+          <div className="space-y-2 rounded-xl border border-red-200 bg-red-50 p-3">
+            <p className="text-sm font-medium text-red-700">
+              {issues.length} problem{issues.length === 1 ? '' : 's'} to fix
+              before importing
+            </p>
+            <ul className="space-y-1 text-xs text-red-600">
+              {issues.slice(0, MAX_LISTED).map((issue) => (
+                <li key={`${issue.line}-${issue.message}`}>
+                  Line {issue.line}: {issue.message}
+                </li>
+              ))}
+              {issues.length > MAX_LISTED && (
+                <li>and {issues.length - MAX_LISTED} more</li>
+              )}
+            </ul>
+          </div>
+        )}
+
+        {previewImport.isPending && (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        )}
+
+        {previewImport.data && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-3">
+              {(['create', 'update', 'unchanged'] as const).map((action) => (
+                <div
+                  key={action}
+                  className="bg-white rounded-xl p-4 shadow-sm border border-gray-200"
+                >
+                  <p className="text-2xl font-bold text-gray-900">
+                    {counts[action]}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {action === 'create'
+                      ? 'New lots'
+                      : action === 'update'
+                        ? 'Updated'
+                        : 'Unchanged'}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {pendingChanges.length > 0 && (
+              <ul className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+                {pendingChanges.slice(0, MAX_LISTED).map((change) => (
+                  <ChangeRow
+                    key={`${change.block}-${change.lot}`}
+                    change={change}
+                  />
+                ))}
+                {pendingChanges.length > MAX_LISTED && (
+                  <li className="p-3 text-xs text-gray-500">
+                    and {pendingChanges.length - MAX_LISTED} more
+                  </li>
+                )}
+              </ul>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                onClick={handleApply}
+                disabled={applyImport.isPending || !pendingChanges.length}
+              >
+                {applyImport.isPending
+                  ? 'Importing...'
+                  : `Apply ${pendingChanges.length} change${
+                      pendingChanges.length === 1 ? '' : 's'
+                    }`}
+              </Button>
+              <Button variant="outline" onClick={reset}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-900">Export lots</h2>
+        <p className="text-sm text-gray-500">
+          Every lot with its coordinates and marker, in the import formats. Lot
+          boundaries are only included in GeoJSON.
+        </p>
+        <div className="flex gap-2">
+          {(['csv', 'geojson'] as const).map((format) => (
+            <Button
+              key={format}
+              variant="outline"
+              onClick={() => handleExport(format)}
+              disabled={exportLocations.isPending}
+            >
+              <ArrowDownTrayIcon className="h-4 w-4" />
+              {format === 'csv' ? 'CSV' : 'GeoJSON'}
+            </Button>
+          ))}
+        </div>
+      </section>
+    </div>
+  )
+}
+
+function ChangeRow({ change }: { change: LocationImportChange }) {
+  const pointChanged =
+    change.action === 'update' &&
+    (change.lat !== change.previous_lat || change.lng !== change.previous_lng)
+  const markerChanged =
+    change.action === 'update' &&
+    change.marker_url !== change.previous_marker_url
+
+  return (
+    <li className="flex items-start justify-between gap-2 p-3 text-sm">
+      <div className="min-w-0">
+        <p className="font-medium text-gray-900">
+          Block {change.block}, Lot {change.lot}
+        </p>
+        {change.action === 'create' && (
+          <p className="text-xs text-gray-500">
+            {formatPoint(change.lat, change.lng)}
+          </p>
+        )}
+        {pointChanged && (
+          <p className="text-xs text-gray-500">
+            {formatPoint(change.previous_lat, change.previous_lng)} →{' '}
+            {formatPoint(change.lat, change.lng)}
+          </p>
+        )}
+        {markerChanged && (
+          <p className="truncate text-xs text-gray-500">
+            Marker: {change.marker_url}
+          </p>
+        )}
+        {change.boundary_changed && (
+          <p className="text-xs text-gray-500">Boundary updated</p>
+        )}
+      </div>
+      <Badge variant={actionVariants[change.action]}>{change.action}</Badge>
+    </li>
+  )
+}
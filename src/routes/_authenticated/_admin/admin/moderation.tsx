@@ -0,0 +1,290 @@
+import { useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import {
+  EyeIcon,
+  EyeSlashIcon,
+  MagnifyingGlassIcon,
+  StarIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline'
+import type { MarketplaceListingWithRelations } from '@/services/marketplace.service'
+import {
+  useMarketplaceListingDelete,
+  useMarketplaceListingUpdate,
+  useMarketplaceListingsList,
+  useToggleMarketplaceListingFeatured,
+  useUpdateMarketplaceListingStatus,
+} from '@/hooks/use-marketplace-listings'
+import {
+  useDeleteMessageHeader,
+  useMessagesHeaderList,
+} from '@/hooks/use-messages-header'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+export const Route = createFileRoute('/_authenticated/_admin/admin/moderation')(
+  {
+    component: AdminModerationPage,
+  },
+)
+
+type ListingStatus = 'available' | 'pending' | 'sold' | 'expired'
+
+const listingStatuses: Array<ListingStatus> = [
+  'available',
+  'pending',
+  'sold',
+  'expired',
+]
+
+function AdminModerationPage() {
+  const [tab, setTab] = useState<'listings' | 'messages'>('listings')
+  const [search, setSearch] = useState('')
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-1 rounded-lg bg-gray-100 p-1">
+        {(['listings', 'messages'] as const).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setTab(option)}
+            className={`flex-1 rounded-md px-2 py-1.5 text-xs font-medium ${
+              tab === option
+                ? 'bg-white text-gray-900 shadow-sm'
+                : 'text-gray-500'
+            }`}
+          >
+            {option === 'listings' ? 'Marketplace listings' : 'Header messages'}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative">
+        <MagnifyingGlassIcon className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+        <Input
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder="Search"
+          className="pl-9 bg-white"
+        />
+      </div>
+
+      {tab === 'listings' ? (
+        <ListingsModeration search={search.trim()} />
+      ) : (
+        <HeaderMessagesModeration search={search.trim()} />
+      )}
+    </div>
+  )
+}
+
+function ListingsModeration({ search }: { search: string }) {
+  const { data, isLoading } = useMarketplaceListingsList({
+    search: search || undefined,
+    includeExpired: true,
+    limit: 50,
+  })
+  const listings = data?.data ?? []
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-10">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  if (listings.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-10">No listings</p>
+    )
+  }
+
+  return (
+    <ul className="space-y-3">
+      {listings.map((listing) => (
+        <ListingModerationRow key={listing.id} listing={listing} />
+      ))}
+    </ul>
+  )
+}
+
+function ListingModerationRow({
+  listing,
+}: {
+  listing: MarketplaceListingWithRelations
+}) {
+  const updateStatus = useUpdateMarketplaceListingStatus()
+  const toggleFeatured = useToggleMarketplaceListingFeatured()
+  const updateListing = useMarketplaceListingUpdate()
+  const deleteListing = useMarketplaceListingDelete()
+
+  return (
+    <li className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium text-gray-900 truncate">{listing.title}</p>
+          <p className="text-xs text-gray-500">
+            {[
+              listing.profiles.username || listing.profiles.full_name,
+              listing.listing_type,
+              listing.price !== null &&
+                `${listing.price} ${listing.currency || ''}`,
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+        </div>
+        <div className="flex gap-1">
+          {listing.is_featured && <Badge variant="warning">Featured</Badge>}
+          {listing.hidden_at && <Badge variant="secondary">Hidden</Badge>}
+        </div>
+      </div>
+      {listing.description && (
+        <p className="text-sm text-gray-600 line-clamp-2">
+          {listing.description}
+        </p>
+      )}
+      <div className="flex items-center gap-3">
+        <Select
+          value={listing.status || 'available'}
+          onValueChange={(status: ListingStatus) =>
+            updateStatus.mutate({ id: listing.id, status })
+          }
+        >
+          <SelectTrigger className="w-32" size="sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {listingStatuses.map((status) => (
+              <SelectItem key={status} value={status}>
+                {status}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="ml-auto flex gap-3">
+          <button
+            type="button"
+            onClick={() =>
+              toggleFeatured.mutate({
+                id: listing.id,
+                is_featured: !listing.is_featured,
+              })
+            }
+            className={
+              listing.is_featured
+                ? 'text-yellow-500 hover:text-yellow-600'
+                : 'text-gray-400 hover:text-gray-600'
+            }
+            aria-label={listing.is_featured ? 'Unfeature' : 'Feature'}
+          >
+            <StarIcon className="h-5 w-5" />
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              updateListing.mutate({
+                id: listing.id,
+                hidden_at: listing.hidden_at ? null : new Date().toISOString(),
+              })
+            }
+            className="text-gray-400 hover:text-gray-600"
+            aria-label={listing.hidden_at ? 'Show' : 'Hide'}
+          >
+            {!listing.hidden_at ? (
+              <EyeSlashIcon className="h-5 w-5" />
+            ) : (
+              <EyeIcon className="h-5 w-5" />
+            )}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              if (window.confirm(`Delete "${listing.title}"?`)) {
+                deleteListing.mutate(listing.id)
+              }
+            }}
+            className="text-red-400 hover:text-red-600"
+            aria-label="Delete"
+          >
+            <TrashIcon className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+    </li>
+  )
+}
+
+function HeaderMessagesModeration({ search }: { search: string }) {
+  const { data, isLoading } = useMessagesHeaderList({
+    search: search || undefined,
+    includeExpired: true,
+    limit: 50,
+  })
+  const deleteMessage = useDeleteMessageHeader()
+  const messages = data?.data ?? []
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-10">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  if (messages.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-10">
+        No header messages
+      </p>
+    )
+  }
+
+  return (
+    <ul className="space-y-3">
+      {messages.map((message) => {
+        const isExpired =
+          !!message.expires_at && new Date(message.expires_at) < new Date()
+
+        return (
+          <li
+            key={message.id}
+            className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 flex items-start gap-3"
+          >
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="text-sm text-gray-900">{message.message}</p>
+              <p className="text-xs text-gray-500">
+                {message.coins_spent ?? 0} coins ·{' '}
+                {message.created_at &&
+                  new Date(message.created_at).toLocaleString()}
+              </p>
+            </div>
+            {isExpired && <Badge variant="secondary">Expired</Badge>}
+            <button
+              type="button"
+              onClick={() => {
+                if (window.confirm('Delete this header message?')) {
+                  deleteMessage.mutate(message.id)
+                }
+              }}
+              className="text-red-400 hover:text-red-600"
+              aria-label="Delete"
+            >
+              <TrashIcon className="h-5 w-5" />
+            </button>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,214 @@
+import { useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline'
+import type { Profile } from '@/lib/database-types'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  useAdminUpdateProfile,
+  useProfilesList,
+  useUpdateProfileCoins,
+} from '@/hooks/use-profiles'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+export const Route = createFileRoute('/_authenticated/_admin/admin/profiles')({
+  component: AdminProfilesPage,
+})
+
+const PAGE_SIZE = 20
+
+type ProfileScope = 'all' | 'admins' | 'onboarding'
+
+function AdminProfilesPage() {
+  const [search, setSearch] = useState('')
+  const [scope, setScope] = useState<ProfileScope>('all')
+  const [page, setPage] = useState(0)
+
+  const { data, isLoading } = useProfilesList({
+    search: search.trim() || undefined,
+    is_admin: scope === 'admins' ? true : undefined,
+    onboarding_completed: scope === 'onboarding' ? false : undefined,
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE,
+  })
+
+  const profiles = data?.data ?? []
+  const total = data?.count ?? 0
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <MagnifyingGlassIcon className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+          <Input
+            value={search}
+            onChange={(event) => {
+              setSearch(event.target.value)
+              setPage(0)
+            }}
+            placeholder="Search name or username"
+            className="pl-9 bg-white"
+          />
+        </div>
+        <Select
+          value={scope}
+          onValueChange={(value: ProfileScope) => {
+            setScope(value)
+            setPage(0)
+          }}
+        >
+          <SelectTrigger className="w-40 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All profiles</SelectItem>
+            <SelectItem value="admins">Admins</SelectItem>
+            <SelectItem value="onboarding">Onboarding pending</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <LoadingSpinner />
+        </div>
+      ) : profiles.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-10">
+          No profiles found
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {profiles.map((profile) => (
+            <AdminProfileRow key={profile.id} profile={profile} />
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between text-sm text-gray-500">
+        <span>
+          {total} profile{total === 1 ? '' : 's'}
+        </span>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setPage((current) => current - 1)}
+            disabled={page === 0}
+          >
+            Previous
+          </Button>
+          <span>
+            {page + 1} / {pageCount}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setPage((current) => current + 1)}
+            disabled={page + 1 >= pageCount}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function AdminProfileRow({ profile }: { profile: Profile }) {
+  const { user } = useAuth()
+  const adminUpdateProfile = useAdminUpdateProfile()
+  const updateProfileCoins = useUpdateProfileCoins()
+  const [coins, setCoins] = useState(String(profile.coins))
+
+  const isSelf = profile.id === user?.id
+  const isSuspended = !!profile.deleted_at
+  const parsedCoins = Number(coins)
+  const coinsChanged =
+    Number.isInteger(parsedCoins) &&
+    parsedCoins >= 0 &&
+    parsedCoins !== profile.coins
+
+  return (
+    <li className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium text-gray-900 truncate">
+            {profile.full_name || profile.username || 'Unnamed resident'}
+          </p>
+          <p className="text-xs text-gray-500 truncate">
+            {[profile.username && `@${profile.username}`, profile.email]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+        </div>
+        <div className="flex flex-wrap justify-end gap-1">
+          {profile.is_admin && <Badge variant="info">Admin</Badge>}
+          {isSuspended && <Badge variant="destructive">Suspended</Badge>}
+          {!profile.onboarding_completed && (
+            <Badge variant="warning">Onboarding</Badge>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          type="number"
+          min={0}
+          step={1}
+          value={coins}
+          onChange={(event) => setCoins(event.target.value)}
+          className="w-24"
+          aria-label="Coins"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() =>
+            updateProfileCoins.mutate({ id: profile.id, coins: parsedCoins })
+          }
+          disabled={!coinsChanged || updateProfileCoins.isPending}
+        >
+          Set coins
+        </Button>
+        <div className="ml-auto flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              adminUpdateProfile.mutate({
+                id: profile.id,
+                is_admin: !profile.is_admin,
+              })
+            }
+            disabled={isSelf || adminUpdateProfile.isPending}
+          >
+            {profile.is_admin ? 'Revoke admin' : 'Make admin'}
+          </Button>
+          <Button
+            size="sm"
+            variant={isSuspended ? 'outline' : 'destructive'}
+            onClick={() =>
+              adminUpdateProfile.mutate({
+                id: profile.id,
+                deleted_at: isSuspended ? null : new Date().toISOString(),
+              })
+            }
+            disabled={isSelf || adminUpdateProfile.isPending}
+          >
+            {isSuspended ? 'Restore' : 'Suspend'}
+          </Button>
+        </div>
+      </div>
+    </li>
+  )
+}
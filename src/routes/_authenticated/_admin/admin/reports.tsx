@@ -0,0 +1,290 @@
+import { useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import type {
+  ContentReportWithRelations,
+  ModerationActionType,
+  ReportStatus,
+  ReportableContentType,
+} from '@/services/moderation.service'
+import {
+  useContentReports,
+  useModerateReport,
+  useModerationActions,
+} from '@/hooks/use-moderation'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+export const Route = createFileRoute('/_authenticated/_admin/admin/reports')({
+  component: AdminReportsPage,
+})
+
+const PAGE_SIZE = 20
+
+const contentTypeLabels: Record<ReportableContentType, string> = {
+  chat: 'Chat message',
+  threads: 'Forum thread',
+  thread_posts: 'Forum reply',
+  marketplace_listings: 'Marketplace listing',
+  messages_header: 'Header message',
+}
+
+const actionLabels: Record<ModerationActionType, string> = {
+  dismiss: 'Dismissed',
+  hide_content: 'Content hidden',
+  warn_user: 'Author warned',
+  suspend_profile: 'Author suspended',
+}
+
+function AdminReportsPage() {
+  const [status, setStatus] = useState<ReportStatus>('pending')
+  const [contentType, setContentType] = useState<ReportableContentType | 'all'>(
+    'all',
+  )
+  const [page, setPage] = useState(0)
+
+  const { data, isLoading } = useContentReports({
+    status,
+    contentType: contentType === 'all' ? undefined : contentType,
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE,
+  })
+
+  const reports = data?.data ?? []
+  const total = data?.count ?? 0
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <div className="flex flex-1 gap-1 rounded-lg bg-gray-100 p-1">
+          {(['pending', 'actioned', 'dismissed'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => {
+                setStatus(option)
+                setPage(0)
+              }}
+              className={`flex-1 rounded-md px-2 py-1.5 text-xs font-medium capitalize ${
+                status === option
+                  ? 'bg-white text-gray-900 shadow-sm'
+                  : 'text-gray-500'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <Select
+          value={contentType}
+          onValueChange={(value: ReportableContentType | 'all') => {
+            setContentType(value)
+            setPage(0)
+          }}
+        >
+          <SelectTrigger className="w-40 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All content</SelectItem>
+            {Object.entries(contentTypeLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <LoadingSpinner />
+        </div>
+      ) : reports.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-10">
+          No {status} reports
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {reports.map((report) => (
+            <ReportRow key={report.id} report={report} />
+          ))}
+        </ul>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm text-gray-500">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setPage((current) => current - 1)}
+            disabled={page === 0}
+          >
+            Previous
+          </Button>
+          <span>
+            {page + 1} / {pageCount}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setPage((current) => current + 1)}
+            disabled={page + 1 >= pageCount}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ReportRow({ report }: { report: ContentReportWithRelations }) {
+  const moderateReport = useModerateReport()
+  const [note, setNote] = useState('')
+  const [showHistory, setShowHistory] = useState(false)
+
+  const author = report.reported_profile
+  const isPending = report.status === 'pending'
+
+  const moderate = (action: ModerationActionType) => {
+    if (
+      action === 'suspend_profile' &&
+      !window.confirm(`Suspend ${author?.username || 'this resident'}?`)
+    ) {
+      return
+    }
+
+    moderateReport.mutate({ reportId: report.id, action, note })
+  }
+
+  return (
+    <li className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium text-gray-900">
+            {contentTypeLabels[report.content_type as ReportableContentType]}
+          </p>
+          <p className="text-xs text-gray-500">
+            by {author?.username || author?.full_name || 'deleted profile'} ·
+            reported by {report.reporter?.username || 'unknown'} ·{' '}
+            {new Date(report.created_at).toLocaleString()}
+          </p>
+        </div>
+        <div className="flex flex-wrap justify-end gap-1">
+          <Badge variant="warning" className="capitalize">
+            {report.reason}
+          </Badge>
+          {author?.deleted_at && <Badge variant="destructive">Suspended</Badge>}
+        </div>
+      </div>
+
+      {report.content_snapshot && (
+        <p className="rounded-md bg-gray-50 p-3 text-sm text-gray-700 whitespace-pre-wrap line-clamp-6">
+          {report.content_snapshot}
+        </p>
+      )}
+      {report.details && (
+        <p className="text-sm text-gray-600">
+          <span className="font-medium">Reporter:</span> {report.details}
+        </p>
+      )}
+
+      {isPending ? (
+        <div className="space-y-2">
+          <Input
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Note (sent to the author with a warning)"
+            maxLength={500}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => moderate('dismiss')}
+              disabled={moderateReport.isPending}
+            >
+              Dismiss
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => moderate('hide_content')}
+              disabled={moderateReport.isPending}
+            >
+              Hide content
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => moderate('warn_user')}
+              disabled={!author || moderateReport.isPending}
+            >
+              Warn author
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={() => moderate('suspend_profile')}
+              disabled={
+                !author || !!author.deleted_at || moderateReport.isPending
+              }
+            >
+              Suspend author
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <button
+            type="button"
+            onClick={() => setShowHistory((open) => !open)}
+            className="text-xs font-medium text-blue-600 hover:text-blue-700"
+          >
+            {showHistory ? 'Hide history' : 'Show history'}
+          </button>
+          {showHistory && <ReportHistory reportId={report.id} />}
+        </div>
+      )}
+    </li>
+  )
+}
+
+function ReportHistory({ reportId }: { reportId: string }) {
+  const { data: actions, isLoading } = useModerationActions({ reportId })
+
+  if (isLoading) {
+    return <LoadingSpinner />
+  }
+
+  if (!actions?.length) {
+    return (
+      <p className="text-xs text-gray-500">
+        Resolved together with another report about the same content
+      </p>
+    )
+  }
+
+  return (
+    <ul className="space-y-1 text-xs text-gray-600">
+      {actions.map((action) => (
+        <li key={action.id}>
+          {actionLabels[action.action as ModerationActionType]} by{' '}
+          {action.admin?.username || 'an admin'} ·{' '}
+          {new Date(action.created_at).toLocaleString()}
+          {action.note && ` · ${action.note}`}
+        </li>
+      ))}
+    </ul>
+  )
+}
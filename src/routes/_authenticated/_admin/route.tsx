@@ -0,0 +1,68 @@
+import { Link, Outlet, createFileRoute, redirect } from '@tanstack/react-router'
+import {
+  ChartBarIcon,
+  FlagIcon,
+  MapIcon,
+  ShieldCheckIcon,
+  TagIcon,
+  UsersIcon,
+} from '@heroicons/react/24/outline'
+import { queryKeys } from '@/lib/query-keys'
+import { profileService } from '@/services/profile.service'
+
+// Hides the admin screens from residents, RLS (is_admin()) enforces access
+export const Route = createFileRoute('/_authenticated/_admin')({
+  beforeLoad: async ({ context }) => {
+    const userId = context.auth?.id
+    const profile = userId
+      ? await context.queryClient.ensureQueryData({
+          queryKey: queryKeys.profiles.detail(userId),
+          queryFn: () => profileService.getProfile(userId),
+          revalidateIfStale: true,
+        })
+      : null
+
+    if (!profile?.is_admin) {
+      throw redirect({ to: '/dashboard' })
+    }
+  },
+  component: AdminLayout,
+})
+
+const adminSections = [
+  { title: 'Profiles', icon: UsersIcon, to: '/admin/profiles' },
+  { title: 'Categories', icon: TagIcon, to: '/admin/categories' },
+  { title: 'Reports', icon: FlagIcon, to: '/admin/reports' },
+  { title: 'Moderation', icon: ShieldCheckIcon, to: '/admin/moderation' },
+  { title: 'Locations', icon: MapIcon, to: '/admin/locations' },
+  { title: 'Cleanup', icon: ChartBarIcon, to: '/admin/cleanup' },
+] as const
+
+function AdminLayout() {
+  return (
+    <div className="px-4 py-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Admin</h1>
+        <nav className="mt-4 flex gap-2 overflow-x-auto">
+          {adminSections.map((section) => {
+            const Icon = section.icon
+            return (
+              <Link
+                key={section.to}
+                to={section.to}
+                className="flex items-center gap-1 whitespace-nowrap rounded-full border border-gray-200 bg-white px-3 py-1.5 text-sm text-gray-600"
+                activeProps={{
+                  className: 'border-blue-500 bg-blue-50 text-blue-700',
+                }}
+              >
+                <Icon className="h-4 w-4" />
+                {section.title}
+              </Link>
+            )
+          })}
+        </nav>
+      </div>
+      <Outlet />
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react'
+import { Link, createFileRoute } from '@tanstack/react-router'
+import {
+  ChatBubbleLeftRightIcon,
+  ClockIcon,
+  PlusIcon,
+} from '@heroicons/react/24/outline'
+import { useAuth } from '@/contexts/AuthContext'
+import { useForum } from '@/hooks/use-forums'
+import { useCreateThread, useThreadsByForum } from '@/hooks/use-threads'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { Textarea } from '@/components/ui/textarea'
+
+export const Route = createFileRoute(
+  '/_authenticated/community/forums/$forumId',
+)({
+  component: ForumPage,
+})
+
+function ForumPage() {
+  const { forumId } = Route.useParams()
+  const { user } = useAuth()
+  const { data: forum } = useForum(forumId)
+  const { data: threads, isLoading } = useThreadsByForum(forumId)
+  const createThread = useCreateThread()
+
+  const [isComposing, setIsComposing] = useState(false)
+  const [title, setTitle] = useState('')
+  const [body, setBody] = useState('')
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!user || !title.trim()) return
+
+    createThread.mutate(
+      {
+        forum_id: forumId,
+        created_by: user.id,
+        title: title.trim(),
+        body: body.trim() || null,
+      },
+      {
+        onSuccess: () => {
+          setTitle('')
+          setBody('')
+          setIsComposing(false)
+        },
+      },
+    )
+  }
+
+  return (
+    <div className="px-4 py-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">
+          {forum?.title || 'Forum'}
+        </h1>
+        <Button size="sm" onClick={() => setIsComposing((open) => !open)}>
+          <PlusIcon className="h-4 w-4" />
+          New thread
+        </Button>
+      </div>
+
+      {isComposing && (
+        <form
+          onSubmit={handleCreate}
+          className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 space-y-3"
+        >
+          <Input
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            placeholder="Thread title"
+            maxLength={200}
+          />
+          <Textarea
+            value={body}
+            onChange={(event) => setBody(event.target.value)}
+            placeholder="What would you like to discuss?"
+            rows={4}
+          />
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!title.trim() || createThread.isPending}
+            >
+              Post thread
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : !threads || threads.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 py-8">
+          No threads yet, start the conversation!
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {threads.map((thread) => (
+            <li key={thread.id}>
+              <Link
+                to="/community/threads/$threadId"
+                params={{ threadId: thread.id }}
+                className="block bg-white rounded-xl p-4 shadow-sm border border-gray-200 hover:shadow-md transition-shadow"
+              >
+                <h2 className="font-medium text-gray-900">{thread.title}</h2>
+                <p className="text-xs text-gray-500 mt-1">
+                  by {thread.creator?.username || 'Unknown'}
+                </p>
+                <div className="flex items-center gap-4 mt-3 text-xs text-gray-500">
+                  <span className="flex items-center gap-1">
+                    <ChatBubbleLeftRightIcon className="h-4 w-4" />
+                    {thread.reply_count}{' '}
+                    {thread.reply_count === 1 ? 'reply' : 'replies'}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <ClockIcon className="h-4 w-4" />
+                    {new Date(thread.last_activity_at).toLocaleString()}
+                  </span>
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,329 @@
+import { useState } from 'react'
+import { Link, createFileRoute } from '@tanstack/react-router'
+import {
+  ArrowLeftIcon,
+  ChatBubbleBottomCenterTextIcon,
+  PencilIcon,
+  TrashIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline'
+import type { ThreadPostWithRelations } from '@/services/thread-post.service'
+import { useAuth } from '@/contexts/AuthContext'
+import { useThread } from '@/hooks/use-threads'
+import {
+  useCreateThreadPost,
+  useDeleteThreadPost,
+  useEditThreadPost,
+  useThreadPosts,
+} from '@/hooks/use-thread-posts'
+import { ReportButton } from '@/components/moderation/report-button'
+import { Button } from '@/components/ui/button'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { Textarea } from '@/components/ui/textarea'
+
+export const Route = createFileRoute(
+  '/_authenticated/community/threads/$threadId',
+)({
+  component: ThreadPage,
+})
+
+function ThreadPage() {
+  const { threadId } = Route.useParams()
+  const { user } = useAuth()
+  const { data: thread, isLoading: isThreadLoading } = useThread(threadId)
+  const {
+    data: postPages,
+    isLoading: arePostsLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useThreadPosts(threadId)
+  const createPost = useCreateThreadPost(threadId)
+
+  const [reply, setReply] = useState('')
+  const [quotedPost, setQuotedPost] = useState<ThreadPostWithRelations | null>(
+    null,
+  )
+
+  const posts = postPages?.pages.flatMap((page) => page.posts) ?? []
+
+  const handleReply = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!user || !reply.trim()) return
+
+    createPost.mutate(
+      {
+        author_id: user.id,
+        content: reply,
+        quoted_post_id: quotedPost?.id,
+      },
+      {
+        onSuccess: () => {
+          setReply('')
+          setQuotedPost(null)
+        },
+      },
+    )
+  }
+
+  if (isThreadLoading) {
+    return <LoadingSpinner fullScreen />
+  }
+
+  if (!thread) {
+    return (
+      <p className="px-4 py-6 text-center text-sm text-gray-500">
+        Thread not found
+      </p>
+    )
+  }
+
+  return (
+    <div className="px-4 py-6 space-y-6">
+      {thread.forum_id && (
+        <Link
+          to="/community/forums/$forumId"
+          params={{ forumId: thread.forum_id }}
+          className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeftIcon className="h-4 w-4" />
+          {thread.forum?.title || 'Back to forum'}
+        </Link>
+      )}
+
+      {/* Thread */}
+      <article className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <div className="flex items-start justify-between gap-2">
+          <h1 className="text-xl font-bold text-gray-900">{thread.title}</h1>
+          {thread.created_by !== user?.id && (
+            <ReportButton contentType="threads" contentId={thread.id} />
+          )}
+        </div>
+        {thread.hidden_at && (
+          <p className="text-xs font-medium text-red-600 mt-1">
+            Hidden by the moderators, residents no longer see this thread
+          </p>
+        )}
+        <p className="text-xs text-gray-500 mt-1">
+          by {thread.creator?.username || 'Unknown'}
+          {thread.created_at &&
+            ` · ${new Date(thread.created_at).toLocaleString()}`}
+        </p>
+        {thread.body && (
+          <p className="text-sm text-gray-700 mt-3 whitespace-pre-wrap">
+            {thread.body}
+          </p>
+        )}
+      </article>
+
+      {/* Replies */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold text-gray-900">
+          {thread.reply_count} {thread.reply_count === 1 ? 'reply' : 'replies'}
+        </h2>
+
+        {arePostsLoading ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          posts.map((post) => (
+            <ThreadPostItem
+              key={post.id}
+              post={post}
+              threadId={threadId}
+              isOwn={post.author_id === user?.id}
+              onQuote={() => setQuotedPost(post)}
+            />
+          ))
+        )}
+
+        {hasNextPage && (
+          <div className="flex justify-center">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? 'Loading...' : 'Load more replies'}
+            </Button>
+          </div>
+        )}
+      </section>
+
+      {/* Reply composer */}
+      <form
+        onSubmit={handleReply}
+        className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 space-y-3"
+      >
+        {quotedPost && (
+          <div className="flex items-start justify-between gap-2 rounded-md border-l-4 border-gray-300 bg-gray-50 px-3 py-2">
+            <p className="text-xs text-gray-600 line-clamp-2">
+              <span className="font-medium">
+                {quotedPost.author?.username || 'Unknown'}:
+              </span>{' '}
+              {quotedPost.content}
+            </p>
+            <button
+              type="button"
+              onClick={() => setQuotedPost(null)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Remove quote"
+            >
+              <XMarkIcon className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        <Textarea
+          value={reply}
+          onChange={(event) => setReply(event.target.value)}
+          placeholder="Write a reply..."
+          rows={3}
+        />
+        <div className="flex justify-end">
+          <Button
+            type="submit"
+            size="sm"
+            disabled={!reply.trim() || createPost.isPending}
+          >
+            Reply
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+interface ThreadPostItemProps {
+  post: ThreadPostWithRelations
+  threadId: string
+  isOwn: boolean
+  onQuote: () => void
+}
+
+function ThreadPostItem({
+  post,
+  threadId,
+  isOwn,
+  onQuote,
+}: ThreadPostItemProps) {
+  const editPost = useEditThreadPost(threadId)
+  const deletePost = useDeleteThreadPost(threadId)
+
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(post.content)
+
+  const handleSave = () => {
+    if (!draft.trim()) return
+    editPost.mutate({ id: post.id, content: draft })
+    setIsEditing(false)
+  }
+
+  if (post.deleted_at) {
+    return (
+      <div className="rounded-xl border border-dashed border-gray-200 p-4 text-sm italic text-gray-400">
+        This reply was deleted
+      </div>
+    )
+  }
+
+  return (
+    <article className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 space-y-2">
+      <p className="text-xs text-gray-500">
+        <span className="font-medium text-gray-900">
+          {post.author?.username || 'Unknown'}
+        </span>{' '}
+        · {new Date(post.created_at).toLocaleString()}
+        {post.is_edited && ' · edited'}
+      </p>
+
+      {post.quoted_post && (
+        <blockquote className="rounded-md border-l-4 border-gray-300 bg-gray-50 px-3 py-2 text-xs text-gray-600">
+          {post.quoted_post.deleted_at ? (
+            <span className="italic">Quoted reply was deleted</span>
+          ) : (
+            <>
+              <span className="font-medium">
+                {post.quoted_post.author?.username || 'Unknown'}:
+              </span>{' '}
+              <span className="line-clamp-3">{post.quoted_post.content}</span>
+            </>
+          )}
+        </blockquote>
+      )}
+
+      {isEditing ? (
+        <div className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            rows={3}
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setDraft(post.content)
+                setIsEditing(false)
+              }}
+            >
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!draft.trim()}>
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-700 whitespace-pre-wrap">
+          {post.content}
+        </p>
+      )}
+
+      {!isEditing && (
+        <div className="flex gap-3 text-xs text-gray-500">
+          <button
+            type="button"
+            onClick={onQuote}
+            className="flex items-center gap-1 hover:text-gray-900"
+          >
+            <ChatBubbleBottomCenterTextIcon className="h-4 w-4" />
+            Quote
+          </button>
+          {isOwn && (
+            <>
+              <button
+                type="button"
+                onClick={() => {
+                  setDraft(post.content)
+                  setIsEditing(true)
+                }}
+                className="flex items-center gap-1 hover:text-gray-900"
+              >
+                <PencilIcon className="h-4 w-4" />
+                Edit
+              </button>
+              <button
+                type="button"
+                onClick={() => deletePost.mutate(post.id)}
+                className="flex items-center gap-1 hover:text-red-600"
+              >
+                <TrashIcon className="h-4 w-4" />
+                Delete
+              </button>
+            </>
+          )}
+          {!isOwn && (
+            <ReportButton
+              contentType="thread_posts"
+              contentId={post.id}
+              className="ml-auto"
+            />
+          )}
+        </div>
+      )}
+    </article>
+  )
+}
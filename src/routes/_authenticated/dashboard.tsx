@@ -1,13 +1,23 @@
 import { createFileRoute } from '@tanstack/react-router'
 import {
   ArrowRightOnRectangleIcon,
+  BuildingStorefrontIcon,
   ChatBubbleLeftRightIcon,
   MapPinIcon,
+  NoSymbolIcon,
+  ShieldCheckIcon,
   ShoppingBagIcon,
   UserCircleIcon,
   UsersIcon,
 } from '@heroicons/react/24/outline'
 import { useAuth } from '@/contexts/AuthContext'
+import { useCurrentUserProfile } from '@/hooks/use-profiles'
+import { useMessagesHeaderList } from '@/hooks/use-messages-header'
+import {
+  useMarkAllNotificationsAsRead,
+  useUserNotifications,
+} from '@/hooks/use-user-notifications'
+import { ReportButton } from '@/components/moderation/report-button'
 
 export const Route = createFileRoute('/_authenticated/dashboard')({
   component: Dashboard,
@@ -16,6 +26,13 @@ export const Route = createFileRoute('/_authenticated/dashboard')({
 function Dashboard() {
   const { auth } = Route.useRouteContext()
   const { signOut } = useAuth()
+  const { data: profile } = useCurrentUserProfile()
+  const { data: notifications } = useUserNotifications(auth?.id, { limit: 5 })
+  const markAllAsRead = useMarkAllNotificationsAsRead()
+  const { data: headerMessages } = useMessagesHeaderList({ limit: 5 })
+  const hasUnread = !!notifications?.some(
+    (notification) => !notification.read_at,
+  )
 
   const handleSignOut = async () => {
     await signOut()
@@ -57,6 +74,31 @@ function Dashboard() {
       to: '/community',
       color: 'bg-pink-500',
     },
+    {
+      title: 'My Businesses',
+      description: 'Photos of your businesses and services',
+      icon: BuildingStorefrontIcon,
+      to: '/profile/businesses',
+      color: 'bg-teal-500',
+    },
+    {
+      title: 'Blocked Residents',
+      description: 'Manage who can reach you',
+      icon: NoSymbolIcon,
+      to: '/profile/blocked',
+      color: 'bg-red-500',
+    },
+    ...(profile?.is_admin
+      ? [
+          {
+            title: 'Admin',
+            description: 'Moderate profiles and content',
+            icon: ShieldCheckIcon,
+            to: '/admin',
+            color: 'bg-gray-700',
+          },
+        ]
+      : []),
   ]
 
   return (
@@ -109,12 +151,65 @@ function Dashboard() {
         </div>
       </div>
 
-      {/* Recent Activity Placeholder */}
+      {/* Village Board: active header messages */}
+      {!!headerMessages?.data.length && (
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">
+            Village Board
+          </h2>
+          <ul className="space-y-3">
+            {headerMessages.data.map((headerMessage) => (
+              <li
+                key={headerMessage.id}
+                className="flex items-start justify-between gap-2"
+              >
+                <p className="text-sm text-gray-700">{headerMessage.message}</p>
+                {headerMessage.user_id !== auth?.id && (
+                  <ReportButton
+                    contentType="messages_header"
+                    contentId={headerMessage.id}
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Recent Activity */}
       <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
-        <h2 className="text-lg font-semibold text-gray-900 mb-3">
-          Recent Activity
-        </h2>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Recent Activity
+          </h2>
+          {hasUnread && auth && (
+            <button
+              type="button"
+              onClick={() => markAllAsRead.mutate(auth.id)}
+              className="text-xs font-medium text-blue-600 hover:text-blue-700"
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
         <div className="space-y-3">
+          {notifications?.map((notification) => (
+            <div key={notification.id} className="flex space-x-3">
+              <div
+                className={`w-2 h-2 mt-1.5 shrink-0 rounded-full ${
+                  notification.read_at ? 'bg-gray-300' : 'bg-red-500'
+                }`}
+              ></div>
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {notification.title}
+                </p>
+                {notification.body && (
+                  <p className="text-sm text-gray-600">{notification.body}</p>
+                )}
+              </div>
+            </div>
+          ))}
           <div className="flex items-center space-x-3">
             <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
             <p className="text-sm text-gray-600">Welcome to GGV Connect! 🎉</p>
@@ -0,0 +1,144 @@
+import { useEffect, useMemo, useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import { MapPinIcon, ViewfinderCircleIcon } from '@heroicons/react/24/outline'
+import type {
+  LocationCoordinates,
+  LocationWithCoords,
+} from '@/services/geospatial.service'
+import { geospatialService } from '@/services/geospatial.service'
+import { useAuth } from '@/contexts/AuthContext'
+import { uiActions } from '@/lib/store'
+import {
+  useBlockOutlines,
+  useLocationAtPoint,
+  useLocationBoundaries,
+  useLocationsWithCoords,
+  useUserHomeLocation,
+} from '@/hooks/use-geospatial'
+import { LotPanel } from '@/components/map/lot-panel'
+import { VillageMap } from '@/components/map/village-map'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+
+export const Route = createFileRoute('/_authenticated/locations')({
+  component: LocationsMap,
+})
+
+function LocationsMap() {
+  const { user } = useAuth()
+  const { data: locations, isLoading, isError } = useLocationsWithCoords()
+  const { data: homeLocationId } = useUserHomeLocation(user?.id)
+  const { data: boundaries } = useLocationBoundaries()
+  const { data: blockOutlines } = useBlockOutlines()
+  const [selectedLocation, setSelectedLocation] =
+    useState<LocationWithCoords | null>(null)
+  const [position, setPosition] = useState<LocationCoordinates>()
+  const { data: lotAtPosition, isFetched: isPositionChecked } =
+    useLocationAtPoint(position?.lat, position?.lng)
+
+  // Lots without coordinates are placed on their boundary's marker, the
+  // others cannot be placed on the map
+  const mappedLocations = useMemo(() => {
+    const markers = new Map(
+      (boundaries || []).map((boundary) => [boundary.id, boundary.marker]),
+    )
+
+    return (locations || []).flatMap((location) => {
+      if (geospatialService.validateCoordinates(location.lat, location.lng)) {
+        return [location]
+      }
+      const marker = markers.get(location.id)
+      return marker ? [{ ...location, ...marker }] : []
+    })
+  }, [locations, boundaries])
+
+  // Select the lot the user is standing on once it is known
+  useEffect(() => {
+    if (!position || !isPositionChecked) return
+
+    const location = mappedLocations.find(
+      (item) => item.id === lotAtPosition?.id,
+    )
+    if (location) {
+      setSelectedLocation(location)
+    } else {
+      uiActions.addNotification({
+        type: 'info',
+        title: 'No lot here',
+        message: 'Your position is not inside a lot drawn on the map.',
+        duration: 3000,
+      })
+    }
+    setPosition(undefined)
+  }, [position, isPositionChecked, lotAtPosition, mappedLocations])
+
+  const handleLocate = () => {
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) =>
+        setPosition({ lat: coords.latitude, lng: coords.longitude }),
+      () =>
+        uiActions.addNotification({
+          type: 'error',
+          title: 'Location unavailable',
+          message: 'Allow location access to find the lot you are on.',
+          duration: 3000,
+        }),
+    )
+  }
+
+  const bounds = useMemo(
+    () => geospatialService.calculateMapBounds(mappedLocations),
+    [mappedLocations],
+  )
+
+  if (isLoading) {
+    return <LoadingSpinner fullScreen />
+  }
+
+  if (isError || !bounds) {
+    return (
+      <div className="flex flex-col items-center gap-2 px-4 py-12 text-center">
+        <MapPinIcon className="h-8 w-8 text-gray-400" />
+        <p className="text-sm text-gray-500">
+          {isError
+            ? 'The village map could not be loaded'
+            : 'No lots have been placed on the map yet'}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="relative h-screen w-full">
+      <VillageMap
+        locations={mappedLocations}
+        boundaries={boundaries}
+        blockOutlines={blockOutlines}
+        bounds={bounds}
+        homeLocationId={homeLocationId}
+        selectedLocationId={selectedLocation?.id}
+        onSelectLocation={setSelectedLocation}
+      />
+
+      <button
+        type="button"
+        onClick={handleLocate}
+        className="absolute right-3 top-3 z-[1000] flex items-center gap-1 rounded-full border border-gray-200 bg-white px-3 py-1.5 text-sm text-gray-700 shadow-sm"
+      >
+        <ViewfinderCircleIcon className="h-4 w-4" />
+        Which lot am I on?
+      </button>
+
+      {selectedLocation && (
+        <LotPanel
+          location={selectedLocation}
+          areaSqM={
+            boundaries?.find((boundary) => boundary.id === selectedLocation.id)
+              ?.area_sq_m
+          }
+          isHome={selectedLocation.id === homeLocationId}
+          onClose={() => setSelectedLocation(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,558 @@
+import { useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import {
+  ArrowPathIcon,
+  BellAlertIcon,
+  ClockIcon,
+  CurrencyDollarIcon,
+  MagnifyingGlassIcon,
+  PhotoIcon,
+  ShoppingBagIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline'
+import type {
+  MarketplaceFilters,
+  MarketplaceListingWithRelations,
+} from '@/services/marketplace.service'
+import type { Row } from '@/lib/database-types'
+import type { MarketplaceSavedSearch } from '@/services/marketplace-saved-search.service'
+import {
+  LISTING_DURATION_DAYS,
+  LISTING_RENEWAL_COST,
+  getListingExpiry,
+} from '@/services/marketplace.service'
+import { toSavedSearchFilters } from '@/services/marketplace-saved-search.service'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  useExpiringMarketplaceListings,
+  useMarketplaceListingPhotosUpdate,
+  useMarketplaceListingsList,
+  useRenewMarketplaceListing,
+} from '@/hooks/use-marketplace-listings'
+import {
+  useCreateMarketplaceSavedSearch,
+  useDeleteMarketplaceSavedSearch,
+  useMarketplaceSavedSearches,
+  useUpdateMarketplaceSavedSearch,
+} from '@/hooks/use-marketplace-saved-searches'
+import {
+  useListingOffers,
+  useProfileOffers,
+} from '@/hooks/use-marketplace-offers'
+import { CoinTransferDialog } from '@/components/coins/coin-transfer-dialog'
+import { OfferDialog } from '@/components/marketplace/offer-dialog'
+import { OfferList } from '@/components/marketplace/offer-list'
+import { PhotoSlotsForm } from '@/components/media/photo-slots-form'
+import { ReportButton } from '@/components/moderation/report-button'
+import { getPhotoSlots } from '@/lib/media/photo-slots'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+export const Route = createFileRoute('/_authenticated/marketplace')({
+  component: MarketplacePage,
+})
+
+type MarketplaceListing = Row<'marketplace_listings'>
+
+type ListingTypeOption = 'all' | 'selling' | 'buying'
+
+interface FilterForm {
+  search: string
+  category: string
+  listingType: ListingTypeOption
+  priceMin: string
+  priceMax: string
+}
+
+const emptyForm: FilterForm = {
+  search: '',
+  category: '',
+  listingType: 'all',
+  priceMin: '',
+  priceMax: '',
+}
+
+function toFilters(form: FilterForm): MarketplaceFilters {
+  return toSavedSearchFilters({
+    search: form.search,
+    category: form.category.trim() || undefined,
+    listingType: form.listingType === 'all' ? undefined : form.listingType,
+    priceMin: form.priceMin ? Number(form.priceMin) : undefined,
+    priceMax: form.priceMax ? Number(form.priceMax) : undefined,
+  })
+}
+
+function toForm(filters: MarketplaceFilters): FilterForm {
+  return {
+    search: filters.search ?? '',
+    category: filters.category ?? '',
+    listingType: filters.listingType ?? 'all',
+    priceMin: filters.priceMin?.toString() ?? '',
+    priceMax: filters.priceMax?.toString() ?? '',
+  }
+}
+
+function describeFilters(filters: MarketplaceFilters): string {
+  const parts: Array<string> = []
+  if (filters.search) parts.push(`"${filters.search}"`)
+  if (filters.listingType) parts.push(filters.listingType)
+  if (filters.category) parts.push(filters.category)
+  if (filters.priceMin !== undefined || filters.priceMax !== undefined) {
+    parts.push(`${filters.priceMin ?? 0} - ${filters.priceMax ?? 'any'}`)
+  }
+  return parts.join(' · ')
+}
+
+function describeExpiry(
+  listing: Pick<MarketplaceListing, 'status' | 'expires_at'>,
+) {
+  const { isExpired, daysLeft } = getListingExpiry(listing)
+  if (isExpired) return 'Expired'
+  if (daysLeft === null) return null
+  return `Expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`
+}
+
+function MarketplacePage() {
+  const { user } = useAuth()
+  const [form, setForm] = useState<FilterForm>(emptyForm)
+  const [filters, setFilters] = useState<MarketplaceFilters>({})
+  const [searchName, setSearchName] = useState('')
+
+  const { data, isLoading } = useMarketplaceListingsList({
+    ...filters,
+    active: true,
+  })
+  const { data: savedSearches } = useMarketplaceSavedSearches(user?.id)
+  const createSavedSearch = useCreateMarketplaceSavedSearch()
+  const { data: myOffers } = useProfileOffers(user?.id, {
+    role: 'buyer',
+    openOnly: true,
+  })
+  const { data: expiringListings } = useExpiringMarketplaceListings(user?.id)
+
+  const listings = data?.data ?? []
+  const hasFilters = Object.keys(filters).length > 0
+
+  const updateForm = (updates: Partial<FilterForm>) =>
+    setForm((current) => ({ ...current, ...updates }))
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setFilters(toFilters(form))
+  }
+
+  const applySavedSearch = (savedSearch: MarketplaceSavedSearch) => {
+    setForm(toForm(savedSearch.filters))
+    setFilters(savedSearch.filters)
+  }
+
+  const handleSaveSearch = () => {
+    createSavedSearch.mutate(
+      { name: searchName || describeFilters(filters).slice(0, 60), filters },
+      { onSuccess: () => setSearchName('') },
+    )
+  }
+
+  return (
+    <div className="px-4 py-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Marketplace</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Buy and sell within the village. Save a search to be notified about
+          new matching listings.
+        </p>
+      </div>
+
+      <form onSubmit={handleSearch} className="space-y-2">
+        <div className="relative">
+          <MagnifyingGlassIcon className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+          <Input
+            value={form.search}
+            onChange={(e) => updateForm({ search: e.target.value })}
+            placeholder="Search listings"
+            className="pl-9 bg-white"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Select
+            value={form.listingType}
+            onValueChange={(value: ListingTypeOption) =>
+              updateForm({ listingType: value })
+            }
+          >
+            <SelectTrigger className="w-32 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              <SelectItem value="selling">Selling</SelectItem>
+              <SelectItem value="buying">Buying</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            value={form.category}
+            onChange={(e) => updateForm({ category: e.target.value })}
+            placeholder="Category"
+            className="bg-white"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min={0}
+            value={form.priceMin}
+            onChange={(e) => updateForm({ priceMin: e.target.value })}
+            placeholder="Min price"
+            className="bg-white"
+          />
+          <Input
+            type="number"
+            min={0}
+            value={form.priceMax}
+            onChange={(e) => updateForm({ priceMax: e.target.value })}
+            placeholder="Max price"
+            className="bg-white"
+          />
+          <Button type="submit">Search</Button>
+        </div>
+      </form>
+
+      {hasFilters && (
+        <div className="flex gap-2">
+          <Input
+            value={searchName}
+            onChange={(e) => setSearchName(e.target.value)}
+            placeholder={describeFilters(filters)}
+            maxLength={60}
+            className="bg-white"
+          />
+          <Button
+            variant="outline"
+            onClick={handleSaveSearch}
+            disabled={createSavedSearch.isPending}
+          >
+            <BellAlertIcon className="h-4 w-4" />
+            Save search
+          </Button>
+        </div>
+      )}
+
+      {!!savedSearches?.length && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Saved searches
+          </h2>
+          <ul className="space-y-2">
+            {savedSearches.map((savedSearch) => (
+              <SavedSearchRow
+                key={savedSearch.id}
+                savedSearch={savedSearch}
+                onApply={() => applySavedSearch(savedSearch)}
+              />
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {!!expiringListings?.length && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Expiring listings
+          </h2>
+          <p className="text-sm text-gray-500">
+            Renew them for free to keep them visible for another{' '}
+            {LISTING_DURATION_DAYS} days.
+          </p>
+          <ul className="space-y-2">
+            {expiringListings.map((listing) => (
+              <ExpiringListingRow key={listing.id} listing={listing} />
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {!!myOffers?.length && user && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900">My offers</h2>
+          <OfferList offers={myOffers} currentUserId={user.id} />
+        </section>
+      )}
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Listings{data ? ` (${data.count})` : ''}
+        </h2>
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <LoadingSpinner />
+          </div>
+        ) : listings.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-10 text-center">
+            <ShoppingBagIcon className="h-8 w-8 text-gray-400" />
+            <p className="text-sm text-gray-500">No listings found</p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {listings.map((listing) => (
+              <ListingRow
+                key={listing.id}
+                listing={listing}
+                currentUserId={user?.id}
+              />
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  )
+}
+
+function ListingRow({
+  listing,
+  currentUserId,
+}: {
+  listing: MarketplaceListingWithRelations
+  currentUserId?: string
+}) {
+  const [showOfferDialog, setShowOfferDialog] = useState(false)
+  const [showTipDialog, setShowTipDialog] = useState(false)
+  const [showOffers, setShowOffers] = useState(false)
+  const [showPhotos, setShowPhotos] = useState(false)
+  const isOwner = listing.profile_id === currentUserId
+  const { data: offers } = useListingOffers(
+    isOwner && showOffers ? listing.id : undefined,
+  )
+  const renewListing = useRenewMarketplaceListing()
+  const updatePhotos = useMarketplaceListingPhotosUpdate()
+  const expiry = getListingExpiry(listing)
+
+  return (
+    <li className="space-y-3 bg-white rounded-xl p-3 shadow-sm border border-gray-200">
+      <div className="flex gap-3">
+        {listing.photo_1_url ? (
+          <img
+            src={listing.photo_1_url}
+            alt={listing.title}
+            loading="lazy"
+            className="h-16 w-16 flex-shrink-0 rounded-md object-cover"
+          />
+        ) : (
+          <div className="flex h-16 w-16 flex-shrink-0 items-center justify-center rounded-md bg-gray-100">
+            <ShoppingBagIcon className="h-6 w-6 text-gray-400" />
+          </div>
+        )}
+        <div className="min-w-0 flex-1">
+          <div className="flex items-start justify-between gap-2">
+            <p className="font-medium text-gray-900 truncate">
+              {listing.title}
+            </p>
+            <Badge
+              variant={listing.status === 'pending' ? 'warning' : 'secondary'}
+            >
+              {listing.status === 'pending' ? 'reserved' : listing.listing_type}
+            </Badge>
+          </div>
+          {listing.price !== null && (
+            <p className="text-sm font-semibold text-gray-900">
+              {listing.price} {listing.currency}
+            </p>
+          )}
+          <p className="text-xs text-gray-500 truncate">
+            {[
+              listing.category,
+              listing.profiles.username,
+              isOwner && describeExpiry(listing),
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+          {isOwner && listing.hidden_at && (
+            <p className="text-xs font-medium text-red-600">
+              Hidden by the moderators, residents no longer see this listing
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        {isOwner ? (
+          <>
+            {listing.status !== 'sold' && !listing.hidden_at && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() =>
+                  renewListing.mutate({
+                    id: listing.id,
+                    useCoins: !expiry.canRenewForFree,
+                  })
+                }
+                disabled={renewListing.isPending}
+              >
+                <ArrowPathIcon className="h-4 w-4" />
+                {expiry.canRenewForFree
+                  ? 'Renew'
+                  : `Renew for ${LISTING_RENEWAL_COST} coins`}
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setShowPhotos((current) => !current)}
+            >
+              <PhotoIcon className="h-4 w-4" />
+              Photos
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setShowOffers((current) => !current)}
+            >
+              {showOffers ? 'Hide offers' : 'Offers'}
+            </Button>
+          </>
+        ) : (
+          <>
+            <ReportButton
+              contentType="marketplace_listings"
+              contentId={listing.id}
+              className="mr-auto"
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setShowTipDialog(true)}
+              className="text-yellow-600 hover:text-yellow-700"
+            >
+              <CurrencyDollarIcon className="h-4 w-4" />
+              Tip
+            </Button>
+            {listing.status === 'available' && (
+              <Button size="sm" onClick={() => setShowOfferDialog(true)}>
+                Make an offer
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+
+      {showPhotos && (
+        <PhotoSlotsForm
+          entity="marketplace_listings"
+          ownerId={listing.profile_id}
+          entityId={listing.id}
+          initialSlots={getPhotoSlots(listing)}
+          isSaving={updatePhotos.isPending}
+          onSave={(slots) =>
+            updatePhotos.mutate(
+              { id: listing.id, slots },
+              { onSuccess: () => setShowPhotos(false) },
+            )
+          }
+          onCancel={() => setShowPhotos(false)}
+        />
+      )}
+
+      {showOffers && currentUserId && (
+        <OfferList offers={offers ?? []} currentUserId={currentUserId} />
+      )}
+
+      {showOfferDialog && (
+        <OfferDialog
+          listing={listing}
+          onClose={() => setShowOfferDialog(false)}
+        />
+      )}
+
+      {showTipDialog && (
+        <CoinTransferDialog
+          recipient={{
+            id: listing.profile_id,
+            username: listing.profiles.username || 'Seller',
+          }}
+          tipTarget={{ type: 'marketplace_listings', id: listing.id }}
+          onClose={() => setShowTipDialog(false)}
+        />
+      )}
+    </li>
+  )
+}
+
+function ExpiringListingRow({ listing }: { listing: MarketplaceListing }) {
+  const renewListing = useRenewMarketplaceListing()
+
+  return (
+    <li className="flex items-center justify-between gap-2 bg-white rounded-xl p-3 shadow-sm border border-gray-200">
+      <div className="min-w-0">
+        <p className="font-medium text-gray-900 truncate">{listing.title}</p>
+        <p className="flex items-center gap-1 text-xs text-gray-500">
+          <ClockIcon className="h-3.5 w-3.5" />
+          {describeExpiry(listing)}
+        </p>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => renewListing.mutate({ id: listing.id })}
+        disabled={renewListing.isPending}
+      >
+        <ArrowPathIcon className="h-4 w-4" />
+        Renew
+      </Button>
+    </li>
+  )
+}
+
+function SavedSearchRow({
+  savedSearch,
+  onApply,
+}: {
+  savedSearch: MarketplaceSavedSearch
+  onApply: () => void
+}) {
+  const updateSavedSearch = useUpdateMarketplaceSavedSearch()
+  const deleteSavedSearch = useDeleteMarketplaceSavedSearch()
+
+  return (
+    <li className="flex items-center justify-between gap-2 bg-white rounded-xl p-3 shadow-sm border border-gray-200">
+      <button type="button" onClick={onApply} className="min-w-0 text-left">
+        <p className="font-medium text-gray-900 truncate">{savedSearch.name}</p>
+        <p className="text-xs text-gray-500 truncate">
+          {describeFilters(savedSearch.filters)}
+        </p>
+      </button>
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={savedSearch.notify}
+          onCheckedChange={(notify) =>
+            updateSavedSearch.mutate({
+              id: savedSearch.id,
+              updates: { notify },
+            })
+          }
+          disabled={updateSavedSearch.isPending}
+          aria-label="Notify me about new listings"
+        />
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => deleteSavedSearch.mutate(savedSearch.id)}
+          disabled={deleteSavedSearch.isPending}
+          aria-label="Delete saved search"
+        >
+          <TrashIcon className="h-4 w-4" />
+        </Button>
+      </div>
+    </li>
+  )
+}
@@ -0,0 +1,210 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link, createFileRoute } from '@tanstack/react-router'
+import {
+  ArrowLeftIcon,
+  PaperAirplaneIcon,
+  PaperClipIcon,
+} from '@heroicons/react/24/outline'
+import type { PrivateMessageWithRelations } from '@/services/private-message.service'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  useConversationPresence,
+  useMarkConversationAsRead,
+  usePrivateMessageConversation,
+  usePrivateMessagesRealtime,
+  useSendPrivateMessage,
+  useSendPrivateMessageAttachment,
+} from '@/hooks/use-private-messages'
+import { useProfile } from '@/hooks/use-profiles'
+import { MessageAttachment } from '@/components/messages/message-attachment'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { cn } from '@/lib/utils'
+
+export const Route = createFileRoute('/_authenticated/messages/$userId')({
+  component: ConversationPage,
+})
+
+function ConversationPage() {
+  const { userId } = Route.useParams()
+  const { user } = useAuth()
+  const currentUserId = user?.id ?? ''
+  const { data: peer } = useProfile(userId)
+  const { data: messages, isLoading } = usePrivateMessageConversation(
+    currentUserId,
+    userId,
+  )
+  const { isPeerTyping, isPeerOnline, setTyping } = useConversationPresence(
+    currentUserId,
+    userId,
+  )
+  const sendMessage = useSendPrivateMessage(currentUserId)
+  const sendAttachment = useSendPrivateMessageAttachment(currentUserId)
+  const { mutate: markConversationAsRead } =
+    useMarkConversationAsRead(currentUserId)
+  usePrivateMessagesRealtime(currentUserId)
+
+  const [draft, setDraft] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  const hasUnread = !!messages?.some(
+    (message) => message.receiver_id === currentUserId && !message.read_at,
+  )
+
+  useEffect(() => {
+    if (hasUnread) markConversationAsRead(userId)
+  }, [hasUnread, userId, markConversationAsRead])
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' })
+  }, [messages?.length])
+
+  const peerName = peer?.full_name || peer?.username || 'Resident'
+
+  const handleSend = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!draft.trim()) return
+
+    setTyping(false)
+    sendMessage.mutate(
+      { receiver_id: userId, message: draft.trim() },
+      { onSuccess: () => setDraft('') },
+    )
+  }
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    sendAttachment.mutate({
+      receiver_id: userId,
+      file,
+      caption: draft,
+    })
+    setDraft('')
+  }
+
+  if (isLoading) {
+    return <LoadingSpinner fullScreen />
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <header className="sticky top-0 flex items-center gap-3 border-b border-gray-200 bg-white px-4 py-3">
+        <Link
+          to="/locations"
+          className="text-gray-600 hover:text-gray-900"
+          aria-label="Back"
+        >
+          <ArrowLeftIcon className="h-5 w-5" />
+        </Link>
+        <div>
+          <h1 className="font-semibold text-gray-900">{peerName}</h1>
+          <p className="text-xs text-gray-500">
+            {isPeerTyping ? 'Typing...' : isPeerOnline ? 'Online' : 'Offline'}
+          </p>
+        </div>
+      </header>
+
+      <div className="flex-1 space-y-2 px-4 py-4">
+        {messages?.length === 0 && (
+          <p className="py-6 text-center text-sm text-gray-500">
+            No messages yet, say hello to {peerName}
+          </p>
+        )}
+        {messages?.map((message) => (
+          <MessageBubble
+            key={message.id}
+            message={message}
+            isOwn={message.sender_id === currentUserId}
+          />
+        ))}
+        <div ref={bottomRef} />
+      </div>
+
+      <form
+        onSubmit={handleSend}
+        className="sticky bottom-0 flex items-center gap-2 border-t border-gray-200 bg-white px-4 py-3"
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={handleFile}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={sendAttachment.isPending}
+          aria-label="Attach a photo or document"
+        >
+          {sendAttachment.isPending ? (
+            <LoadingSpinner size="sm" />
+          ) : (
+            <PaperClipIcon className="h-5 w-5" />
+          )}
+        </Button>
+        <Input
+          value={draft}
+          onChange={(event) => {
+            setDraft(event.target.value)
+            setTyping(!!event.target.value)
+          }}
+          onBlur={() => setTyping(false)}
+          placeholder="Write a message..."
+          className="flex-1"
+        />
+        <Button
+          type="submit"
+          size="sm"
+          disabled={!draft.trim()}
+          aria-label="Send"
+        >
+          <PaperAirplaneIcon className="h-5 w-5" />
+        </Button>
+      </form>
+    </div>
+  )
+}
+
+interface MessageBubbleProps {
+  message: PrivateMessageWithRelations
+  isOwn: boolean
+}
+
+function MessageBubble({ message, isOwn }: MessageBubbleProps) {
+  return (
+    <div className={cn('flex', isOwn ? 'justify-end' : 'justify-start')}>
+      <div
+        className={cn(
+          'max-w-[80%] space-y-1 rounded-2xl px-3 py-2 text-sm',
+          isOwn ? 'bg-blue-500 text-white' : 'bg-white text-gray-900 shadow-sm',
+        )}
+      >
+        {message.attachment_url ? (
+          <MessageAttachment message={message} />
+        ) : (
+          <p className="whitespace-pre-wrap">{message.message}</p>
+        )}
+        <p
+          className={cn(
+            'text-[10px]',
+            isOwn ? 'text-blue-100' : 'text-gray-400',
+          )}
+        >
+          {message.created_at &&
+            new Date(message.created_at).toLocaleTimeString([], {
+              hour: '2-digit',
+              minute: '2-digit',
+            })}
+          {isOwn && message.read_at && ' · Read'}
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+import { useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline'
+import type {
+  ProfileBlockKind,
+  ProfileBlockWithProfile,
+} from '@/services/profile-block.service'
+import type { Profile } from '@/lib/database-types'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  useBlockProfile,
+  useProfileBlocks,
+  useUnblockProfile,
+} from '@/hooks/use-profile-blocks'
+import { useProfileSearch } from '@/hooks/use-profiles'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+
+export const Route = createFileRoute('/_authenticated/profile/blocked')({
+  component: BlockedResidentsPage,
+})
+
+function BlockedResidentsPage() {
+  const { user } = useAuth()
+  const [search, setSearch] = useState('')
+  const { data: blocks, isLoading } = useProfileBlocks(user?.id)
+  const { data: results, isFetching: isSearching } = useProfileSearch(
+    search.trim(),
+  )
+
+  const blockedIds = new Set(blocks?.map((block) => block.blocked_id))
+  const candidates = (results ?? []).filter(
+    (profile) => profile.id !== user?.id && !blockedIds.has(profile.id),
+  )
+
+  return (
+    <div className="px-4 py-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Blocked residents</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Muted residents can still write to you, their messages stay hidden.
+          Blocked residents can no longer message you and no longer find you in
+          search.
+        </p>
+      </div>
+
+      <section className="space-y-3">
+        <div className="relative">
+          <MagnifyingGlassIcon className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+          <Input
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Find a resident to block or mute"
+            className="pl-9 bg-white"
+          />
+        </div>
+        {search.trim().length >= 2 &&
+          (isSearching ? (
+            <div className="flex justify-center py-4">
+              <LoadingSpinner />
+            </div>
+          ) : candidates.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">
+              No residents found
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {candidates.map((profile) => (
+                <SearchResultRow key={profile.id} profile={profile} />
+              ))}
+            </ul>
+          ))}
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Blocked and muted
+        </h2>
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <LoadingSpinner />
+          </div>
+        ) : !blocks?.length ? (
+          <p className="text-sm text-gray-500 text-center py-10">
+            You haven't blocked or muted anyone
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {blocks.map((block) => (
+              <BlockRow key={block.blocked_id} block={block} />
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  )
+}
+
+function SearchResultRow({ profile }: { profile: Profile }) {
+  const blockProfile = useBlockProfile()
+
+  const block = (kind: ProfileBlockKind) => {
+    blockProfile.mutate({ blockedId: profile.id, kind })
+  }
+
+  return (
+    <li className="flex items-center justify-between gap-2 bg-white rounded-xl p-3 shadow-sm border border-gray-200">
+      <div className="min-w-0">
+        <p className="font-medium text-gray-900 truncate">
+          {profile.full_name || profile.username || 'Unnamed resident'}
+        </p>
+        {profile.username && (
+          <p className="text-xs text-gray-500 truncate">@{profile.username}</p>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => block('mute')}
+          disabled={blockProfile.isPending}
+        >
+          Mute
+        </Button>
+        <Button
+          size="sm"
+          variant="destructive"
+          onClick={() => block('block')}
+          disabled={blockProfile.isPending}
+        >
+          Block
+        </Button>
+      </div>
+    </li>
+  )
+}
+
+function BlockRow({ block }: { block: ProfileBlockWithProfile }) {
+  const blockProfile = useBlockProfile()
+  const unblockProfile = useUnblockProfile()
+
+  const isMute = block.kind === 'mute'
+  const isPending = blockProfile.isPending || unblockProfile.isPending
+
+  return (
+    <li className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium text-gray-900 truncate">
+            {block.blocked?.full_name ||
+              block.blocked?.username ||
+              'Unnamed resident'}
+          </p>
+          <p className="text-xs text-gray-500">
+            Since {new Date(block.created_at).toLocaleDateString()}
+          </p>
+        </div>
+        <Badge variant={isMute ? 'secondary' : 'destructive'}>
+          {isMute ? 'Muted' : 'Blocked'}
+        </Badge>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() =>
+            blockProfile.mutate({
+              blockedId: block.blocked_id,
+              kind: isMute ? 'block' : 'mute',
+            })
+          }
+          disabled={isPending}
+        >
+          {isMute ? 'Block instead' : 'Mute instead'}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() =>
+            unblockProfile.mutate({
+              blockerId: block.blocker_id,
+              blockedId: block.blocked_id,
+            })
+          }
+          disabled={isPending}
+        >
+          {isMute ? 'Unmute' : 'Unblock'}
+        </Button>
+      </div>
+    </li>
+  )
+}
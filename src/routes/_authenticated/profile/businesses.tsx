@@ -0,0 +1,229 @@
+import { useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import {
+  BriefcaseIcon,
+  BuildingOffice2Icon,
+  BuildingStorefrontIcon,
+  PhotoIcon,
+} from '@heroicons/react/24/outline'
+import type { MediaEntity } from '@/services/media.service'
+import type { PhotoSlotColumn, PhotoSlots } from '@/lib/media/photo-slots'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  useCurrentUserBusinessInside,
+  useUpdateUserBusinessInsidePhotos,
+} from '@/hooks/use-user-business-inside'
+import {
+  useCurrentUserBusinessOutside,
+  useUpdateUserBusinessOutsidePhotos,
+} from '@/hooks/use-user-business-outside'
+import {
+  useCurrentUserServices,
+  useUpdateServicePhotos,
+} from '@/hooks/use-user-services'
+import { useActiveServiceCategories } from '@/hooks/use-service-categories'
+import { PhotoSlotsForm } from '@/components/media/photo-slots-form'
+import { Button } from '@/components/ui/button'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { getPhotoSlots } from '@/lib/media/photo-slots'
+
+export const Route = createFileRoute('/_authenticated/profile/businesses')({
+  component: MyBusinessesPage,
+})
+
+// Businesses and services of the current user, with their photos
+function MyBusinessesPage() {
+  const { data: businessesInside, isLoading: isLoadingInside } =
+    useCurrentUserBusinessInside()
+  const { data: businessesOutside, isLoading: isLoadingOutside } =
+    useCurrentUserBusinessOutside()
+  const { data: services, isLoading: isLoadingServices } =
+    useCurrentUserServices()
+  const { data: serviceCategories } = useActiveServiceCategories()
+  const updateInsidePhotos = useUpdateUserBusinessInsidePhotos()
+  const updateOutsidePhotos = useUpdateUserBusinessOutsidePhotos()
+  const updateServicePhotos = useUpdateServicePhotos()
+
+  if (isLoadingInside || isLoadingOutside || isLoadingServices) {
+    return <LoadingSpinner fullScreen />
+  }
+
+  const categoryNames = new Map(
+    serviceCategories?.map((category) => [category.id, category.name]),
+  )
+  const isEmpty =
+    !businessesInside?.length && !businessesOutside?.length && !services?.length
+
+  return (
+    <div className="px-4 py-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">
+          My businesses and services
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          The first photo is the cover shown on the map and in search.
+        </p>
+      </div>
+
+      {isEmpty && (
+        <p className="text-sm text-gray-500 text-center py-10">
+          You don't have any business or service yet
+        </p>
+      )}
+
+      {!!businessesInside?.length && (
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <BuildingStorefrontIcon className="h-5 w-5" />
+            In the village
+          </h2>
+          <ul className="space-y-3">
+            {businessesInside.map((business) => (
+              <PhotoEntityRow
+                key={business.id}
+                entity="user_business_inside"
+                row={business}
+                title={business.business_name}
+                subtitle={[
+                  business.block && `Block ${business.block}`,
+                  business.lot && `Lot ${business.lot}`,
+                ]
+                  .filter(Boolean)
+                  .join(', ')}
+                isSaving={updateInsidePhotos.isPending}
+                onSave={(slots, onSaved) =>
+                  updateInsidePhotos.mutate(
+                    { id: business.id, slots },
+                    { onSuccess: onSaved },
+                  )
+                }
+              />
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {!!businessesOutside?.length && (
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <BuildingOffice2Icon className="h-5 w-5" />
+            Outside the village
+          </h2>
+          <ul className="space-y-3">
+            {businessesOutside.map((business) => (
+              <PhotoEntityRow
+                key={business.id}
+                entity="user_business_outside"
+                row={business}
+                title={business.business_name}
+                subtitle={[business.city, business.province]
+                  .filter(Boolean)
+                  .join(', ')}
+                isSaving={updateOutsidePhotos.isPending}
+                onSave={(slots, onSaved) =>
+                  updateOutsidePhotos.mutate(
+                    { id: business.id, slots },
+                    { onSuccess: onSaved },
+                  )
+                }
+              />
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {!!services?.length && (
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <BriefcaseIcon className="h-5 w-5" />
+            Services
+          </h2>
+          <ul className="space-y-3">
+            {services.map((service) => (
+              <PhotoEntityRow
+                key={service.id}
+                entity="user_services"
+                row={service}
+                title={categoryNames.get(service.category_id) || 'Service'}
+                subtitle={[service.price_range, service.availability]
+                  .filter(Boolean)
+                  .join(' · ')}
+                isSaving={updateServicePhotos.isPending}
+                onSave={(slots, onSaved) =>
+                  updateServicePhotos.mutate(
+                    { id: service.id, slots },
+                    { onSuccess: onSaved },
+                  )
+                }
+              />
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  )
+}
+
+interface PhotoEntityRowProps {
+  entity: MediaEntity
+  row: { id: string } & Record<PhotoSlotColumn, string | null>
+  title: string
+  subtitle: string
+  isSaving: boolean
+  onSave: (slots: PhotoSlots, onSaved: () => void) => void
+}
+
+function PhotoEntityRow({
+  entity,
+  row,
+  title,
+  subtitle,
+  isSaving,
+  onSave,
+}: PhotoEntityRowProps) {
+  const { user } = useAuth()
+  const [isEditing, setIsEditing] = useState(false)
+  const slots = getPhotoSlots(row)
+  const cover = slots[0]
+
+  return (
+    <li className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="h-12 w-12 shrink-0 overflow-hidden rounded-md bg-gray-100">
+          {cover ? (
+            <img src={cover} alt="" className="h-full w-full object-cover" />
+          ) : (
+            <PhotoIcon className="m-3 h-6 w-6 text-gray-400" />
+          )}
+        </div>
+        <div className="min-w-0 flex-1">
+          <p className="font-medium text-gray-900 truncate">{title}</p>
+          {subtitle && (
+            <p className="text-xs text-gray-500 truncate">{subtitle}</p>
+          )}
+        </div>
+        {!isEditing && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setIsEditing(true)}
+          >
+            Edit photos
+          </Button>
+        )}
+      </div>
+
+      {isEditing && user && (
+        <PhotoSlotsForm
+          entity={entity}
+          ownerId={user.id}
+          entityId={row.id}
+          initialSlots={slots}
+          isSaving={isSaving}
+          onSave={(next) => onSave(next, () => setIsEditing(false))}
+          onCancel={() => setIsEditing(false)}
+        />
+      )}
+    </li>
+  )
+}
@@ -0,0 +1,367 @@
+import { useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import {
+  ClockIcon,
+  HomeIcon,
+  KeyIcon,
+  UsersIcon,
+} from '@heroicons/react/24/outline'
+import type { AssociationWithDetails } from '@/services/profile-location-association.service'
+import type {
+  HouseholdEvent,
+  HouseholdRole,
+} from '@/services/household.service'
+import {
+  HOUSEHOLD_ROLE_LABELS,
+  canManageHouseholdMember,
+  hasHouseholdPermission,
+} from '@/services/household.service'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  useProfileLocationAssociationsByLocation,
+  useProfileLocationAssociationsByProfile,
+} from '@/hooks/use-profile-location-associations'
+import {
+  useHouseholdHistory,
+  useRevokeHouseholdMember,
+  useSetHouseholdRole,
+  useTransferHouseholdOwnership,
+} from '@/hooks/use-household'
+import { ClaimLotForm } from '@/components/household/claim-lot-form'
+import { LotTransferDialog } from '@/components/household/lot-transfer-dialog'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+export const Route = createFileRoute('/_authenticated/profile/household')({
+  component: HouseholdPage,
+})
+
+const assignableRoles: Array<Exclude<HouseholdRole, 'owner'>> = [
+  'co_owner',
+  'tenant',
+  'family_member',
+  'staff',
+]
+
+function displayName(
+  profile: { username: string | null; full_name: string | null } | null,
+) {
+  return profile?.full_name || profile?.username || 'Resident'
+}
+
+function HouseholdPage() {
+  const { user } = useAuth()
+  const { data: myAssociations, isLoading } =
+    useProfileLocationAssociationsByProfile(user?.id || '')
+  const [selectedLocationId, setSelectedLocationId] = useState<string>()
+  // Kept here so the claim code stays visible once the household moved out
+  const [transferLot, setTransferLot] = useState<{
+    locationId: string
+    label: string
+  }>()
+
+  const lots = (myAssociations ?? []).filter(
+    (association) => association.is_verified && association.locations,
+  )
+  // The selected lot disappears once its household moved out
+  const locationId =
+    lots.find((lot) => lot.location_id === selectedLocationId)?.location_id ??
+    lots[0]?.location_id ??
+    undefined
+
+  if (isLoading) {
+    return <LoadingSpinner fullScreen />
+  }
+
+  return (
+    <div className="px-4 py-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Household</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Everyone associated with your lot. Owners and co-owners manage roles
+          and remove residents who moved out.
+        </p>
+      </div>
+
+      <section className="space-y-2">
+        <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+          <KeyIcon className="h-4 w-4" />
+          Bought or moved into a lot?
+        </h2>
+        <p className="text-xs text-gray-500">
+          Enter the claim code given by the previous owner to become the owner.
+        </p>
+        <ClaimLotForm onClaimed={setSelectedLocationId} />
+      </section>
+
+      {lots.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 py-10 text-center">
+          <HomeIcon className="h-8 w-8 text-gray-400" />
+          <p className="text-sm text-gray-500">
+            You are not a verified member of any lot yet
+          </p>
+        </div>
+      ) : (
+        <>
+          {lots.length > 1 && (
+            <Select value={locationId} onValueChange={setSelectedLocationId}>
+              <SelectTrigger className="bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {lots.map((lot) => (
+                  <SelectItem key={lot.id} value={lot.location_id!}>
+                    Block {lot.locations!.block}, Lot {lot.locations!.lot}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {locationId && user && (
+            <Household
+              locationId={locationId}
+              currentUserId={user.id}
+              onTransfer={(label) => setTransferLot({ locationId, label })}
+            />
+          )}
+        </>
+      )}
+
+      {transferLot && (
+        <LotTransferDialog
+          locationId={transferLot.locationId}
+          lotLabel={transferLot.label}
+          onClose={() => setTransferLot(undefined)}
+        />
+      )}
+    </div>
+  )
+}
+
+function Household({
+  locationId,
+  currentUserId,
+  onTransfer,
+}: {
+  locationId: string
+  currentUserId: string
+  onTransfer: (lotLabel: string) => void
+}) {
+  const { data: members, isLoading } =
+    useProfileLocationAssociationsByLocation(locationId)
+  const { data: history } = useHouseholdHistory(locationId)
+
+  const me = members?.find((member) => member.profile_id === currentUserId)
+  const myRole = me?.role
+
+  return (
+    <>
+      <section className="space-y-3">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <UsersIcon className="h-5 w-5" />
+          Members
+        </h2>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {(members ?? []).map((member) => (
+              <MemberRow
+                key={member.id}
+                member={member}
+                myRole={myRole}
+                currentUserId={currentUserId}
+              />
+            ))}
+          </ul>
+        )}
+        {myRole === 'owner' && me?.locations && (
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                onTransfer(
+                  `Block ${me.locations!.block} Lot ${me.locations!.lot}`,
+                )
+              }
+            >
+              Sold or vacated? Transfer the lot
+            </Button>
+          </div>
+        )}
+      </section>
+
+      {!!history?.length && (
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <ClockIcon className="h-5 w-5" />
+            History
+          </h2>
+          <ul className="space-y-2">
+            {history.map((event) => (
+              <li key={event.id} className="text-sm text-gray-600">
+                <span className="text-xs text-gray-400">
+                  {new Date(event.created_at).toLocaleDateString()}
+                </span>{' '}
+                {describeEvent(event)}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </>
+  )
+}
+
+function MemberRow({
+  member,
+  myRole,
+  currentUserId,
+}: {
+  member: AssociationWithDetails
+  myRole?: string
+  currentUserId: string
+}) {
+  const setRole = useSetHouseholdRole()
+  const revokeMember = useRevokeHouseholdMember()
+  const transferOwnership = useTransferHouseholdOwnership()
+
+  const isMe = member.profile_id === currentUserId
+  const canManage = !isMe && canManageHouseholdMember(myRole, member.role)
+  const canTransfer =
+    !isMe &&
+    !!member.is_verified &&
+    hasHouseholdPermission(myRole, 'transfer_ownership')
+  const name = displayName(member.profiles)
+
+  const handleTransfer = () => {
+    if (
+      window.confirm(
+        `Make ${name} the owner of this lot? You will become a co-owner.`,
+      )
+    ) {
+      transferOwnership.mutate({
+        locationId: member.location_id!,
+        newOwnerId: member.profile_id,
+      })
+    }
+  }
+
+  const handleRevoke = () => {
+    if (
+      window.confirm(
+        isMe ? 'Leave this household?' : `Remove ${name} from this household?`,
+      )
+    ) {
+      revokeMember.mutate(member.id)
+    }
+  }
+
+  return (
+    <li className="space-y-2 bg-white rounded-xl p-3 shadow-sm border border-gray-200">
+      <div className="flex items-center gap-3">
+        <Avatar className="h-8 w-8">
+          <AvatarImage src={member.profiles?.avatar_url || undefined} />
+          <AvatarFallback>{name.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium text-gray-900 truncate">
+            {name}
+            {isMe && ' (you)'}
+          </p>
+          {!member.is_verified && (
+            <p className="text-xs text-gray-500">Not verified</p>
+          )}
+        </div>
+        {canManage ? (
+          <Select
+            value={member.role}
+            onValueChange={(role: Exclude<HouseholdRole, 'owner'>) =>
+              setRole.mutate({ associationId: member.id, role })
+            }
+            disabled={setRole.isPending}
+          >
+            <SelectTrigger className="w-36 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {assignableRoles
+                .filter((role) => myRole === 'owner' || role !== 'co_owner')
+                .map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {HOUSEHOLD_ROLE_LABELS[role]}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Badge variant={member.role === 'owner' ? 'info' : 'secondary'}>
+            {HOUSEHOLD_ROLE_LABELS[member.role as HouseholdRole]}
+          </Badge>
+        )}
+      </div>
+
+      {(canTransfer || canManage || (isMe && member.role !== 'owner')) && (
+        <div className="flex justify-end gap-2">
+          {canTransfer && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleTransfer}
+              disabled={transferOwnership.isPending}
+            >
+              Make owner
+            </Button>
+          )}
+          {(canManage || (isMe && member.role !== 'owner')) && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleRevoke}
+              disabled={revokeMember.isPending}
+            >
+              {isMe ? 'Leave household' : 'Remove'}
+            </Button>
+          )}
+        </div>
+      )}
+    </li>
+  )
+}
+
+function describeEvent(event: HouseholdEvent): string {
+  const actor = displayName(event.actor)
+  const subject = displayName(event.profile)
+  const role = (value: string | null) =>
+    value ? HOUSEHOLD_ROLE_LABELS[value as HouseholdRole] : ''
+
+  switch (event.action) {
+    case 'role_changed':
+      return `${actor} changed ${subject} from ${role(event.previous_role)} to ${role(event.new_role)}`
+    case 'revoked':
+      return `${actor} removed ${subject} (${role(event.previous_role)})`
+    case 'left':
+      return `${subject} left the household`
+    case 'ownership_transferred':
+      return `${actor} transferred ownership to ${subject}`
+    case 'moved_out':
+      return `${subject} moved out (${role(event.previous_role)})`
+    case 'claimed':
+      return `${subject} claimed the lot as the new owner`
+    default:
+      return event.action
+  }
+}
@@ -0,0 +1,186 @@
+import { useState } from 'react'
+import { Link, createFileRoute, useNavigate } from '@tanstack/react-router'
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline'
+import type { SearchEntityType, SearchResult } from '@/services/search.service'
+import { MIN_SEARCH_LENGTH, splitSnippet } from '@/services/search.service'
+import { useGlobalSearch } from '@/hooks/use-search'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+
+interface SearchParams {
+  q?: string
+  type?: SearchEntityType
+}
+
+const typeLabels: Record<SearchEntityType, string> = {
+  marketplace_listing: 'Listing',
+  business_inside: 'Business',
+  business_outside: 'Business',
+  service: 'Service',
+  forum: 'Forum',
+  thread: 'Thread',
+}
+
+const typeFilters: Array<{ label: string; type?: SearchEntityType }> = [
+  { label: 'All' },
+  { label: 'Listings', type: 'marketplace_listing' },
+  { label: 'Businesses', type: 'business_inside' },
+  { label: 'Services', type: 'service' },
+  { label: 'Forums', type: 'thread' },
+]
+
+// Business and forum filters cover both tables of the same kind
+const filterTypes: Partial<Record<SearchEntityType, Array<SearchEntityType>>> =
+  {
+    business_inside: ['business_inside', 'business_outside'],
+    thread: ['forum', 'thread'],
+  }
+
+export const Route = createFileRoute('/_authenticated/search')({
+  validateSearch: (search: Record<string, unknown>): SearchParams => ({
+    q: typeof search.q === 'string' ? search.q : undefined,
+    type:
+      typeof search.type === 'string' && search.type in typeLabels
+        ? (search.type as SearchEntityType)
+        : undefined,
+  }),
+  component: SearchPage,
+})
+
+function SearchPage() {
+  const { q = '', type } = Route.useSearch()
+  const navigate = useNavigate({ from: Route.fullPath })
+  const [input, setInput] = useState(q)
+
+  const { data: results, isFetching } = useGlobalSearch(q, {
+    types: type ? (filterTypes[type] ?? [type]) : undefined,
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    navigate({ search: { q: input.trim() || undefined, type } })
+  }
+
+  return (
+    <div className="px-4 py-6 space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Search</h1>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <div className="relative flex-1">
+          <MagnifyingGlassIcon className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Listings, businesses, services, forums"
+            className="pl-9 bg-white"
+            autoFocus
+          />
+        </div>
+        <Button type="submit">Search</Button>
+      </form>
+
+      <div className="flex gap-1 overflow-x-auto">
+        {typeFilters.map((filter) => (
+          <Button
+            key={filter.label}
+            size="sm"
+            variant={type === filter.type ? 'default' : 'outline'}
+            onClick={() =>
+              navigate({ search: { q: q || undefined, type: filter.type } })
+            }
+          >
+            {filter.label}
+          </Button>
+        ))}
+      </div>
+
+      {q.trim().length < MIN_SEARCH_LENGTH ? (
+        <p className="text-sm text-gray-500 text-center py-10">
+          Type at least {MIN_SEARCH_LENGTH} characters to search
+        </p>
+      ) : isFetching && !results ? (
+        <div className="flex justify-center py-10">
+          <LoadingSpinner />
+        </div>
+      ) : !results?.length ? (
+        <p className="text-sm text-gray-500 text-center py-10">
+          No results for "{q}"
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {results.map((result) => (
+            <SearchResultRow
+              key={`${result.entity_type}-${result.entity_id}`}
+              result={result}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function SearchResultRow({ result }: { result: SearchResult }) {
+  const content = (
+    <>
+      <div className="flex items-start justify-between gap-2">
+        <p className="font-medium text-gray-900 truncate">{result.title}</p>
+        <Badge variant="secondary">{typeLabels[result.entity_type]}</Badge>
+      </div>
+      {result.snippet && (
+        <p className="text-sm text-gray-600 line-clamp-2">
+          {splitSnippet(result.snippet).map((part, index) =>
+            part.highlighted ? (
+              <mark key={index} className="bg-yellow-100 text-gray-900">
+                {part.text}
+              </mark>
+            ) : (
+              <span key={index}>{part.text}</span>
+            ),
+          )}
+        </p>
+      )}
+    </>
+  )
+  const className =
+    'block space-y-1 bg-white rounded-xl p-3 shadow-sm border border-gray-200'
+
+  switch (result.entity_type) {
+    case 'marketplace_listing':
+      return (
+        <li>
+          <Link to="/marketplace" className={className}>
+            {content}
+          </Link>
+        </li>
+      )
+    case 'forum':
+      return (
+        <li>
+          <Link
+            to="/community/forums/$forumId"
+            params={{ forumId: result.entity_id }}
+            className={className}
+          >
+            {content}
+          </Link>
+        </li>
+      )
+    case 'thread':
+      return (
+        <li>
+          <Link
+            to="/community/threads/$threadId"
+            params={{ threadId: result.entity_id }}
+            className={className}
+          >
+            {content}
+          </Link>
+        </li>
+      )
+    default:
+      return <li className={className}>{content}</li>
+  }
+}
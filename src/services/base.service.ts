@@ -12,6 +12,11 @@
  */
 
 import { createClient } from '@supabase/supabase-js'
+import {
+  NotFoundError,
+  ValidationError,
+  toServiceError,
+} from '../lib/crud/errors'
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '../lib/database-types'
 
@@ -29,6 +34,9 @@ export abstract class BaseService {
   /**
    * Centralized error handling with context
    *
+   * Rethrows the error as a typed ServiceError (PermissionDeniedError,
+   * NotFoundError, ConflictError...) keeping code, details and hint
+   *
    * @param error - The error object from Supabase or other operations
    * @param context - The service method context for better debugging
    */
@@ -42,9 +50,8 @@ export abstract class BaseService {
       context,
     })
 
-    // Create a descriptive error message
-    const errorMessage = error.message || 'Unknown error occurred'
-    throw new Error(`${context}: ${errorMessage}`)
+    // Map to the matching typed error
+    throw toServiceError(error, context)
   }
 
   /**
@@ -63,7 +70,10 @@ export abstract class BaseService {
     }
 
     if (response.data === null) {
-      this.handleError(new Error('No data returned'), context)
+      this.handleError(
+        new NotFoundError('No data returned', { context }),
+        context,
+      )
     }
 
     return response.data
@@ -100,7 +110,10 @@ export abstract class BaseService {
     context: string,
   ): void {
     if (value === undefined || value === null || value === '') {
-      this.handleError(new Error(`${paramName} is required`), context)
+      this.handleError(
+        new ValidationError(`${paramName} is required`, { context }),
+        context,
+      )
     }
   }
 
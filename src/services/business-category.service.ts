@@ -12,15 +12,18 @@
  * - Type-safe operations with proper error handling
  */
 
+import { ConflictError } from '../lib/crud/errors'
 import { BaseService } from './base.service'
-import type { InsertRow, Row } from '../lib/database-types'
+import type { InsertRow, Row, UpdateRow } from '../lib/database-types'
 
 // Type aliases for better readability
 type BusinessInsideCategory = Row<'business_inside_categories'>
 type BusinessInsideCategoryInsert = InsertRow<'business_inside_categories'>
+type BusinessInsideCategoryUpdate = UpdateRow<'business_inside_categories'>
 
 type BusinessOutsideCategory = Row<'business_outside_categories'>
 type BusinessOutsideCategoryInsert = InsertRow<'business_outside_categories'>
+type BusinessOutsideCategoryUpdate = UpdateRow<'business_outside_categories'>
 
 // Additional types for complex operations
 export interface CategoryFilters {
@@ -223,7 +226,9 @@ export class BusinessCategoryService extends BaseService {
       category.name,
     )
     if (!isAvailable) {
-      throw new Error('Category name already exists')
+      throw new ConflictError('Category name already exists', {
+        context: 'BusinessCategoryService.createBusinessInsideCategory',
+      })
     }
 
     const response = await this.supabase
@@ -242,6 +247,57 @@ export class BusinessCategoryService extends BaseService {
     return response.data
   }
 
+  /**
+   * Update a business inside category (admin only)
+   */
+  async updateBusinessInsideCategory(
+    id: string,
+    updates: BusinessInsideCategoryUpdate,
+  ): Promise<BusinessInsideCategory> {
+    this.validateRequired(
+      id,
+      'id',
+      'BusinessCategoryService.updateBusinessInsideCategory',
+    )
+
+    const response = await this.supabase
+      .from('business_inside_categories')
+      .update(this.createOptimisticUpdate(updates))
+      .eq('id', id)
+      .select()
+      .single()
+
+    return this.handleResponse(
+      response,
+      'BusinessCategoryService.updateBusinessInsideCategory',
+    )
+  }
+
+  /**
+   * Delete a business inside category (admin only)
+   */
+  async deleteBusinessInsideCategory(id: string): Promise<boolean> {
+    this.validateRequired(
+      id,
+      'id',
+      'BusinessCategoryService.deleteBusinessInsideCategory',
+    )
+
+    const { error } = await this.supabase
+      .from('business_inside_categories')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      this.handleError(
+        error,
+        'BusinessCategoryService.deleteBusinessInsideCategory',
+      )
+    }
+
+    return true
+  }
+
   // ==================== BUSINESS OUTSIDE CATEGORIES ====================
 
   /**
@@ -423,7 +479,9 @@ export class BusinessCategoryService extends BaseService {
       category.name,
     )
     if (!isAvailable) {
-      throw new Error('Category name already exists')
+      throw new ConflictError('Category name already exists', {
+        context: 'BusinessCategoryService.createBusinessOutsideCategory',
+      })
     }
 
     const response = await this.supabase
@@ -442,6 +500,57 @@ export class BusinessCategoryService extends BaseService {
     return response.data
   }
 
+  /**
+   * Update a business outside category (admin only)
+   */
+  async updateBusinessOutsideCategory(
+    id: string,
+    updates: BusinessOutsideCategoryUpdate,
+  ): Promise<BusinessOutsideCategory> {
+    this.validateRequired(
+      id,
+      'id',
+      'BusinessCategoryService.updateBusinessOutsideCategory',
+    )
+
+    const response = await this.supabase
+      .from('business_outside_categories')
+      .update(this.createOptimisticUpdate(updates))
+      .eq('id', id)
+      .select()
+      .single()
+
+    return this.handleResponse(
+      response,
+      'BusinessCategoryService.updateBusinessOutsideCategory',
+    )
+  }
+
+  /**
+   * Delete a business outside category (admin only)
+   */
+  async deleteBusinessOutsideCategory(id: string): Promise<boolean> {
+    this.validateRequired(
+      id,
+      'id',
+      'BusinessCategoryService.deleteBusinessOutsideCategory',
+    )
+
+    const { error } = await this.supabase
+      .from('business_outside_categories')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      this.handleError(
+        error,
+        'BusinessCategoryService.deleteBusinessOutsideCategory',
+      )
+    }
+
+    return true
+  }
+
   // ==================== COMBINED OPERATIONS ====================
 
   /**
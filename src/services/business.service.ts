@@ -13,7 +13,15 @@
  * - Type-safe operations with proper error handling
  */
 
+import {
+  getPhotoSlots,
+  getRemovedPhotos,
+  toPhotoColumns,
+} from '../lib/media/photo-slots'
 import { BaseService } from './base.service'
+import { PREFIX_SEARCH_OPTIONS, toPrefixSearchQuery } from './search.service'
+import { mediaService } from './media.service'
+import type { PhotoSlots } from '../lib/media/photo-slots'
 import type { InsertRow, Row, UpdateRow } from '../lib/database-types'
 
 // Type aliases for better readability
@@ -100,9 +108,14 @@ export class BusinessService extends BaseService {
       query = query.eq('is_featured', filters.isFeatured)
     }
     if (filters?.search) {
-      query = query.or(
-        `business_name.ilike.%${filters.search}%,description.ilike.%${filters.search}%`,
-      )
+      const searchQuery = toPrefixSearchQuery(filters.search)
+      if (searchQuery) {
+        query = query.textSearch(
+          'search_vector',
+          searchQuery,
+          PREFIX_SEARCH_OPTIONS,
+        )
+      }
     }
 
     // Apply pagination
@@ -191,20 +204,77 @@ export class BusinessService extends BaseService {
   }
 
   /**
-   * Delete a user business inside
+   * Save the photo slots of a business inside and remove the uploads it no longer uses
+   */
+  async updateUserBusinessInsidePhotos(
+    id: string,
+    slots: PhotoSlots,
+  ): Promise<UserBusinessInside> {
+    this.validateRequired(
+      id,
+      'id',
+      'BusinessService.updateUserBusinessInsidePhotos',
+    )
+
+    const current = await this.supabase
+      .from('user_business_inside')
+      .select('photo_1_url, photo_2_url, photo_3_url, photo_4_url, photo_5_url')
+      .eq('id', id)
+      .single()
+    const previous = getPhotoSlots(
+      this.handleResponse(
+        current,
+        'BusinessService.updateUserBusinessInsidePhotos',
+      ),
+    )
+
+    const business = await this.updateUserBusinessInside(
+      id,
+      toPhotoColumns(slots),
+    )
+
+    try {
+      await mediaService.removePhotos(
+        'user_business_inside',
+        getRemovedPhotos(previous, slots),
+      )
+    } catch (error) {
+      // The business is saved, leftover files are only wasted storage
+      console.error('Error removing replaced business photos:', error)
+    }
+
+    return business
+  }
+
+  /**
+   * Delete a user business inside and its uploaded photos
    */
   async deleteUserBusinessInside(id: string): Promise<boolean> {
     this.validateRequired(id, 'id', 'BusinessService.deleteUserBusinessInside')
 
-    const { error } = await this.supabase
+    const { data, error } = await this.supabase
       .from('user_business_inside')
       .delete()
       .eq('id', id)
+      .select('profile_id')
+      .maybeSingle()
 
     if (error) {
       this.handleError(error, 'BusinessService.deleteUserBusinessInside')
     }
 
+    if (data) {
+      try {
+        await mediaService.removeEntityPhotos(
+          'user_business_inside',
+          data.profile_id,
+          id,
+        )
+      } catch (removeError) {
+        console.error('Error removing business photos:', removeError)
+      }
+    }
+
     return true
   }
 
@@ -322,9 +392,14 @@ export class BusinessService extends BaseService {
       query = query.eq('is_featured', filters.isFeatured)
     }
     if (filters?.search) {
-      query = query.or(
-        `business_name.ilike.%${filters.search}%,description.ilike.%${filters.search}%`,
-      )
+      const searchQuery = toPrefixSearchQuery(filters.search)
+      if (searchQuery) {
+        query = query.textSearch(
+          'search_vector',
+          searchQuery,
+          PREFIX_SEARCH_OPTIONS,
+        )
+      }
     }
 
     // Apply pagination
@@ -413,20 +488,77 @@ export class BusinessService extends BaseService {
   }
 
   /**
-   * Delete a user business outside
+   * Save the photo slots of a business outside and remove the uploads it no longer uses
+   */
+  async updateUserBusinessOutsidePhotos(
+    id: string,
+    slots: PhotoSlots,
+  ): Promise<UserBusinessOutside> {
+    this.validateRequired(
+      id,
+      'id',
+      'BusinessService.updateUserBusinessOutsidePhotos',
+    )
+
+    const current = await this.supabase
+      .from('user_business_outside')
+      .select('photo_1_url, photo_2_url, photo_3_url, photo_4_url, photo_5_url')
+      .eq('id', id)
+      .single()
+    const previous = getPhotoSlots(
+      this.handleResponse(
+        current,
+        'BusinessService.updateUserBusinessOutsidePhotos',
+      ),
+    )
+
+    const business = await this.updateUserBusinessOutside(
+      id,
+      toPhotoColumns(slots),
+    )
+
+    try {
+      await mediaService.removePhotos(
+        'user_business_outside',
+        getRemovedPhotos(previous, slots),
+      )
+    } catch (error) {
+      // The business is saved, leftover files are only wasted storage
+      console.error('Error removing replaced business photos:', error)
+    }
+
+    return business
+  }
+
+  /**
+   * Delete a user business outside and its uploaded photos
    */
   async deleteUserBusinessOutside(id: string): Promise<boolean> {
     this.validateRequired(id, 'id', 'BusinessService.deleteUserBusinessOutside')
 
-    const { error } = await this.supabase
+    const { data, error } = await this.supabase
       .from('user_business_outside')
       .delete()
       .eq('id', id)
+      .select('profile_id')
+      .maybeSingle()
 
     if (error) {
       this.handleError(error, 'BusinessService.deleteUserBusinessOutside')
     }
 
+    if (data) {
+      try {
+        await mediaService.removeEntityPhotos(
+          'user_business_outside',
+          data.profile_id,
+          id,
+        )
+      } catch (removeError) {
+        console.error('Error removing business photos:', removeError)
+      }
+    }
+
     return true
   }
 
@@ -506,7 +638,8 @@ export class BusinessService extends BaseService {
       'BusinessService.searchBusinesses',
     )
 
-    if (searchQuery.length < 2) {
+    const prefixQuery = toPrefixSearchQuery(searchQuery)
+    if (searchQuery.length < 2 || !prefixQuery) {
       return { inside: [], outside: [], totalCount: 0 }
     }
 
@@ -515,9 +648,7 @@ export class BusinessService extends BaseService {
       .from('user_business_inside')
       .select('*')
       .eq('is_active', true)
-      .or(
-        `business_name.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%`,
-      )
+      .textSearch('search_vector', prefixQuery, PREFIX_SEARCH_OPTIONS)
       .order('created_at', { ascending: false })
       .limit(limit)
 
@@ -526,9 +657,7 @@ export class BusinessService extends BaseService {
       .from('user_business_outside')
       .select('*')
       .eq('is_active', true)
-      .or(
-        `business_name.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%`,
-      )
+      .textSearch('search_vector', prefixQuery, PREFIX_SEARCH_OPTIONS)
       .order('created_at', { ascending: false })
       .limit(limit)
 
@@ -13,6 +13,7 @@
  */
 
 import { BaseService } from './base.service'
+import { escapeLikePattern } from './search.service'
 import type { RealtimeChannel } from '@supabase/supabase-js'
 import type { InsertRow, Row } from '../lib/database-types'
 
@@ -48,6 +49,18 @@ export interface SearchFilters {
   limit?: number
 }
 
+export interface ChatMessageCursor {
+  created_at: string
+  id: string
+}
+
+export interface ChatMessagePage {
+  // Oldest first, ready to be rendered top to bottom
+  messages: Array<MessageWithProfile>
+  // Cursor pointing at the oldest message of the page, null when exhausted
+  nextCursor: ChatMessageCursor | null
+}
+
 export interface SendMessageData {
   channel_id: string
   content: string
@@ -108,6 +121,71 @@ export class ChatService extends BaseService {
     return this.handleResponse(response, 'ChatService.getMessagesByChannel')
   }
 
+  /**
+   * Get a page of channel messages using a (created_at, id) keyset cursor.
+   * Pages walk backwards in time so newly inserted rows never shift them.
+   */
+  async getMessagesPageByChannel(
+    channelId: string,
+    options?: { cursor?: ChatMessageCursor | null; limit?: number },
+  ): Promise<ChatMessagePage> {
+    this.validateRequired(
+      channelId,
+      'channelId',
+      'ChatService.getMessagesPageByChannel',
+    )
+
+    const limit = options?.limit || 50
+
+    let query = this.supabase
+      .from('chat')
+      .select(
+        `
+        *,
+        profiles:user_id (
+          id,
+          username,
+          full_name,
+          avatar_url
+        ),
+        reply_message:reply_to (
+          id,
+          content,
+          user_id,
+          created_at
+        )
+      `,
+      )
+      .eq('channel_id', channelId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit)
+
+    if (options?.cursor) {
+      const { created_at, id } = options.cursor
+      query = query.or(
+        `created_at.lt."${created_at}",and(created_at.eq."${created_at}",id.lt.${id})`,
+      )
+    }
+
+    const response = await query
+    const rows = this.handleResponse(
+      response,
+      'ChatService.getMessagesPageByChannel',
+    ) as Array<MessageWithProfile>
+
+    const oldest = rows[rows.length - 1]
+    const nextCursor =
+      rows.length === limit && oldest.created_at
+        ? { created_at: oldest.created_at, id: oldest.id }
+        : null
+
+    return {
+      messages: rows.reverse(),
+      nextCursor,
+    }
+  }
+
   /**
    * Get messages by user
    */
@@ -194,7 +272,7 @@ export class ChatService extends BaseService {
         )
       `,
       )
-      .ilike('content', `%${searchQuery}%`)
+      .ilike('content', `%${escapeLikePattern(searchQuery)}%`)
       .order('created_at', { ascending: false })
 
     if (filters?.channelId) {
@@ -0,0 +1,157 @@
+/**
+ * Coin Ledger Service
+ *
+ * Read access to the append-only `coin_transactions` ledger.
+ *
+ * - Every change of `profiles.coins` is recorded by the
+ *   `trigger_record_coin_transaction` database trigger
+ * - Users page through their own history, admins through everyone's
+ * - Admins reconcile balances against the ledger
+ */
+
+import { BaseService } from './base.service'
+import type { Row } from '../lib/database-types'
+
+export type CoinTransaction = Row<'coin_transactions'>
+
+/**
+ * Reasons recorded by the database functions that move coins
+ */
+export type CoinTransactionReason =
+  | 'welcome_bonus'
+  | 'monthly_bonus'
+  | 'daily_checkin'
+  | 'header_message'
+  | 'transfer_sent'
+  | 'transfer_received'
+  | 'tip_sent'
+  | 'tip_received'
+  | 'listing_renewal'
+  | 'admin_adjustment'
+  | 'opening_balance'
+  | 'reconciliation'
+  | 'other'
+
+export interface CoinTransactionPage {
+  // Newest first
+  transactions: Array<CoinTransaction>
+  // Id of the oldest transaction of the page, null when exhausted
+  nextCursor: number | null
+}
+
+export interface CoinTransactionFilters {
+  cursor?: number | null
+  limit?: number
+  reason?: CoinTransactionReason
+}
+
+export interface CoinReconciliation {
+  profile_id: string
+  username: string
+  balance: number
+  ledger_balance: number
+  difference: number
+  fixed: boolean
+}
+
+export class CoinLedgerService extends BaseService {
+  // ==================== LEDGER QUERIES ====================
+
+  /**
+   * Get a page of a profile's coin transactions, newest first
+   * Ids are generated in insertion order, so they double as a stable cursor
+   */
+  async getTransactions(
+    profileId: string,
+    filters?: CoinTransactionFilters,
+  ): Promise<CoinTransactionPage> {
+    this.validateRequired(
+      profileId,
+      'profileId',
+      'CoinLedgerService.getTransactions',
+    )
+
+    const limit = filters?.limit || 20
+
+    let query = this.supabase
+      .from('coin_transactions')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('id', { ascending: false })
+      .limit(limit)
+
+    if (filters?.cursor) {
+      query = query.lt('id', filters.cursor)
+    }
+    if (filters?.reason) {
+      query = query.eq('reason', filters.reason)
+    }
+
+    const response = await query
+    const transactions = this.handleResponse(
+      response,
+      'CoinLedgerService.getTransactions',
+    )
+
+    return {
+      transactions,
+      nextCursor:
+        transactions.length === limit
+          ? transactions[transactions.length - 1].id
+          : null,
+    }
+  }
+
+  /**
+   * Get the transactions linked to an entity (e.g. a header message)
+   */
+  async getTransactionsByEntity(
+    entityType: string,
+    entityId: string,
+  ): Promise<Array<CoinTransaction>> {
+    this.validateRequired(
+      entityType,
+      'entityType',
+      'CoinLedgerService.getTransactionsByEntity',
+    )
+    this.validateRequired(
+      entityId,
+      'entityId',
+      'CoinLedgerService.getTransactionsByEntity',
+    )
+
+    const response = await this.supabase
+      .from('coin_transactions')
+      .select('*')
+      .eq('related_entity_type', entityType)
+      .eq('related_entity_id', entityId)
+      .order('id', { ascending: true })
+
+    return this.handleResponse(
+      response,
+      'CoinLedgerService.getTransactionsByEntity',
+    )
+  }
+
+  // ==================== ADMIN OPERATIONS ====================
+
+  /**
+   * Compare balances with the ledger (admin only)
+   * Only mismatching profiles are returned. With `fix`, a `reconciliation`
+   * entry is appended for each of them, the profile balance is authoritative
+   */
+  async reconcileBalances(options?: {
+    profileId?: string
+    fix?: boolean
+  }): Promise<Array<CoinReconciliation>> {
+    const response = await this.supabase.rpc('reconcile_coin_balances', {
+      p_profile_id: options?.profileId,
+      p_fix: options?.fix ?? false,
+    })
+
+    return this.handleResponse(response, 'CoinLedgerService.reconcileBalances')
+  }
+}
+
+// Export singleton instance
+export const coinLedgerService = new CoinLedgerService()
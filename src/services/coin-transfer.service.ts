@@ -0,0 +1,208 @@
+/**
+ * Coin Transfer Service
+ *
+ * Peer-to-peer coin transfers and tips between residents.
+ *
+ * - Transfers go through the `transfer_coins` RPC, which debits and credits
+ *   both profiles in one transaction and enforces the daily limits
+ * - Tips are transfers attached to a marketplace listing or a service,
+ *   the recipient must own it
+ * - Both sides are recorded in the coin ledger (`coin_transactions`)
+ */
+
+import { PermissionDeniedError, ValidationError } from '../lib/crud/errors'
+import { BaseService } from './base.service'
+import type { Row } from '../lib/database-types'
+
+export type CoinTransfer = Row<'coin_transfers'>
+
+export type TipTarget =
+  | { type: 'marketplace_listings'; id: string }
+  | { type: 'user_services'; id: string }
+
+export interface TransferCoinsData {
+  recipientId: string
+  amount: number
+  note?: string
+}
+
+export interface TipData extends TransferCoinsData {
+  target: TipTarget
+}
+
+export interface CoinTransferResult {
+  transfer_id: string
+  recipient_id: string
+  amount: number
+  kind: string
+  sender_balance: number
+  created_at: string
+}
+
+export interface CoinTransferUsage {
+  sentAmountToday: number
+  sentCountToday: number
+  maxPerTransfer: number
+  dailyAmountLimit: number
+  dailyCountLimit: number
+}
+
+export interface CoinTransferValidationResult {
+  canTransfer: boolean
+  // Why the transfer would be rejected, null when it is allowed
+  reason: string | null
+  currentCoins: number
+  remainingDailyAmount: number
+  usage: CoinTransferUsage
+}
+
+export class CoinTransferService extends BaseService {
+  // ==================== LIMITS AND VALIDATION ====================
+
+  /**
+   * Get the transfer limits and what the current user sent in the last 24 hours
+   */
+  async getTransferUsage(): Promise<CoinTransferUsage> {
+    const response = await this.supabase.rpc('get_coin_transfer_usage')
+    const rows = this.handleResponse(
+      response,
+      'CoinTransferService.getTransferUsage',
+    )
+    const usage = rows[0]
+
+    return {
+      sentAmountToday: usage.sent_amount_today,
+      sentCountToday: usage.sent_count_today,
+      maxPerTransfer: usage.max_per_transfer,
+      dailyAmountLimit: usage.daily_amount_limit,
+      dailyCountLimit: usage.daily_count_limit,
+    }
+  }
+
+  /**
+   * Check a transfer against the balance and the daily limits
+   * The RPC enforces the same rules, this lets the UI explain them upfront
+   */
+  async validateTransfer(
+    amount: number,
+  ): Promise<CoinTransferValidationResult> {
+    const {
+      data: { user },
+      error: authError,
+    } = await this.supabase.auth.getUser()
+    if (authError || !user?.id) {
+      throw new PermissionDeniedError('User not authenticated', {
+        context: 'CoinTransferService.validateTransfer',
+      })
+    }
+
+    const [profileResponse, usage] = await Promise.all([
+      this.supabase.from('profiles').select('coins').eq('id', user.id).single(),
+      this.getTransferUsage(),
+    ])
+    const { coins: currentCoins } = this.handleResponse(
+      profileResponse,
+      'CoinTransferService.validateTransfer',
+    )
+
+    const remainingDailyAmount = Math.max(
+      usage.dailyAmountLimit - usage.sentAmountToday,
+      0,
+    )
+
+    let reason: string | null = null
+    if (!Number.isInteger(amount) || amount <= 0) {
+      reason = 'Enter a whole number of coins'
+    } else if (amount > usage.maxPerTransfer) {
+      reason = `You can send up to ${usage.maxPerTransfer} coins at a time`
+    } else if (usage.sentCountToday >= usage.dailyCountLimit) {
+      reason = 'You reached the daily number of transfers'
+    } else if (amount > remainingDailyAmount) {
+      reason = `You can send ${remainingDailyAmount} more coins today`
+    } else if (amount > currentCoins) {
+      reason = 'Not enough coins'
+    }
+
+    return {
+      canTransfer: reason === null,
+      reason,
+      currentCoins,
+      remainingDailyAmount,
+      usage,
+    }
+  }
+
+  // ==================== TRANSFERS ====================
+
+  /**
+   * Send coins to another resident
+   */
+  async transferCoins(data: TransferCoinsData): Promise<CoinTransferResult> {
+    return this.executeTransfer(data, 'CoinTransferService.transferCoins')
+  }
+
+  /**
+   * Tip the seller of a listing or the provider of a service
+   */
+  async tip(data: TipData): Promise<CoinTransferResult> {
+    this.validateRequired(data.target.id, 'target', 'CoinTransferService.tip')
+
+    return this.executeTransfer(data, 'CoinTransferService.tip')
+  }
+
+  /**
+   * Get transfers sent or received by a profile, newest first
+   */
+  async getTransfers(
+    profileId: string,
+    options?: { limit?: number; offset?: number },
+  ): Promise<Array<CoinTransfer>> {
+    this.validateRequired(
+      profileId,
+      'profileId',
+      'CoinTransferService.getTransfers',
+    )
+
+    const limit = options?.limit || 20
+    const offset = options?.offset || 0
+
+    const response = await this.supabase
+      .from('coin_transfers')
+      .select('*')
+      .or(`sender_id.eq.${profileId},recipient_id.eq.${profileId}`)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    return this.handleResponse(response, 'CoinTransferService.getTransfers')
+  }
+
+  private async executeTransfer(
+    data: TransferCoinsData | TipData,
+    context: string,
+  ): Promise<CoinTransferResult> {
+    this.validateRequired(data.recipientId, 'recipientId', context)
+
+    if (!Number.isInteger(data.amount) || data.amount <= 0) {
+      throw new ValidationError('Amount must be a positive whole number', {
+        context,
+      })
+    }
+
+    const target = 'target' in data ? data.target : undefined
+
+    const response = await this.supabase.rpc('transfer_coins', {
+      p_recipient_id: data.recipientId,
+      p_amount: data.amount,
+      p_note: data.note,
+      p_related_entity_type: target?.type,
+      p_related_entity_id: target?.id,
+    })
+
+    // Insufficient balance and limit errors are typed by toServiceError
+    const rows = this.handleResponse(response, context)
+    return rows[0]
+  }
+}
+
+// Export singleton instance
+export const coinTransferService = new CoinTransferService()
@@ -6,6 +6,7 @@
  */
 
 import { BaseService } from './base.service'
+import { PREFIX_SEARCH_OPTIONS, toPrefixSearchQuery } from './search.service'
 import type { InsertRow, Row } from '../lib/database-types'
 
 type Forum = Row<'forums'>
@@ -81,9 +82,14 @@ export class ForumService extends BaseService {
       query = query.eq('created_by', filters.creatorId)
     }
     if (filters?.search) {
-      query = query.or(
-        `title.ilike.%${filters.search}%,description.ilike.%${filters.search}%`,
-      )
+      const searchQuery = toPrefixSearchQuery(filters.search)
+      if (searchQuery) {
+        query = query.textSearch(
+          'search_vector',
+          searchQuery,
+          PREFIX_SEARCH_OPTIONS,
+        )
+      }
     }
 
     if (filters?.limit) {
@@ -172,6 +178,9 @@ export class ForumService extends BaseService {
       'ForumService.searchForums',
     )
 
+    const prefixQuery = toPrefixSearchQuery(searchQuery)
+    if (!prefixQuery) return []
+
     const response = await this.supabase
       .from('forums')
       .select(
@@ -185,7 +194,7 @@ export class ForumService extends BaseService {
         )
       `,
       )
-      .or(`title.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%`)
+      .textSearch('search_vector', prefixQuery, PREFIX_SEARCH_OPTIONS)
       .order('created_at', { ascending: false })
       .limit(limit)
 
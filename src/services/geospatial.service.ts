@@ -9,10 +9,23 @@
  * - Geospatial queries and calculations
  * - Map-related functionality
  * - Distance calculations and clustering
+ * - Lot boundaries and block outlines as GeoJSON polygons
  * - Type-safe operations with proper error handling
  */
 
+import {
+  isPointInPolygon,
+  polygonArea,
+  polygonCentroid,
+} from '../lib/geo/polygon'
+import { clusterPoints, createZoomClusterer } from '../lib/geo/spatial-index'
 import { BaseService } from './base.service'
+import type {
+  GeoJsonArea,
+  GeoJsonMultiPolygon,
+  GeoJsonPolygon,
+} from '../lib/geo/polygon'
+import type { PointCluster } from '../lib/geo/spatial-index'
 
 // Types for geospatial data
 export interface LocationCoordinates {
@@ -63,6 +76,91 @@ export interface LocationWithDistance extends LocationWithCoords {
   distance: number
 }
 
+export interface LocationBoundary {
+  id: string
+  block: string
+  lot: string
+  boundary: GeoJsonPolygon
+  area_sq_m: number
+  // Lot coordinates, or the centroid of the boundary for lots without any
+  marker: LocationCoordinates
+}
+
+export interface BlockOutline {
+  block: string
+  // Union of the lot boundaries, a MultiPolygon when lots do not touch
+  outline: GeoJsonPolygon | GeoJsonMultiPolygon
+  lot_count: number
+  area_sq_m: number
+}
+
+export interface LocationAtPoint {
+  id: string
+  block: string
+  lot: string
+}
+
+export interface LotResident {
+  id: string
+  username: string | null
+  full_name: string | null
+  avatar_url: string | null
+  is_owner: boolean
+}
+
+export interface LotBusiness {
+  id: string
+  profile_id: string
+  business_name: string
+  description: string | null
+  phone_number: string | null
+  hours: string | null
+  category: { id: string; name: string } | null
+  photo_1_url: string | null
+  photo_2_url: string | null
+  photo_3_url: string | null
+  photo_4_url: string | null
+  photo_5_url: string | null
+}
+
+export interface LotService {
+  id: string
+  description: string | null
+  price_range: string | null
+  availability: string | null
+  category: { id: string; name: string } | null
+  profile: { id: string; username: string | null } | null
+  photo_1_url: string | null
+  photo_2_url: string | null
+  photo_3_url: string | null
+  photo_4_url: string | null
+  photo_5_url: string | null
+}
+
+export interface LotDetails {
+  residents: Array<LotResident>
+  businesses: Array<LotBusiness>
+  services: Array<LotService>
+}
+
+function toLocationCluster(
+  cluster: PointCluster<{ lat: number; lng: number; id: string }>,
+): LocationCluster {
+  return {
+    center: cluster.center,
+    locations: cluster.points,
+    count: cluster.points.length,
+  }
+}
+
+// RPC rows carry the distance in meters, the service works in kilometers
+function toLocationWithDistance({
+  distance_meters,
+  ...location
+}: LocationWithCoords & { distance_meters: number }): LocationWithDistance {
+  return { ...location, distance: distance_meters / 1000 }
+}
+
 export class GeospatialService extends BaseService {
   // ==================== LOCATION COORDINATES ====================
 
@@ -149,6 +247,196 @@ export class GeospatialService extends BaseService {
     return response.data as string | null
   }
 
+  /**
+   * Get what a lot holds: verified residents, active inside businesses
+   * and active services
+   */
+  async getLotDetails(locationId: string): Promise<LotDetails> {
+    this.validateRequired(
+      locationId,
+      'locationId',
+      'GeospatialService.getLotDetails',
+    )
+
+    const [residentsResponse, businessesResponse, servicesResponse] =
+      await Promise.all([
+        this.supabase
+          .from('profile_location_associations')
+          .select(
+            `
+            is_owner,
+            profile:profiles (
+              id,
+              username,
+              full_name,
+              avatar_url
+            )
+          `,
+          )
+          .eq('location_id', locationId)
+          .eq('is_verified', true),
+        this.supabase
+          .from('user_business_inside')
+          .select(
+            `
+            id,
+            profile_id,
+            business_name,
+            description,
+            phone_number,
+            hours,
+            photo_1_url,
+            photo_2_url,
+            photo_3_url,
+            photo_4_url,
+            photo_5_url,
+            category:business_inside_categories (
+              id,
+              name
+            )
+          `,
+          )
+          .eq('location_id', locationId)
+          .eq('is_active', true)
+          .order('business_name', { ascending: true }),
+        this.supabase
+          .from('user_services')
+          .select(
+            `
+            id,
+            description,
+            price_range,
+            availability,
+            photo_1_url,
+            photo_2_url,
+            photo_3_url,
+            photo_4_url,
+            photo_5_url,
+            category:service_categories (
+              id,
+              name
+            ),
+            profile:profiles (
+              id,
+              username
+            )
+          `,
+          )
+          .eq('location_id', locationId)
+          .eq('is_active', true),
+      ])
+
+    const residents = this.handleResponse(
+      residentsResponse,
+      'GeospatialService.getLotDetails',
+    )
+    const businesses = this.handleResponse(
+      businessesResponse,
+      'GeospatialService.getLotDetails',
+    )
+    const services = this.handleResponse(
+      servicesResponse,
+      'GeospatialService.getLotDetails',
+    )
+
+    return {
+      residents: residents.map((resident) => ({
+        ...resident.profile,
+        is_owner: resident.is_owner ?? false,
+      })),
+      businesses: businesses as Array<LotBusiness>,
+      services: services as Array<LotService>,
+    }
+  }
+
+  // ==================== LOT BOUNDARIES ====================
+
+  /**
+   * Get the lots that have a boundary, with their area and marker point
+   */
+  async getLocationBoundaries(): Promise<Array<LocationBoundary>> {
+    const response = await this.supabase.rpc('get_location_boundaries')
+
+    const rows = this.handleResponse(
+      response,
+      'GeospatialService.getLocationBoundaries',
+    )
+    return rows.map(({ marker_lat, marker_lng, boundary, ...location }) => ({
+      ...location,
+      boundary: boundary as unknown as GeoJsonPolygon,
+      marker: { lat: marker_lat, lng: marker_lng },
+    }))
+  }
+
+  /**
+   * Get the outline of every block, derived from its lot boundaries
+   */
+  async getBlockOutlines(): Promise<Array<BlockOutline>> {
+    const response = await this.supabase.rpc('get_block_outlines')
+
+    const rows = this.handleResponse(
+      response,
+      'GeospatialService.getBlockOutlines',
+    )
+    return rows.map((row) => ({
+      ...row,
+      outline: row.outline as unknown as BlockOutline['outline'],
+    }))
+  }
+
+  /**
+   * Find the lot whose boundary covers a point ("which lot am I on?")
+   * Returns null outside of the drawn lots
+   */
+  async findLocationAtPoint(
+    lat: number,
+    lng: number,
+  ): Promise<LocationAtPoint | null> {
+    const response = await this.supabase.rpc('find_location_at_point', {
+      p_lat: lat,
+      p_lng: lng,
+    })
+
+    const rows = this.handleResponse(
+      response,
+      'GeospatialService.findLocationAtPoint',
+    )
+    return rows[0] ?? null
+  }
+
+  /**
+   * Whether a point lies inside a lot boundary or block outline
+   */
+  isPointInBoundary(lat: number, lng: number, boundary: GeoJsonArea): boolean {
+    return isPointInPolygon(lat, lng, boundary)
+  }
+
+  /**
+   * Area of a lot boundary or block outline in square meters
+   */
+  calculateBoundaryArea(boundary: GeoJsonArea): number {
+    return polygonArea(boundary)
+  }
+
+  /**
+   * Marker position of a lot: its coordinates when it has valid ones,
+   * otherwise the centroid of its boundary
+   */
+  getMarkerPosition(
+    coordinates: Partial<LocationCoordinates> | null,
+    boundary?: GeoJsonArea | null,
+  ): LocationCoordinates | null {
+    if (
+      coordinates?.lat !== undefined &&
+      coordinates.lng !== undefined &&
+      this.validateCoordinates(coordinates.lat, coordinates.lng)
+    ) {
+      return { lat: coordinates.lat, lng: coordinates.lng }
+    }
+
+    return boundary ? polygonCentroid(boundary) : null
+  }
+
   // ==================== DISTANCE AND PROXIMITY ====================
 
   /**
@@ -183,27 +471,25 @@ export class GeospatialService extends BaseService {
   }
 
   /**
-   * Get locations within a specific radius of a point
+   * Get locations within a specific radius of a point, nearest first
+   * Filtered by PostGIS (find_locations_within_radius)
    */
   async getLocationsWithinRadius(
     centerLat: number,
     centerLng: number,
     radiusKm: number = 1,
-  ): Promise<Array<LocationWithCoords>> {
-    const locations = await this.getLocationsWithCoords()
-
-    return locations.filter((location) => {
-      if (!location.lat || !location.lng) return false
-
-      const distance = this.calculateDistance(
-        centerLat,
-        centerLng,
-        location.lat,
-        location.lng,
-      )
-
-      return distance <= radiusKm
+  ): Promise<Array<LocationWithDistance>> {
+    const response = await this.supabase.rpc('find_locations_within_radius', {
+      p_lat: centerLat,
+      p_lng: centerLng,
+      p_radius_meters: radiusKm * 1000,
     })
+
+    const rows = this.handleResponse(
+      response,
+      'GeospatialService.getLocationsWithinRadius',
+    )
+    return rows.map(toLocationWithDistance)
   }
 
   /**
@@ -336,54 +622,26 @@ export class GeospatialService extends BaseService {
 
   /**
    * Create location clusters for map performance
+   * Backed by a grid spatial index, each location only looks at its
+   * neighbouring cells
    */
   calculateLocationClusters(
     locations: Array<{ lat: number; lng: number; id: string }>,
     clusterRadiusKm: number = 0.5,
   ): Array<LocationCluster> {
-    if (locations.length === 0) {
-      return []
-    }
-
-    const clusters: Array<LocationCluster> = []
-    const processed = new Set<string>()
-
-    locations.forEach((location) => {
-      if (processed.has(location.id)) return
-
-      const nearbyLocations = locations.filter((other) => {
-        if (processed.has(other.id)) return false
-        if (other.id === location.id) return true
-
-        const distance = this.calculateDistance(
-          location.lat,
-          location.lng,
-          other.lat,
-          other.lng,
-        )
-
-        return distance <= clusterRadiusKm
-      })
-
-      if (nearbyLocations.length > 0) {
-        const centerLat =
-          nearbyLocations.reduce((sum, loc) => sum + loc.lat, 0) /
-          nearbyLocations.length
-        const centerLng =
-          nearbyLocations.reduce((sum, loc) => sum + loc.lng, 0) /
-          nearbyLocations.length
-
-        clusters.push({
-          center: { lat: centerLat, lng: centerLng },
-          locations: nearbyLocations,
-          count: nearbyLocations.length,
-        })
-
-        nearbyLocations.forEach((loc) => processed.add(loc.id))
-      }
-    })
+    return clusterPoints(locations, clusterRadiusKm).map(toLocationCluster)
+  }
 
-    return clusters
+  /**
+   * Create a zoom-aware clusterer for a set of locations
+   * The cluster radius follows the zoom level and results are cached per zoom
+   */
+  createLocationClusterer(
+    locations: Array<{ lat: number; lng: number; id: string }>,
+    options?: { radiusPx?: number },
+  ): (zoom: number) => Array<LocationCluster> {
+    const clusterer = createZoomClusterer(locations, options)
+    return (zoom) => clusterer(zoom).map(toLocationCluster)
   }
 
   /**
@@ -401,34 +659,24 @@ export class GeospatialService extends BaseService {
 
   /**
    * Find nearest locations to a point
+   * Ordered by PostGIS with a KNN index scan (find_nearest_locations)
    */
   async findNearestLocations(
     centerLat: number,
     centerLng: number,
     limit: number = 10,
-  ): Promise<Array<LocationWithCoords & { distance: number }>> {
-    const locations = await this.getLocationsWithCoords()
-
-    const locationsWithDistance = locations
-      .map((location) => {
-        if (!location.lat || !location.lng) {
-          return { ...location, distance: Infinity }
-        }
-
-        const distance = this.calculateDistance(
-          centerLat,
-          centerLng,
-          location.lat,
-          location.lng,
-        )
-
-        return { ...location, distance }
-      })
-      .filter((location) => location.distance !== Infinity)
-      .sort((a, b) => a.distance - b.distance)
-      .slice(0, limit)
+  ): Promise<Array<LocationWithDistance>> {
+    const response = await this.supabase.rpc('find_nearest_locations', {
+      p_lat: centerLat,
+      p_lng: centerLng,
+      p_limit: limit,
+    })
 
-    return locationsWithDistance
+    const rows = this.handleResponse(
+      response,
+      'GeospatialService.findNearestLocations',
+    )
+    return rows.map(toLocationWithDistance)
   }
 
   /**
@@ -0,0 +1,201 @@
+/**
+ * Household Service
+ *
+ * Roles of the residents of a lot (`profile_location_associations.role`)
+ * and the household history (`household_events`).
+ *
+ * - Members are listed with
+ *   `ProfileLocationAssociationService.getAssociationsByLocation`
+ * - Role changes, removals and ownership transfers go through the
+ *   `set_household_role`, `revoke_household_member` and
+ *   `transfer_household_ownership` RPCs, which check the permissions of the
+ *   current user and record every change in `household_events`
+ * - `is_owner` is kept in sync with the `owner` role by a database trigger
+ */
+
+import { BaseService } from './base.service'
+import type { Row } from '../lib/database-types'
+
+export type HouseholdRole =
+  | 'owner'
+  | 'co_owner'
+  | 'tenant'
+  | 'family_member'
+  | 'staff'
+
+export type HouseholdPermission = 'manage_members' | 'transfer_ownership'
+
+export type HouseholdEventAction =
+  | 'role_changed'
+  | 'revoked'
+  | 'left'
+  | 'ownership_transferred'
+  | 'moved_out'
+  | 'claimed'
+
+interface HouseholdEventProfile {
+  id: string
+  username: string | null
+  full_name: string | null
+}
+
+export interface HouseholdEvent extends Row<'household_events'> {
+  actor: HouseholdEventProfile | null
+  profile: HouseholdEventProfile | null
+}
+
+export const HOUSEHOLD_ROLE_LABELS: Record<HouseholdRole, string> = {
+  owner: 'Owner',
+  co_owner: 'Co-owner',
+  tenant: 'Tenant',
+  family_member: 'Family member',
+  staff: 'Household staff',
+}
+
+// Mirrors the checks of the household RPCs, used to show the allowed actions
+export const HOUSEHOLD_ROLE_PERMISSIONS: Record<
+  HouseholdRole,
+  Array<HouseholdPermission>
+> = {
+  owner: ['manage_members', 'transfer_ownership'],
+  co_owner: ['manage_members'],
+  tenant: [],
+  family_member: [],
+  staff: [],
+}
+
+export function hasHouseholdPermission(
+  role: string | null | undefined,
+  permission: HouseholdPermission,
+): boolean {
+  return (
+    !!role &&
+    role in HOUSEHOLD_ROLE_PERMISSIONS &&
+    HOUSEHOLD_ROLE_PERMISSIONS[role as HouseholdRole].includes(permission)
+  )
+}
+
+/**
+ * Whether a member with actorRole may change or remove a member with
+ * memberRole (the owner is only changed by an ownership transfer)
+ */
+export function canManageHouseholdMember(
+  actorRole: string | null | undefined,
+  memberRole: string,
+): boolean {
+  if (!hasHouseholdPermission(actorRole, 'manage_members')) return false
+  if (memberRole === 'owner') return false
+  return actorRole === 'owner' || memberRole !== 'co_owner'
+}
+
+export class HouseholdService extends BaseService {
+  /**
+   * Get the household history of a lot, most recent first
+   */
+  async getHouseholdHistory(
+    locationId: string,
+  ): Promise<Array<HouseholdEvent>> {
+    this.validateRequired(
+      locationId,
+      'locationId',
+      'HouseholdService.getHouseholdHistory',
+    )
+
+    const response = await this.supabase
+      .from('household_events')
+      .select(
+        `
+        *,
+        actor:profiles!household_events_actor_id_fkey (
+          id,
+          username,
+          full_name
+        ),
+        profile:profiles!household_events_profile_id_fkey (
+          id,
+          username,
+          full_name
+        )
+      `,
+      )
+      .eq('location_id', locationId)
+      .order('created_at', { ascending: false })
+
+    return this.handleResponse(
+      response,
+      'HouseholdService.getHouseholdHistory',
+    ) as Array<HouseholdEvent>
+  }
+
+  /**
+   * Change the role of a household member (owners and co-owners)
+   */
+  async setMemberRole(
+    associationId: number,
+    role: Exclude<HouseholdRole, 'owner'>,
+  ): Promise<Row<'profile_location_associations'>> {
+    this.validateRequired(
+      associationId,
+      'associationId',
+      'HouseholdService.setMemberRole',
+    )
+
+    const response = await this.supabase.rpc('set_household_role', {
+      p_association_id: associationId,
+      p_role: role,
+    })
+
+    return this.handleResponse(response, 'HouseholdService.setMemberRole')
+  }
+
+  /**
+   * Remove a member who moved out, or leave the household
+   */
+  async revokeMember(associationId: number): Promise<void> {
+    this.validateRequired(
+      associationId,
+      'associationId',
+      'HouseholdService.revokeMember',
+    )
+
+    const { error } = await this.supabase.rpc('revoke_household_member', {
+      p_association_id: associationId,
+    })
+
+    if (error) {
+      this.handleError(error, 'HouseholdService.revokeMember')
+    }
+  }
+
+  /**
+   * Hand the lot over to another verified member (owner only)
+   * The previous owner becomes a co-owner
+   */
+  async transferOwnership(
+    locationId: string,
+    newOwnerId: string,
+  ): Promise<void> {
+    this.validateRequired(
+      locationId,
+      'locationId',
+      'HouseholdService.transferOwnership',
+    )
+    this.validateRequired(
+      newOwnerId,
+      'newOwnerId',
+      'HouseholdService.transferOwnership',
+    )
+
+    const { error } = await this.supabase.rpc('transfer_household_ownership', {
+      p_location_id: locationId,
+      p_new_owner_id: newOwnerId,
+    })
+
+    if (error) {
+      this.handleError(error, 'HouseholdService.transferOwnership')
+    }
+  }
+}
+
+// Export singleton instance
+export const householdService = new HouseholdService()
@@ -3,13 +3,41 @@
  *
  * Service layer for location association request operations following the
  * Supabase Services & Hooks pattern.
+ *
+ * - Requests go from `pending` to `approved`, `rejected`, `cancelled` or
+ *   `expired`, enforced by the `trigger_location_request_lifecycle` trigger
+ * - Requests for a lot without a verified owner are escalated to the admins
+ *   (`approver_id` is null, `escalated_at` is set)
+ * - Approvers, admins and requesters are notified of every transition by the
+ *   `trigger_notify_location_request_transition` trigger
  */
 
+import { ConflictError, PermissionDeniedError } from '../lib/crud/errors'
 import { BaseService } from './base.service'
 import type { Row } from '../lib/database-types'
 
 type LocationAssociationRequest = Row<'location_association_requests'>
 
+export type LocationAssociationRequestStatus =
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'cancelled'
+  | 'expired'
+
+// Pending requests expire after this many days (process_location_request_expiry)
+export const LOCATION_REQUEST_EXPIRY_DAYS = 14
+
+const REQUEST_SELECT = `
+  *,
+  requester:profiles!location_association_requests_requester_id_fkey(
+    id, username, full_name, avatar_url
+  ),
+  location:locations(
+    id, block, lot
+  )
+`
+
 export class LocationAssociationRequestService extends BaseService {
   /**
    * Get pending requests where user is the approver
@@ -98,6 +126,57 @@ export class LocationAssociationRequestService extends BaseService {
     return response.data
   }
 
+  /**
+   * Get the requests a profile sent, most recent first
+   */
+  async getRequestsByRequester(
+    requesterId: string,
+  ): Promise<Array<LocationAssociationRequest>> {
+    this.validateRequired(
+      requesterId,
+      'requesterId',
+      'LocationAssociationRequestService.getRequestsByRequester',
+    )
+
+    const response = await this.supabase
+      .from('location_association_requests')
+      .select(
+        `
+        *,
+        location:locations(
+          id, block, lot
+        ),
+        approver:profiles!location_association_requests_approver_id_fkey(
+          id, username, full_name, avatar_url
+        )
+      `,
+      )
+      .eq('requester_id', requesterId)
+      .order('created_at', { ascending: false })
+
+    return this.handleResponse(
+      response,
+      'LocationAssociationRequestService.getRequestsByRequester',
+    )
+  }
+
+  /**
+   * Get pending requests for lots without an owner (admins)
+   */
+  async getEscalatedRequests(): Promise<Array<LocationAssociationRequest>> {
+    const response = await this.supabase
+      .from('location_association_requests')
+      .select(REQUEST_SELECT)
+      .eq('status', 'pending')
+      .is('approver_id', null)
+      .order('created_at', { ascending: true })
+
+    return this.handleResponse(
+      response,
+      'LocationAssociationRequestService.getEscalatedRequests',
+    )
+  }
+
   /**
    * Get the owner of a location
    */
@@ -129,46 +208,18 @@ export class LocationAssociationRequestService extends BaseService {
     id: number,
     approverId: string,
   ): Promise<LocationAssociationRequest> {
-    this.validateRequired(
-      id,
-      'id',
-      'LocationAssociationRequestService.approveRequest',
-    )
     this.validateRequired(
       approverId,
       'approverId',
       'LocationAssociationRequestService.approveRequest',
     )
 
-    const response = await this.supabase
-      .from('location_association_requests')
-      .update({
-        status: 'approved',
-        approved_at: new Date().toISOString(),
-      })
-      .eq('id', id)
-      .eq('approver_id', approverId)
-      .select(
-        `
-        *,
-        requester:profiles!location_association_requests_requester_id_fkey(
-          id, username, full_name, avatar_url
-        ),
-        location:locations(
-          id, block, lot
-        )
-      `,
-      )
-      .single()
-
-    if (response.error) {
-      this.handleError(
-        response.error,
-        'LocationAssociationRequestService.approveRequest',
-      )
-    }
-
-    return response.data
+    return this.transitionRequest(
+      id,
+      'approved',
+      { approverId },
+      'LocationAssociationRequestService.approveRequest',
+    )
   }
 
   /**
@@ -179,54 +230,98 @@ export class LocationAssociationRequestService extends BaseService {
     approverId: string,
   ): Promise<LocationAssociationRequest> {
     this.validateRequired(
+      approverId,
+      'approverId',
+      'LocationAssociationRequestService.rejectRequest',
+    )
+
+    return this.transitionRequest(
       id,
-      'id',
+      'rejected',
+      { approverId },
       'LocationAssociationRequestService.rejectRequest',
     )
+  }
+
+  /**
+   * Approve or reject an escalated request (admins)
+   * The admin becomes the approver of the request
+   */
+  async resolveEscalatedRequest(
+    id: number,
+    status: 'approved' | 'rejected',
+  ): Promise<LocationAssociationRequest> {
+    return this.transitionRequest(
+      id,
+      status,
+      { escalated: true },
+      'LocationAssociationRequestService.resolveEscalatedRequest',
+    )
+  }
+
+  /**
+   * Cancel a pending request (requester)
+   */
+  async cancelRequest(
+    id: number,
+    requesterId: string,
+  ): Promise<LocationAssociationRequest> {
     this.validateRequired(
-      approverId,
-      'approverId',
-      'LocationAssociationRequestService.rejectRequest',
+      requesterId,
+      'requesterId',
+      'LocationAssociationRequestService.cancelRequest',
     )
 
-    const response = await this.supabase
+    return this.transitionRequest(
+      id,
+      'cancelled',
+      { requesterId },
+      'LocationAssociationRequestService.cancelRequest',
+    )
+  }
+
+  /**
+   * Move a pending request to its final status
+   * Timestamps and permissions are handled by trigger_location_request_lifecycle
+   */
+  private async transitionRequest(
+    id: number,
+    status: Exclude<LocationAssociationRequestStatus, 'pending' | 'expired'>,
+    actor: { approverId?: string; requesterId?: string; escalated?: boolean },
+    context: string,
+  ): Promise<LocationAssociationRequest> {
+    this.validateRequired(id, 'id', context)
+
+    let query = this.supabase
       .from('location_association_requests')
-      .update({
-        status: 'rejected',
-        rejected_at: new Date().toISOString(),
-      })
+      .update({ status })
       .eq('id', id)
-      .eq('approver_id', approverId)
-      .select(
-        `
-        *,
-        requester:profiles!location_association_requests_requester_id_fkey(
-          id, username, full_name, avatar_url
-        ),
-        location:locations(
-          id, block, lot
-        )
-      `,
-      )
-      .single()
+      .eq('status', 'pending')
 
-    if (response.error) {
-      this.handleError(
-        response.error,
-        'LocationAssociationRequestService.rejectRequest',
-      )
+    if (actor.approverId) {
+      query = query.eq('approver_id', actor.approverId)
+    }
+    if (actor.requesterId) {
+      query = query.eq('requester_id', actor.requesterId)
+    }
+    if (actor.escalated) {
+      query = query.is('approver_id', null)
     }
 
-    return response.data
+    const response = await query.select(REQUEST_SELECT).single()
+
+    return this.handleResponse(response, context)
   }
 
   /**
    * Create a new location association request with validation
+   * Without an owner the request is escalated to the admins, leave
+   * approver_id empty in that case
    */
   async createRequestWithValidation(requestData: {
     requester_id: string
     location_id: string
-    approver_id: string
+    approver_id?: string | null
   }): Promise<LocationAssociationRequest> {
     this.validateRequired(
       requestData.requester_id,
@@ -238,22 +333,18 @@ export class LocationAssociationRequestService extends BaseService {
       'location_id',
       'LocationAssociationRequestService.createRequestWithValidation',
     )
-    this.validateRequired(
-      requestData.approver_id,
-      'approver_id',
-      'LocationAssociationRequestService.createRequestWithValidation',
-    )
 
-    // First, verify that the approver is actually the owner of the location
+    // Verify that the approver is actually the owner of the location, the
+    // trigger assigns the owner again on insert
     const ownerId = await this.getLocationOwner(requestData.location_id)
 
-    if (!ownerId) {
-      throw new Error('No owner found for this location')
-    }
-
-    if (ownerId !== requestData.approver_id) {
-      throw new Error(
+    if (requestData.approver_id && ownerId !== requestData.approver_id) {
+      throw new PermissionDeniedError(
         'The specified approver is not the owner of this location',
+        {
+          context:
+            'LocationAssociationRequestService.createRequestWithValidation',
+        },
       )
     }
 
@@ -268,11 +359,18 @@ export class LocationAssociationRequestService extends BaseService {
 
     if (existingResponse.data) {
       if (existingResponse.data.status === 'rejected') {
-        throw new Error(
+        throw new ConflictError(
           'Request was previously rejected. Please contact support.',
+          {
+            context:
+              'LocationAssociationRequestService.createRequestWithValidation',
+          },
         )
       } else {
-        throw new Error('Request already exists for this location')
+        throw new ConflictError('Request already exists for this location', {
+          context:
+            'LocationAssociationRequestService.createRequestWithValidation',
+        })
       }
     }
     if (existingResponse.error.code !== 'PGRST116') {
@@ -288,7 +386,7 @@ export class LocationAssociationRequestService extends BaseService {
       .insert({
         requester_id: requestData.requester_id,
         location_id: requestData.location_id,
-        approver_id: requestData.approver_id,
+        approver_id: ownerId,
         status: 'pending',
       })
       .select(
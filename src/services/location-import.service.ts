@@ -0,0 +1,449 @@
+/**
+ * Location Import Service
+ *
+ * Bulk import and export of the subdivision: blocks, lots, coordinates and
+ * markers, as CSV (`block,lot,lat,lng,marker`) or as a GeoJSON
+ * FeatureCollection of points and lot boundaries.
+ *
+ * - Files are parsed and validated in the browser, coordinates with
+ *   `GeospatialService.validateCoordinates`, and duplicated (block, lot)
+ *   pairs are reported with their line or feature number
+ * - The `import_locations` RPC matches rows with the existing lots by
+ *   (block, lot): a dry run returns the diff, applying it writes every row
+ *   in one transaction
+ * - Lot boundaries are only carried by GeoJSON: a Polygon feature, or a
+ *   GeometryCollection of the lot's Point and Polygon. CSV rows keep the
+ *   existing boundaries
+ * - Exports use the same formats, so an export can be edited and imported
+ *   again
+ */
+
+import { ValidationError } from '../lib/crud/errors'
+import { isGeoJsonPolygon } from '../lib/geo/polygon'
+import { BaseService } from './base.service'
+import { geospatialService } from './geospatial.service'
+import type { LocationBoundary, LocationWithCoords } from './geospatial.service'
+import type { GeoJsonPolygon } from '../lib/geo/polygon'
+import type { Database, Json } from '../lib/database-types'
+
+export type LocationImportFormat = 'csv' | 'geojson'
+
+export interface LocationImportRow {
+  block: string
+  lot: string
+  lat: number | null
+  lng: number | null
+  marker_url: string | null
+  boundary: GeoJsonPolygon | null
+}
+
+export interface LocationImportIssue {
+  // CSV line or GeoJSON feature number, starting at 1
+  line: number
+  message: string
+}
+
+export interface ParsedLocationImport {
+  rows: Array<LocationImportRow>
+  issues: Array<LocationImportIssue>
+}
+
+export type LocationImportAction = 'create' | 'update' | 'unchanged'
+
+export type LocationImportChange =
+  Database['public']['Functions']['import_locations']['Returns'][number] & {
+    action: LocationImportAction
+  }
+
+export const MAX_LOCATION_IMPORT_ROWS = 5000
+
+const CSV_COLUMNS = ['block', 'lot', 'lat', 'lng', 'marker'] as const
+
+/**
+ * Split CSV text into records, supporting quoted fields with commas,
+ * escaped quotes ("") and line breaks
+ */
+function parseCsvRecords(text: string): Array<Array<string>> {
+  const records: Array<Array<string>> = []
+  let record: Array<string> = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || record.length) {
+    record.push(field)
+    records.push(record)
+  }
+
+  return records
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function parseCoordinate(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  return typeof value === 'number' ? value : Number(String(value).trim())
+}
+
+/**
+ * Check required fields, coordinates and duplicated (block, lot) pairs
+ */
+function validateRows(
+  entries: Array<{ line: number; row: LocationImportRow }>,
+  issues: Array<LocationImportIssue>,
+): Array<LocationImportRow> {
+  const seen = new Map<string, number>()
+  const rows: Array<LocationImportRow> = []
+
+  for (const { line, row } of entries) {
+    if (!row.block || !row.lot) {
+      issues.push({ line, message: 'Block and lot are required' })
+      continue
+    }
+
+    const hasLat = row.lat !== null
+    const hasLng = row.lng !== null
+    if (
+      hasLat !== hasLng ||
+      (hasLat && !geospatialService.validateCoordinates(row.lat!, row.lng!))
+    ) {
+      issues.push({
+        line,
+        message: `Invalid coordinates for Block ${row.block} Lot ${row.lot}`,
+      })
+      continue
+    }
+
+    const key = `${row.block}\u0000${row.lot}`
+    const firstLine = seen.get(key)
+    if (firstLine !== undefined) {
+      issues.push({
+        line,
+        message: `Block ${row.block} Lot ${row.lot} already appears on line ${firstLine}`,
+      })
+      continue
+    }
+
+    seen.set(key, line)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+/**
+ * Parse a CSV file with a header row (block, lot, lat, lng, marker)
+ * Columns can be in any order, lat/lng and marker are optional
+ */
+export function parseLocationsCsv(text: string): ParsedLocationImport {
+  const issues: Array<LocationImportIssue> = []
+  const [header = [], ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''))
+  const columns = header.map((column) => column.trim().toLowerCase())
+  const index = (name: string) =>
+    columns.findIndex(
+      (column) =>
+        column === name || (name === 'marker' && column === 'marker_url'),
+    )
+
+  if (index('block') === -1 || index('lot') === -1) {
+    return {
+      rows: [],
+      issues: [
+        { line: 1, message: 'The header must include block and lot columns' },
+      ],
+    }
+  }
+
+  const entries = records
+    .map((record, i) => ({ record, line: i + 2 }))
+    .filter(({ record }) => record.some((value) => value.trim()))
+    .map(({ record, line }) => {
+      const value = (name: string) => (record[index(name)] || '').trim()
+      return {
+        line,
+        row: {
+          block: value('block'),
+          lot: value('lot'),
+          lat: parseCoordinate(value('lat')),
+          lng: parseCoordinate(value('lng')),
+          marker_url: value('marker') || null,
+          boundary: null,
+        },
+      }
+    })
+
+  return { rows: validateRows(entries, issues), issues }
+}
+
+// Parsed JSON values are narrowed from unknown before reading their fields
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Split a feature geometry into the lot point and boundary
+ * Returns an error message for unsupported geometries
+ */
+function splitGeometry(
+  geometry: unknown,
+): { point: Array<unknown> | null; boundary: GeoJsonPolygon | null } | string {
+  const parts: Array<unknown> =
+    isJsonObject(geometry) && geometry.type === 'GeometryCollection'
+      ? Array.isArray(geometry.geometries)
+        ? geometry.geometries
+        : []
+      : geometry
+        ? [geometry]
+        : []
+  let point: Array<unknown> | null = null
+  let boundary: GeoJsonPolygon | null = null
+
+  for (const part of parts) {
+    const fields = isJsonObject(part) ? part : {}
+    if (fields.type === 'Point' && !point) {
+      point = Array.isArray(fields.coordinates) ? fields.coordinates : []
+    } else if (fields.type === 'Polygon' && !boundary) {
+      if (!isGeoJsonPolygon(part)) return 'Invalid Polygon boundary'
+      boundary = { type: 'Polygon', coordinates: part.coordinates }
+    } else {
+      return `Unsupported geometry ${String(fields.type)}, expected a Point and a Polygon`
+    }
+  }
+
+  return { point, boundary }
+}
+
+/**
+ * Parse a GeoJSON FeatureCollection of points and/or polygons with block,
+ * lot and marker properties (features without geometry import lots without
+ * coordinates)
+ */
+export function parseLocationsGeoJson(text: string): ParsedLocationImport {
+  let collection: unknown
+  try {
+    collection = JSON.parse(text)
+  } catch {
+    return { rows: [], issues: [{ line: 1, message: 'Invalid JSON' }] }
+  }
+
+  if (
+    !isJsonObject(collection) ||
+    collection.type !== 'FeatureCollection' ||
+    !Array.isArray(collection.features)
+  ) {
+    return {
+      rows: [],
+      issues: [{ line: 1, message: 'Expected a GeoJSON FeatureCollection' }],
+    }
+  }
+
+  const issues: Array<LocationImportIssue> = []
+  const entries: Array<{ line: number; row: LocationImportRow }> = []
+
+  collection.features.forEach((feature: unknown, i: number) => {
+    const line = i + 1
+    const geometry = splitGeometry(
+      isJsonObject(feature) ? feature.geometry : null,
+    )
+    if (typeof geometry === 'string') {
+      issues.push({ line, message: geometry })
+      return
+    }
+
+    const properties =
+      isJsonObject(feature) && isJsonObject(feature.properties)
+        ? feature.properties
+        : {}
+    const [lng, lat] = geometry.point ?? []
+    entries.push({
+      line,
+      row: {
+        block: String(properties.block ?? '').trim(),
+        lot: String(properties.lot ?? '').trim(),
+        lat: parseCoordinate(lat),
+        lng: parseCoordinate(lng),
+        marker_url:
+          String(properties.marker ?? properties.marker_url ?? '').trim() ||
+          null,
+        boundary: geometry.boundary,
+      },
+    })
+  })
+
+  return { rows: validateRows(entries, issues), issues }
+}
+
+// The coordinates RPCs return null for lots that were never placed
+function hasCoordinates(location: LocationWithCoords): boolean {
+  return Number.isFinite(location.lat) && Number.isFinite(location.lng)
+}
+
+/**
+ * Format locations as CSV, with the import columns
+ */
+export function toLocationsCsv(locations: Array<LocationWithCoords>): string {
+  const lines = locations.map((location) =>
+    [
+      location.block,
+      location.lot,
+      hasCoordinates(location) ? location.lat : '',
+      hasCoordinates(location) ? location.lng : '',
+      location.marker_url ?? '',
+    ]
+      .map((value) => escapeCsvField(String(value)))
+      .join(','),
+  )
+
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n'
+}
+
+/**
+ * Format locations as a GeoJSON FeatureCollection of points, with the
+ * boundary alongside the point for lots that have one
+ */
+export function toLocationsGeoJson(
+  locations: Array<LocationWithCoords>,
+  boundaries: Array<LocationBoundary> = [],
+): string {
+  const boundaryById = new Map(
+    boundaries.map((boundary) => [boundary.id, boundary.boundary]),
+  )
+  const toGeometry = (location: LocationWithCoords) => {
+    const point = hasCoordinates(location)
+      ? { type: 'Point', coordinates: [location.lng, location.lat] }
+      : null
+    const boundary = boundaryById.get(location.id)
+    if (!boundary) return point
+
+    return point
+      ? { type: 'GeometryCollection', geometries: [point, boundary] }
+      : boundary
+  }
+
+  return JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: locations.map((location) => ({
+        type: 'Feature',
+        id: location.id,
+        geometry: toGeometry(location),
+        properties: {
+          block: location.block,
+          lot: location.lot,
+          marker: location.marker_url,
+          is_locked: location.is_locked,
+        },
+      })),
+    },
+    null,
+    2,
+  )
+}
+
+export class LocationImportService extends BaseService {
+  /**
+   * Parse and validate an import file
+   * Rows are only imported when there are no issues
+   */
+  parseImport(
+    text: string,
+    format: LocationImportFormat,
+  ): ParsedLocationImport {
+    const parsed =
+      format === 'csv' ? parseLocationsCsv(text) : parseLocationsGeoJson(text)
+
+    if (parsed.rows.length > MAX_LOCATION_IMPORT_ROWS) {
+      return {
+        rows: [],
+        issues: [
+          {
+            line: 1,
+            message: `An import can contain up to ${MAX_LOCATION_IMPORT_ROWS} lots`,
+          },
+        ],
+      }
+    }
+
+    return parsed
+  }
+
+  /**
+   * Compare the rows with the existing lots without writing anything
+   */
+  async previewImport(
+    rows: Array<LocationImportRow>,
+  ): Promise<Array<LocationImportChange>> {
+    return this.runImport(rows, true, 'LocationImportService.previewImport')
+  }
+
+  /**
+   * Create and update the lots in one transaction (admin only)
+   */
+  async applyImport(
+    rows: Array<LocationImportRow>,
+  ): Promise<Array<LocationImportChange>> {
+    return this.runImport(rows, false, 'LocationImportService.applyImport')
+  }
+
+  /**
+   * Export every lot in the import format
+   */
+  async exportLocations(format: LocationImportFormat): Promise<string> {
+    const locations = await geospatialService.getLocationsWithCoords()
+    if (format === 'csv') return toLocationsCsv(locations)
+
+    const boundaries = await geospatialService.getLocationBoundaries()
+    return toLocationsGeoJson(locations, boundaries)
+  }
+
+  private async runImport(
+    rows: Array<LocationImportRow>,
+    dryRun: boolean,
+    context: string,
+  ): Promise<Array<LocationImportChange>> {
+    if (!rows.length) {
+      throw new ValidationError('The import does not contain any lot', {
+        context,
+      })
+    }
+
+    const response = await this.supabase.rpc('import_locations', {
+      p_rows: rows as unknown as Json,
+      p_dry_run: dryRun,
+    })
+
+    return this.handleResponse(response, context) as Array<LocationImportChange>
+  }
+}
+
+// Export singleton instance
+export const locationImportService = new LocationImportService()
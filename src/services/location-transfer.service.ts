@@ -0,0 +1,143 @@
+/**
+ * Location Transfer Service
+ *
+ * Handover of a lot that was sold or vacated (`location_transfers`).
+ *
+ * - `start_location_transfer` removes the previous household, archives or
+ *   reassigns the inside businesses and services of the lot, locks or
+ *   unlocks the lot and returns a one-time claim code
+ * - Only a hash of the claim code is stored, the code is shown once to the
+ *   owner or administrator who started the transfer
+ * - The new owner enters the code with `claim_location` and becomes the
+ *   verified owner of the lot, which is unlocked again
+ * - Unclaimed codes expire after 30 days (`process_location_request_expiry`)
+ */
+
+import { BaseService } from './base.service'
+import type { Row } from '../lib/database-types'
+
+export type LocationTransfer = Row<'location_transfers'>
+export type LocationTransferStatus =
+  | 'pending'
+  | 'claimed'
+  | 'cancelled'
+  | 'expired'
+
+// What happens to the inside businesses and services of the lot
+export type LocationTransferBusinessAction = 'archive' | 'reassign'
+
+export interface StartLocationTransferData {
+  locationId: string
+  businessAction: LocationTransferBusinessAction
+  // Keep the lot locked until the new owner claims it
+  lockUntilClaimed: boolean
+}
+
+export interface LocationTransferClaimCode {
+  transferId: string
+  claimCode: string
+  expiresAt: string
+}
+
+export const LOCATION_CLAIM_CODE_EXPIRY_DAYS = 30
+
+/**
+ * Format a claim code in groups for display (ABCDE-12345)
+ */
+export function formatClaimCode(code: string): string {
+  return code.match(/.{1,5}/g)?.join('-') ?? code
+}
+
+export class LocationTransferService extends BaseService {
+  /**
+   * Get the transfers of a lot, most recent first
+   */
+  async getLocationTransfers(
+    locationId: string,
+  ): Promise<Array<LocationTransfer>> {
+    this.validateRequired(
+      locationId,
+      'locationId',
+      'LocationTransferService.getLocationTransfers',
+    )
+
+    const response = await this.supabase
+      .from('location_transfers')
+      .select('*')
+      .eq('location_id', locationId)
+      .order('created_at', { ascending: false })
+
+    return this.handleResponse(
+      response,
+      'LocationTransferService.getLocationTransfers',
+    )
+  }
+
+  /**
+   * Move the household out of a lot and issue a claim code for the new
+   * owner (lot owner or administrator)
+   */
+  async startTransfer(
+    data: StartLocationTransferData,
+  ): Promise<LocationTransferClaimCode> {
+    const context = 'LocationTransferService.startTransfer'
+    this.validateRequired(data.locationId, 'locationId', context)
+
+    const response = await this.supabase.rpc('start_location_transfer', {
+      p_location_id: data.locationId,
+      p_business_action: data.businessAction,
+      p_lock_until_claimed: data.lockUntilClaimed,
+    })
+
+    const [result] = this.handleResponse(response, context)
+    return {
+      transferId: result.transfer_id,
+      claimCode: result.claim_code,
+      expiresAt: result.code_expires_at,
+    }
+  }
+
+  /**
+   * Claim a lot with a claim code, the current user becomes its owner
+   * Returns the id of the claimed lot
+   */
+  async claimLocation(code: string): Promise<string> {
+    this.validateRequired(
+      code.trim(),
+      'code',
+      'LocationTransferService.claimLocation',
+    )
+
+    const response = await this.supabase.rpc('claim_location', {
+      p_code: code.trim(),
+    })
+
+    return this.handleResponse(
+      response,
+      'LocationTransferService.claimLocation',
+    )
+  }
+
+  /**
+   * Cancel a pending transfer, the claim code stops working and the lot is
+   * unlocked
+   */
+  async cancelTransfer(transferId: string): Promise<void> {
+    this.validateRequired(
+      transferId,
+      'transferId',
+      'LocationTransferService.cancelTransfer',
+    )
+
+    const { error } = await this.supabase.rpc('cancel_location_transfer', {
+      p_transfer_id: transferId,
+    })
+
+    if (error) {
+      this.handleError(error, 'LocationTransferService.cancelTransfer')
+    }
+  }
+}
+
+// Export singleton instance
+export const locationTransferService = new LocationTransferService()
@@ -0,0 +1,221 @@
+/**
+ * Marketplace Offer Service
+ *
+ * In-app offers and reservation requests between buyers and sellers
+ * (`marketplace_offers`).
+ *
+ * - Buyers make offers through the `make_marketplace_offer` RPC, sellers and
+ *   buyers move them forward through `respond_to_marketplace_offer`
+ * - Accepting an offer flips the listing to `pending`, completing it marks
+ *   the listing `sold` and declines the other open offers
+ * - Every step posts a private message linked to the offer
+ *   (`private_messages.marketplace_offer_id`), so the buyer and the seller
+ *   follow the offer in their conversation. Between blocked residents only
+ *   the notification is sent, so a block never stops an offer from moving
+ */
+
+import { ConflictError, ValidationError } from '../lib/crud/errors'
+import { BaseService } from './base.service'
+import type { Row } from '../lib/database-types'
+
+export type MarketplaceOffer = Row<'marketplace_offers'>
+export type MarketplaceOfferKind = 'offer' | 'reservation'
+export type MarketplaceOfferStatus =
+  | 'pending'
+  | 'accepted'
+  | 'declined'
+  | 'withdrawn'
+  | 'cancelled'
+  | 'completed'
+
+// accept, decline, complete and cancel are seller actions, withdraw is the buyer's
+export type MarketplaceOfferAction =
+  | 'accept'
+  | 'decline'
+  | 'complete'
+  | 'cancel'
+  | 'withdraw'
+
+export interface MakeOfferData {
+  listingId: string
+  kind: MarketplaceOfferKind
+  // Required for offers, ignored for reservations
+  amount?: number
+  message?: string
+}
+
+interface OfferProfile {
+  id: string
+  username: string | null
+  full_name: string | null
+  avatar_url: string | null
+}
+
+export interface MarketplaceOfferWithRelations extends MarketplaceOffer {
+  buyer: OfferProfile | null
+  seller: OfferProfile | null
+  listing: {
+    id: string
+    title: string
+    price: number | null
+    currency: string | null
+    status: string | null
+    photo_1_url: string | null
+  } | null
+}
+
+export const OPEN_OFFER_STATUSES: Array<MarketplaceOfferStatus> = [
+  'pending',
+  'accepted',
+]
+
+const OFFER_SELECT = `
+  *,
+  buyer:profiles!marketplace_offers_buyer_id_fkey (
+    id,
+    username,
+    full_name,
+    avatar_url
+  ),
+  seller:profiles!marketplace_offers_seller_id_fkey (
+    id,
+    username,
+    full_name,
+    avatar_url
+  ),
+  listing:marketplace_listings!marketplace_offers_listing_id_fkey (
+    id,
+    title,
+    price,
+    currency,
+    status,
+    photo_1_url
+  )
+`
+
+export class MarketplaceOfferService extends BaseService {
+  // ==================== OFFER QUERIES ====================
+
+  /**
+   * Get the offers on a listing (seller), most recent first
+   */
+  async getListingOffers(
+    listingId: string,
+  ): Promise<Array<MarketplaceOfferWithRelations>> {
+    this.validateRequired(
+      listingId,
+      'listingId',
+      'MarketplaceOfferService.getListingOffers',
+    )
+
+    const response = await this.supabase
+      .from('marketplace_offers')
+      .select(OFFER_SELECT)
+      .eq('listing_id', listingId)
+      .order('created_at', { ascending: false })
+
+    return this.handleResponse(
+      response,
+      'MarketplaceOfferService.getListingOffers',
+    ) as Array<MarketplaceOfferWithRelations>
+  }
+
+  /**
+   * Get the offers a profile made or received, most recent first
+   */
+  async getProfileOffers(
+    profileId: string,
+    options?: { role?: 'buyer' | 'seller'; openOnly?: boolean },
+  ): Promise<Array<MarketplaceOfferWithRelations>> {
+    this.validateRequired(
+      profileId,
+      'profileId',
+      'MarketplaceOfferService.getProfileOffers',
+    )
+
+    let query = this.supabase.from('marketplace_offers').select(OFFER_SELECT)
+
+    if (options?.role === 'buyer') {
+      query = query.eq('buyer_id', profileId)
+    } else if (options?.role === 'seller') {
+      query = query.eq('seller_id', profileId)
+    } else {
+      query = query.or(`buyer_id.eq.${profileId},seller_id.eq.${profileId}`)
+    }
+    if (options?.openOnly) {
+      query = query.in('status', OPEN_OFFER_STATUSES)
+    }
+
+    const response = await query.order('created_at', { ascending: false })
+
+    return this.handleResponse(
+      response,
+      'MarketplaceOfferService.getProfileOffers',
+    ) as Array<MarketplaceOfferWithRelations>
+  }
+
+  // ==================== OFFER WORKFLOW ====================
+
+  /**
+   * Make an offer or a reservation request on a listing
+   */
+  async makeOffer(data: MakeOfferData): Promise<MarketplaceOffer> {
+    const context = 'MarketplaceOfferService.makeOffer'
+    this.validateRequired(data.listingId, 'listingId', context)
+
+    if (
+      data.kind === 'offer' &&
+      (data.amount === undefined || !(data.amount >= 0))
+    ) {
+      throw new ValidationError('Enter the amount you offer', { context })
+    }
+
+    const response = await this.supabase.rpc('make_marketplace_offer', {
+      p_listing_id: data.listingId,
+      p_kind: data.kind,
+      p_amount: data.kind === 'offer' ? data.amount : undefined,
+      p_message: data.message?.trim() || undefined,
+    })
+
+    // idx_marketplace_offers_open_per_buyer
+    if (response.error?.code === '23505') {
+      throw new ConflictError(
+        'You already have an open offer on this listing',
+        {
+          context,
+        },
+      )
+    }
+
+    return this.handleResponse(response, context)
+  }
+
+  /**
+   * Accept, decline, complete, cancel or withdraw an offer
+   */
+  async respondToOffer(
+    offerId: string,
+    action: MarketplaceOfferAction,
+    message?: string,
+  ): Promise<MarketplaceOffer> {
+    this.validateRequired(
+      offerId,
+      'offerId',
+      'MarketplaceOfferService.respondToOffer',
+    )
+
+    const response = await this.supabase.rpc('respond_to_marketplace_offer', {
+      p_offer_id: offerId,
+      p_action: action,
+      p_message: message?.trim() || undefined,
+    })
+
+    return this.handleResponse(
+      response,
+      'MarketplaceOfferService.respondToOffer',
+    )
+  }
+}
+
+// Export singleton instance
+export const marketplaceOfferService = new MarketplaceOfferService()
@@ -0,0 +1,179 @@
+/**
+ * Marketplace Saved Search Service
+ *
+ * Marketplace filters saved per profile (`marketplace_saved_searches`).
+ *
+ * - Filters keep the `MarketplaceFilters` keys, so a saved search is run
+ *   with `MarketplaceService.getListings` as is
+ * - New matching listings are notified by the
+ *   `trigger_notify_saved_search_matches` database trigger
+ *   (`user_notifications`, type `marketplace_saved_search_match`)
+ * - The database only accepts these filter keys, with numeric prices, and
+ *   at most `MAX_SAVED_SEARCHES` searches per profile. The count below only
+ *   gives a friendlier error first
+ */
+
+import { ValidationError } from '../lib/crud/errors'
+import { BaseService } from './base.service'
+import type { MarketplaceFilters } from './marketplace.service'
+import type { Json, Row } from '../lib/database-types'
+
+type SavedSearchRow = Row<'marketplace_saved_searches'>
+
+// Filters that are matched against new listings
+export type SavedSearchFilters = Pick<
+  MarketplaceFilters,
+  'category' | 'listingType' | 'priceMin' | 'priceMax' | 'search'
+>
+
+export interface MarketplaceSavedSearch
+  extends Omit<SavedSearchRow, 'filters'> {
+  filters: SavedSearchFilters
+}
+
+export interface CreateSavedSearchData {
+  name: string
+  filters: MarketplaceFilters
+  notify?: boolean
+}
+
+export const MAX_SAVED_SEARCHES = 10
+
+/**
+ * Keep the filters a saved search supports, dropping empty values
+ */
+export function toSavedSearchFilters(
+  filters: MarketplaceFilters,
+): SavedSearchFilters {
+  const saved: SavedSearchFilters = {}
+
+  if (filters.category) saved.category = filters.category
+  if (filters.listingType) saved.listingType = filters.listingType
+  if (filters.priceMin !== undefined) saved.priceMin = filters.priceMin
+  if (filters.priceMax !== undefined) saved.priceMax = filters.priceMax
+  if (filters.search?.trim()) saved.search = filters.search.trim()
+
+  return saved
+}
+
+export class MarketplaceSavedSearchService extends BaseService {
+  /**
+   * Get a profile's saved searches, most recent first
+   */
+  async getSavedSearches(
+    profileId: string,
+  ): Promise<Array<MarketplaceSavedSearch>> {
+    this.validateRequired(
+      profileId,
+      'profileId',
+      'MarketplaceSavedSearchService.getSavedSearches',
+    )
+
+    const response = await this.supabase
+      .from('marketplace_saved_searches')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('created_at', { ascending: false })
+
+    return this.handleResponse(
+      response,
+      'MarketplaceSavedSearchService.getSavedSearches',
+    ) as Array<MarketplaceSavedSearch>
+  }
+
+  /**
+   * Save a search for the current user
+   */
+  async createSavedSearch(
+    data: CreateSavedSearchData,
+  ): Promise<MarketplaceSavedSearch> {
+    const context = 'MarketplaceSavedSearchService.createSavedSearch'
+    this.validateRequired(data.name.trim(), 'name', context)
+
+    const filters = toSavedSearchFilters(data.filters)
+    if (!Object.keys(filters).length) {
+      throw new ValidationError('Choose at least one filter to save', {
+        context,
+      })
+    }
+
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    const { count, error } = await this.supabase
+      .from('marketplace_saved_searches')
+      .select('id', { count: 'exact', head: true })
+      .eq('profile_id', user?.id || '')
+
+    if (error) {
+      this.handleError(error, context)
+    }
+    if ((count || 0) >= MAX_SAVED_SEARCHES) {
+      throw new ValidationError(
+        `You can save up to ${MAX_SAVED_SEARCHES} searches`,
+        { context },
+      )
+    }
+
+    const response = await this.supabase
+      .from('marketplace_saved_searches')
+      .insert({
+        name: data.name.trim(),
+        filters: filters as Json,
+        notify: data.notify ?? true,
+      })
+      .select()
+      .single()
+
+    return this.handleResponse(response, context) as MarketplaceSavedSearch
+  }
+
+  /**
+   * Rename a saved search or turn its alerts on or off
+   */
+  async updateSavedSearch(
+    id: string,
+    updates: { name?: string; notify?: boolean },
+  ): Promise<MarketplaceSavedSearch> {
+    this.validateRequired(
+      id,
+      'id',
+      'MarketplaceSavedSearchService.updateSavedSearch',
+    )
+
+    const response = await this.supabase
+      .from('marketplace_saved_searches')
+      .update({ ...updates, name: updates.name?.trim() })
+      .eq('id', id)
+      .select()
+      .single()
+
+    return this.handleResponse(
+      response,
+      'MarketplaceSavedSearchService.updateSavedSearch',
+    ) as MarketplaceSavedSearch
+  }
+
+  /**
+   * Delete a saved search
+   */
+  async deleteSavedSearch(id: string): Promise<void> {
+    this.validateRequired(
+      id,
+      'id',
+      'MarketplaceSavedSearchService.deleteSavedSearch',
+    )
+
+    const { error } = await this.supabase
+      .from('marketplace_saved_searches')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      this.handleError(error, 'MarketplaceSavedSearchService.deleteSavedSearch')
+    }
+  }
+}
+
+// Export singleton instance
+export const marketplaceSavedSearchService = new MarketplaceSavedSearchService()
@@ -3,9 +3,26 @@
  *
  * Handles marketplace listings with mobile-first optimizations.
  * Includes product listings, categories, search, status management, and RLS compliance.
+ *
+ * Listing lifecycle:
+ * - Listings expire 30 days after creation (`expires_at`, set by a trigger)
+ * - `process_marketplace_listing_expiry()` runs hourly: it warns owners 3 days
+ *   ahead, marks listings expired and archives them 30 days later
+ * - Owners renew for free in the last 3 days, or at any time for coins.
+ *   Renewing brings back an archived listing, never one hidden by the
+ *   moderators (`hidden_at`)
  */
 
+import { ConflictError, NotFoundError } from '../lib/crud/errors'
+import {
+  getPhotoSlots,
+  getRemovedPhotos,
+  toPhotoColumns,
+} from '../lib/media/photo-slots'
 import { BaseService } from './base.service'
+import { PREFIX_SEARCH_OPTIONS, toPrefixSearchQuery } from './search.service'
+import { mediaService } from './media.service'
+import type { PhotoSlots } from '../lib/media/photo-slots'
 import type { Database } from '../lib/database-types'
 
 type MarketplaceListing =
@@ -31,6 +48,10 @@ export interface MarketplaceListingWithRelations extends MarketplaceListing {
   }
 }
 
+export const LISTING_DURATION_DAYS = 30
+export const LISTING_EXPIRY_WARNING_DAYS = 3
+export const LISTING_RENEWAL_COST = 5 // coins, for a renewal before the warning window
+
 export interface MarketplaceFilters {
   profileId?: string
   category?: string
@@ -41,6 +62,8 @@ export interface MarketplaceFilters {
   priceMin?: number
   priceMax?: number
   search?: string
+  // Expired listings are excluded unless requested or filtered by status
+  includeExpired?: boolean
   limit?: number
   offset?: number
 }
@@ -50,6 +73,50 @@ export interface MarketplaceListResult {
   count: number
 }
 
+export interface ListingExpiry {
+  isExpired: boolean
+  isExpiringSoon: boolean
+  // Whole days until expires_at, negative once expired, null without expiry
+  daysLeft: number | null
+  canRenewForFree: boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Expiry state of a listing, mirrors the rules of renew_marketplace_listing()
+ */
+export function getListingExpiry(
+  listing: Pick<MarketplaceListing, 'status' | 'expires_at'>,
+  now = new Date(),
+): ListingExpiry {
+  if (!listing.expires_at) {
+    return {
+      isExpired: listing.status === 'expired',
+      isExpiringSoon: false,
+      daysLeft: null,
+      canRenewForFree: listing.status === 'expired',
+    }
+  }
+
+  const remainingMs = new Date(listing.expires_at).getTime() - now.getTime()
+  const isExpired = listing.status === 'expired' || remainingMs <= 0
+  const isExpiringSoon =
+    !isExpired && remainingMs <= LISTING_EXPIRY_WARNING_DAYS * DAY_MS
+
+  return {
+    isExpired,
+    isExpiringSoon,
+    daysLeft: Math.ceil(remainingMs / DAY_MS),
+    canRenewForFree: listing.status !== 'sold' && (isExpired || isExpiringSoon),
+  }
+}
+
+// PostgREST filter for listings whose expires_at is not reached yet
+function notExpiredFilter(): string {
+  return `expires_at.is.null,expires_at.gt.${new Date().toISOString()}`
+}
+
 export class MarketplaceService extends BaseService {
   /**
    * Get a single marketplace listing with relations
@@ -122,6 +189,10 @@ export class MarketplaceService extends BaseService {
     if (filters?.status) {
       query = query.eq('status', filters.status)
     }
+    // Listings past expires_at are hidden before the hourly job marks them
+    if (!filters?.includeExpired && filters?.status !== 'expired') {
+      query = query.neq('status', 'expired').or(notExpiredFilter())
+    }
     if (filters?.featured !== undefined) {
       query = query.eq('is_featured', filters.featured)
     }
@@ -135,9 +206,14 @@ export class MarketplaceService extends BaseService {
       query = query.lte('price', filters.priceMax)
     }
     if (filters?.search) {
-      query = query.or(
-        `title.ilike.%${filters.search}%,description.ilike.%${filters.search}%,category.ilike.%${filters.search}%`,
-      )
+      const searchQuery = toPrefixSearchQuery(filters.search)
+      if (searchQuery) {
+        query = query.textSearch(
+          'search_vector',
+          searchQuery,
+          PREFIX_SEARCH_OPTIONS,
+        )
+      }
     }
 
     // Order by featured first, then created_at desc
@@ -168,7 +244,9 @@ export class MarketplaceService extends BaseService {
   /**
    * Get listings by profile
    */
-  async getListingsByProfile(profileId: string): Promise<Array<MarketplaceListing>> {
+  async getListingsByProfile(
+    profileId: string,
+  ): Promise<Array<MarketplaceListing>> {
     this.validateRequired(profileId, 'profileId', 'getListingsByProfile')
 
     // Check if current user can see all listings or only active ones
@@ -219,6 +297,7 @@ export class MarketplaceService extends BaseService {
       )
       .eq('is_featured', true)
       .eq('is_active', true)
+      .or(notExpiredFilter())
       .order('created_at', { ascending: false })
       .limit(limit)
 
@@ -259,6 +338,7 @@ export class MarketplaceService extends BaseService {
       `,
       )
       .eq('is_active', true)
+      .or(notExpiredFilter())
       .order('created_at', { ascending: false })
       .limit(limit)
 
@@ -272,6 +352,31 @@ export class MarketplaceService extends BaseService {
     return filteredData as Array<any>
   }
 
+  /**
+   * Get a profile's listings that expire soon or have expired, soonest first
+   * Listings hidden by the moderators cannot be renewed and are left out
+   */
+  async getExpiringListings(
+    profileId: string,
+  ): Promise<Array<MarketplaceListing>> {
+    this.validateRequired(profileId, 'profileId', 'getExpiringListings')
+
+    const warningEnd = new Date(
+      Date.now() + LISTING_EXPIRY_WARNING_DAYS * DAY_MS,
+    ).toISOString()
+
+    const response = await this.supabase
+      .from('marketplace_listings')
+      .select('*')
+      .eq('profile_id', profileId)
+      .in('status', ['available', 'pending', 'expired'])
+      .is('hidden_at', null)
+      .lte('expires_at', warningEnd)
+      .order('expires_at', { ascending: true })
+
+    return this.handleResponse(response, 'getExpiringListings')
+  }
+
   /**
    * Create a marketplace listing
    */
@@ -295,18 +400,68 @@ export class MarketplaceService extends BaseService {
   async updateListing(
     id: string,
     updates: MarketplaceListingUpdate,
+    options?: { expectedUpdatedAt?: string | null },
   ): Promise<MarketplaceListing> {
     this.validateRequired(id, 'id', 'updateListing')
     this.validateRequired(updates, 'updates', 'updateListing')
 
-    const response = await this.supabase
+    let query = this.supabase
       .from('marketplace_listings')
       .update(this.createOptimisticUpdate(updates))
       .eq('id', id)
-      .select()
+
+    // Optimistic concurrency: only apply on top of the version the edit was made from
+    if (options?.expectedUpdatedAt) {
+      query = query.eq('updated_at', options.expectedUpdatedAt)
+    }
+
+    const response = await query.select().maybeSingle()
+    const listing = this.handleOptionalResponse(response, 'updateListing')
+
+    if (!listing) {
+      if (options?.expectedUpdatedAt) {
+        throw new ConflictError(
+          'Listing was changed or removed since this edit was made',
+          { context: 'updateListing' },
+        )
+      }
+      throw new NotFoundError('Listing not found', { context: 'updateListing' })
+    }
+
+    return listing
+  }
+
+  /**
+   * Save the photo slots of a listing and remove the uploads it no longer uses
+   */
+  async updateListingPhotos(
+    id: string,
+    slots: PhotoSlots,
+  ): Promise<MarketplaceListing> {
+    this.validateRequired(id, 'id', 'updateListingPhotos')
+
+    const current = await this.supabase
+      .from('marketplace_listings')
+      .select('photo_1_url, photo_2_url, photo_3_url, photo_4_url, photo_5_url')
+      .eq('id', id)
       .single()
+    const previous = getPhotoSlots(
+      this.handleResponse(current, 'updateListingPhotos'),
+    )
 
-    return this.handleResponse(response, 'updateListing')
+    const listing = await this.updateListing(id, toPhotoColumns(slots))
+
+    try {
+      await mediaService.removePhotos(
+        'marketplace_listings',
+        getRemovedPhotos(previous, slots),
+      )
+    } catch (error) {
+      // The listing is saved, leftover files are only wasted storage
+      console.error('Error removing replaced listing photos:', error)
+    }
+
+    return listing
   }
 
   /**
@@ -331,6 +486,27 @@ export class MarketplaceService extends BaseService {
     return this.handleResponse(response, 'updateListingStatus')
   }
 
+  /**
+   * Renew a listing for another 30 days
+   * Free during the warning window or once expired, otherwise spends
+   * LISTING_RENEWAL_COST coins when useCoins is set
+   */
+  async renewListing(
+    id: string,
+    options?: { useCoins?: boolean },
+  ): Promise<MarketplaceListing> {
+    this.validateRequired(id, 'id', 'renewListing')
+
+    const response = await this.supabase.rpc('renew_marketplace_listing', {
+      p_listing_id: id,
+      p_use_coins: options?.useCoins ?? false,
+    })
+
+    // Insufficient balance and early free renewals are typed by toServiceError
+    const rows = this.handleResponse(response, 'renewListing')
+    return rows[0]
+  }
+
   /**
    * Toggle featured status
    */
@@ -354,7 +530,7 @@ export class MarketplaceService extends BaseService {
   }
 
   /**
-   * Delete a marketplace listing
+   * Delete a marketplace listing and its uploaded photos
    */
   async deleteListing(id: string): Promise<void> {
     this.validateRequired(id, 'id', 'deleteListing')
@@ -363,8 +539,21 @@ export class MarketplaceService extends BaseService {
       .from('marketplace_listings')
       .delete()
       .eq('id', id)
+      .select('profile_id')
+      .maybeSingle()
 
-    this.handleResponse(response, 'deleteListing')
+    const deleted = this.handleOptionalResponse(response, 'deleteListing')
+    if (!deleted?.profile_id) return
+
+    try {
+      await mediaService.removeEntityPhotos(
+        'marketplace_listings',
+        deleted.profile_id,
+        id,
+      )
+    } catch (error) {
+      console.error('Error removing listing photos:', error)
+    }
   }
 
   /**
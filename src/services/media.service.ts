@@ -0,0 +1,141 @@
+/**
+ * Media Service
+ *
+ * Uploads the photos of listings, businesses and services
+ * (photo_1_url..photo_5_url) to one public Supabase Storage bucket per entity.
+ *
+ * - Photos are resized and re-encoded client-side, which strips EXIF data
+ * - Files live under `<owner_id>/<entity_id>/`, so every photo of an entity
+ *   can be removed with its folder, including uploads that were never saved
+ * - URLs that don't belong to the bucket (pasted links) are left untouched
+ */
+
+import { ValidationError } from '../lib/crud/errors'
+import { compressImage } from '../lib/media/image-processing'
+import { BaseService } from './base.service'
+
+export type MediaEntity =
+  | 'marketplace_listings'
+  | 'user_business_inside'
+  | 'user_business_outside'
+  | 'user_services'
+
+export const MEDIA_BUCKETS: Record<MediaEntity, string> = {
+  marketplace_listings: 'marketplace-photos',
+  user_business_inside: 'business-inside-photos',
+  user_business_outside: 'business-outside-photos',
+  user_services: 'service-photos',
+}
+
+export const ALLOWED_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+
+// Limit applies to the original file, photos are compressed afterwards
+export const MAX_PHOTO_SIZE = 15 * 1024 * 1024 // 15 MB
+
+export class MediaService extends BaseService {
+  // ==================== VALIDATION ====================
+
+  /**
+   * Validate a photo before upload
+   */
+  validatePhoto(file: File): void {
+    const context = 'MediaService.validatePhoto'
+    this.validateRequired(file, 'file', context)
+
+    if (!ALLOWED_PHOTO_TYPES.includes(file.type)) {
+      throw new ValidationError('Photos must be JPEG, PNG or WebP images', {
+        context,
+      })
+    }
+    if (file.size > MAX_PHOTO_SIZE) {
+      throw new ValidationError('Photo is larger than 15 MB', { context })
+    }
+  }
+
+  // ==================== STORAGE OPERATIONS ====================
+
+  /**
+   * Upload a photo of an entity and return its public URL
+   */
+  async uploadPhoto(
+    entity: MediaEntity,
+    ownerId: string,
+    entityId: string,
+    file: File,
+  ): Promise<string> {
+    const context = 'MediaService.uploadPhoto'
+    this.validateRequired(ownerId, 'ownerId', context)
+    this.validateRequired(entityId, 'entityId', context)
+    this.validatePhoto(file)
+
+    const image = await compressImage(file)
+    const path = `${ownerId}/${entityId}/${crypto.randomUUID()}.jpg`
+    const storage = this.supabase.storage.from(MEDIA_BUCKETS[entity])
+
+    const { error } = await storage.upload(path, image.blob, {
+      contentType: image.blob.type,
+    })
+    if (error) this.handleError(error, context)
+
+    return storage.getPublicUrl(path).data.publicUrl
+  }
+
+  /**
+   * Remove photos by public URL, ignoring URLs from outside the bucket
+   */
+  async removePhotos(entity: MediaEntity, urls: Array<string>): Promise<void> {
+    const paths = urls
+      .map((url) => this.getStoragePath(entity, url))
+      .filter((path): path is string => !!path)
+    if (!paths.length) return
+
+    const { error } = await this.supabase.storage
+      .from(MEDIA_BUCKETS[entity])
+      .remove(paths)
+
+    if (error) {
+      this.handleError(error, 'MediaService.removePhotos')
+    }
+  }
+
+  /**
+   * Remove every file uploaded for an entity, used once it is deleted
+   */
+  async removeEntityPhotos(
+    entity: MediaEntity,
+    ownerId: string,
+    entityId: string,
+  ): Promise<void> {
+    const context = 'MediaService.removeEntityPhotos'
+    this.validateRequired(ownerId, 'ownerId', context)
+    this.validateRequired(entityId, 'entityId', context)
+
+    const folder = `${ownerId}/${entityId}`
+    const storage = this.supabase.storage.from(MEDIA_BUCKETS[entity])
+
+    const response = await storage.list(folder)
+    const files = this.handleResponse(response, context)
+    if (!files.length) return
+
+    const { error } = await storage.remove(
+      files.map((file) => `${folder}/${file.name}`),
+    )
+    if (error) this.handleError(error, context)
+  }
+
+  // ==================== UTILITY METHODS ====================
+
+  /**
+   * Storage path of a public URL, null when the URL is not from the bucket
+   */
+  getStoragePath(entity: MediaEntity, url: string): string | null {
+    const marker = `/storage/v1/object/public/${MEDIA_BUCKETS[entity]}/`
+    const index = url.indexOf(marker)
+    if (index === -1) return null
+
+    return decodeURIComponent(url.slice(index + marker.length).split('?')[0])
+  }
+}
+
+// Export singleton instance
+export const mediaService = new MediaService()
@@ -0,0 +1,235 @@
+/**
+ * Message Attachment Service
+ *
+ * Uploads private message attachments (photos and documents) to the
+ * private `message-attachments` Supabase Storage bucket.
+ *
+ * - Images are compressed and thumbnailed client-side before upload
+ * - Files are validated by MIME type and size
+ * - `private_messages.attachment_url` stores the storage path, files are
+ *   read through short-lived signed URLs
+ * - The path ends with the original file name, so `private_messages.message`
+ *   only holds the caption (or the file name when there is no caption)
+ */
+
+import { ValidationError } from '../lib/crud/errors'
+import { compressImage, createThumbnail } from '../lib/media/image-processing'
+import { BaseService } from './base.service'
+
+export const MESSAGE_ATTACHMENTS_BUCKET = 'message-attachments'
+
+export const ALLOWED_IMAGE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+]
+
+export const ALLOWED_DOCUMENT_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/plain',
+]
+
+// Limits apply to the original file, photos are compressed afterwards
+export const MAX_IMAGE_SIZE = 15 * 1024 * 1024 // 15 MB
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024 // 10 MB
+
+// Signed URLs are cached by the hooks for less than this
+const SIGNED_URL_EXPIRY = 60 * 60 // 1 hour, in seconds
+
+export type AttachmentMessageType = 'image' | 'file'
+
+export interface UploadedAttachment {
+  path: string
+  attachmentType: string
+  messageType: AttachmentMessageType
+  fileName: string
+  size: number
+}
+
+export interface AttachmentUrls {
+  url: string
+  thumbnailUrl: string | null
+}
+
+// Storage keys only get safe characters, the name is shown and downloaded as is
+const MAX_FILE_NAME_LENGTH = 100
+
+function toStorageFileName(name: string, extension: string): string {
+  const base =
+    name
+      .replace(/\.[^.]+$/, '')
+      .normalize('NFKD')
+      .replace(/[^\w.-]+/g, '_')
+      .replace(/^[_.]+|_+$/g, '')
+      .slice(0, MAX_FILE_NAME_LENGTH) || 'attachment'
+  return `${base}.${extension}`
+}
+
+/**
+ * Original file name of an attachment, from its storage path
+ * Null for older attachments stored as `<sender>/<uuid>.<extension>`
+ */
+export function getAttachmentFileName(path: string): string | null {
+  const segments = path.split('/')
+  return segments.length > 2 ? segments[segments.length - 1] : null
+}
+
+/**
+ * Thumbnail stored next to the compressed image
+ */
+export function getThumbnailPath(path: string): string {
+  return path.replace(/\.[^./]+$/, '') + '_thumb.jpg'
+}
+
+export class MessageAttachmentService extends BaseService {
+  // ==================== VALIDATION ====================
+
+  /**
+   * Validate an attachment and return the matching message type
+   */
+  validateAttachment(file: File): AttachmentMessageType {
+    const context = 'MessageAttachmentService.validateAttachment'
+    this.validateRequired(file, 'file', context)
+
+    if (ALLOWED_IMAGE_TYPES.includes(file.type)) {
+      if (file.size > MAX_IMAGE_SIZE) {
+        throw new ValidationError('Image is larger than 15 MB', { context })
+      }
+      return 'image'
+    }
+
+    if (ALLOWED_DOCUMENT_TYPES.includes(file.type)) {
+      if (file.size > MAX_DOCUMENT_SIZE) {
+        throw new ValidationError('Document is larger than 10 MB', {
+          context,
+        })
+      }
+      return 'file'
+    }
+
+    throw new ValidationError(
+      `File type ${file.type || 'unknown'} is not supported`,
+      { context },
+    )
+  }
+
+  // ==================== STORAGE OPERATIONS ====================
+
+  /**
+   * Upload an attachment in the sender folder
+   */
+  async uploadAttachment(
+    file: File,
+    senderId: string,
+  ): Promise<UploadedAttachment> {
+    const context = 'MessageAttachmentService.uploadAttachment'
+    this.validateRequired(senderId, 'senderId', context)
+
+    const messageType = this.validateAttachment(file)
+    const storage = this.supabase.storage.from(MESSAGE_ATTACHMENTS_BUCKET)
+
+    if (messageType === 'image') {
+      // GIFs are kept as is to preserve animation
+      const keepOriginal = file.type === 'image/gif'
+      const image = keepOriginal ? null : await compressImage(file)
+      const thumbnail = await createThumbnail(file)
+
+      const fileName = toStorageFileName(
+        file.name,
+        keepOriginal ? 'gif' : 'jpg',
+      )
+      const path = `${senderId}/${crypto.randomUUID()}/${fileName}`
+      const body = image ? image.blob : file
+      const attachmentType = image ? image.blob.type : file.type
+
+      const { error } = await storage.upload(path, body, {
+        contentType: attachmentType,
+      })
+      if (error) this.handleError(error, context)
+
+      const { error: thumbnailError } = await storage.upload(
+        getThumbnailPath(path),
+        thumbnail.blob,
+        { contentType: thumbnail.blob.type },
+      )
+      if (thumbnailError) {
+        await storage.remove([path])
+        this.handleError(thumbnailError, context)
+      }
+
+      return {
+        path,
+        attachmentType,
+        messageType,
+        fileName,
+        size: body.size,
+      }
+    }
+
+    const extension = file.name.includes('.')
+      ? file.name.split('.').pop()!.toLowerCase()
+      : 'bin'
+    const fileName = toStorageFileName(file.name, extension)
+    const path = `${senderId}/${crypto.randomUUID()}/${fileName}`
+
+    const { error } = await storage.upload(path, file, {
+      contentType: file.type,
+    })
+    if (error) this.handleError(error, context)
+
+    return {
+      path,
+      attachmentType: file.type,
+      messageType,
+      fileName,
+      size: file.size,
+    }
+  }
+
+  /**
+   * Get signed URLs for an attachment and its thumbnail
+   */
+  async getAttachmentUrls(
+    path: string,
+    messageType: string | null,
+  ): Promise<AttachmentUrls> {
+    const context = 'MessageAttachmentService.getAttachmentUrls'
+    this.validateRequired(path, 'path', context)
+
+    const storage = this.supabase.storage.from(MESSAGE_ATTACHMENTS_BUCKET)
+    const paths =
+      messageType === 'image' ? [path, getThumbnailPath(path)] : [path]
+
+    const response = await storage.createSignedUrls(paths, SIGNED_URL_EXPIRY)
+    const urls = this.handleResponse(response, context)
+
+    return {
+      url: urls[0].signedUrl,
+      thumbnailUrl: urls[1]?.signedUrl ?? null,
+    }
+  }
+
+  /**
+   * Remove an uploaded attachment (and its thumbnail)
+   */
+  async removeAttachment(path: string): Promise<void> {
+    const context = 'MessageAttachmentService.removeAttachment'
+    this.validateRequired(path, 'path', context)
+
+    const { error } = await this.supabase.storage
+      .from(MESSAGE_ATTACHMENTS_BUCKET)
+      .remove([path, getThumbnailPath(path)])
+
+    if (error) {
+      this.handleError(error, context)
+    }
+  }
+}
+
+// Export singleton instance
+export const messageAttachmentService = new MessageAttachmentService()
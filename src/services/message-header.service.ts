@@ -12,6 +12,10 @@
  * - Type-safe operations with proper error handling
  */
 
+import {
+  InsufficientCoinsError,
+  PermissionDeniedError,
+} from '../lib/crud/errors'
 import { BaseService } from './base.service'
 import type { InsertRow, Row, UpdateRow } from '../lib/database-types'
 
@@ -246,7 +250,15 @@ export class MessageHeaderService extends BaseService {
     if (response.error) {
       // Handle specific coin-related errors
       if (response.error.message.includes('Not enough coins')) {
-        throw new Error('Insufficient coins to publish this message')
+        throw new InsufficientCoinsError(
+          'Insufficient coins to publish this message',
+          {
+            context: 'MessageHeaderService.publishMessageHeader',
+            code: response.error.code,
+            details: response.error.details,
+            hint: response.error.hint,
+          },
+        )
       }
       this.handleError(
         response.error,
@@ -555,7 +567,9 @@ export class MessageHeaderService extends BaseService {
       error: authError,
     } = await this.supabase.auth.getUser()
     if (authError || !user?.id) {
-      throw new Error('User not authenticated')
+      throw new PermissionDeniedError('User not authenticated', {
+        context: 'MessageHeaderService.validateUserCoins',
+      })
     }
 
     // Get user profile to check coin balance
@@ -591,7 +605,9 @@ export class MessageHeaderService extends BaseService {
       error: authError,
     } = await this.supabase.auth.getUser()
     if (authError || !user?.id) {
-      throw new Error('User not authenticated')
+      throw new PermissionDeniedError('User not authenticated', {
+        context: 'MessageHeaderService.getUserCoins',
+      })
     }
 
     const profileResponse = await this.supabase
@@ -0,0 +1,221 @@
+/**
+ * Moderation Service
+ *
+ * Content reports and the admin moderation queue.
+ *
+ * - Residents report chat messages, forum threads and replies, marketplace
+ *   listings and header messages (`content_reports`)
+ * - The `trigger_prepare_content_report` database trigger fills in the
+ *   reported author and a copy of the content
+ * - Admins resolve reports through the `moderate_report` RPC, which applies
+ *   the action and logs it in `moderation_actions`
+ */
+
+import { ConflictError } from '../lib/crud/errors'
+import { BaseService } from './base.service'
+import type { Row } from '../lib/database-types'
+
+export type ContentReport = Row<'content_reports'>
+export type ModerationAction = Row<'moderation_actions'>
+
+export type ReportableContentType =
+  | 'chat'
+  | 'threads'
+  | 'thread_posts'
+  | 'marketplace_listings'
+  | 'messages_header'
+
+export type ReportReason =
+  | 'spam'
+  | 'harassment'
+  | 'inappropriate'
+  | 'scam'
+  | 'other'
+
+export type ReportStatus = 'pending' | 'dismissed' | 'actioned'
+
+export type ModerationActionType =
+  | 'dismiss'
+  | 'hide_content'
+  | 'warn_user'
+  | 'suspend_profile'
+
+export interface ReportContentData {
+  contentType: ReportableContentType
+  contentId: string
+  reason: ReportReason
+  details?: string
+}
+
+export interface ContentReportFilters {
+  status?: ReportStatus
+  contentType?: ReportableContentType
+  limit?: number
+  offset?: number
+}
+
+interface ReportProfile {
+  id: string
+  username: string | null
+  full_name: string | null
+  deleted_at: string | null
+}
+
+export interface ContentReportWithRelations extends ContentReport {
+  reporter: Pick<ReportProfile, 'id' | 'username'> | null
+  reported_profile: ReportProfile | null
+}
+
+export interface ContentReportListResult {
+  data: Array<ContentReportWithRelations>
+  count: number
+}
+
+export interface ModerationActionWithAdmin extends ModerationAction {
+  admin: { id: string; username: string | null } | null
+}
+
+const CONTENT_REPORT_SELECT = `
+  *,
+  reporter:profiles!content_reports_reporter_id_fkey (
+    id,
+    username
+  ),
+  reported_profile:profiles!content_reports_reported_profile_id_fkey (
+    id,
+    username,
+    full_name,
+    deleted_at
+  )
+`
+
+export class ModerationService extends BaseService {
+  // ==================== REPORTS ====================
+
+  /**
+   * Report a piece of content, once per resident
+   */
+  async reportContent(data: ReportContentData): Promise<ContentReport> {
+    this.validateRequired(
+      data.contentId,
+      'contentId',
+      'ModerationService.reportContent',
+    )
+
+    const response = await this.supabase
+      .from('content_reports')
+      .insert({
+        content_type: data.contentType,
+        content_id: data.contentId,
+        reason: data.reason,
+        details: data.details?.trim() || null,
+      })
+      .select()
+      .single()
+
+    if (response.error?.code === '23505') {
+      throw new ConflictError('You already reported this content', {
+        context: 'ModerationService.reportContent',
+      })
+    }
+
+    return this.handleResponse(response, 'ModerationService.reportContent')
+  }
+
+  /**
+   * Get reports for the moderation queue (admin only), oldest first
+   */
+  async getReports(
+    filters?: ContentReportFilters,
+  ): Promise<ContentReportListResult> {
+    const limit = filters?.limit || 20
+    const offset = filters?.offset || 0
+
+    let query = this.supabase
+      .from('content_reports')
+      .select(CONTENT_REPORT_SELECT, { count: 'exact' })
+
+    if (filters?.status) {
+      query = query.eq('status', filters.status)
+    }
+    if (filters?.contentType) {
+      query = query.eq('content_type', filters.contentType)
+    }
+
+    const response = await query
+      .order('created_at', { ascending: filters?.status === 'pending' })
+      .range(offset, offset + limit - 1)
+
+    const data = this.handleResponse(response, 'ModerationService.getReports')
+
+    return {
+      data: data as Array<ContentReportWithRelations>,
+      count: response.count || 0,
+    }
+  }
+
+  // ==================== MODERATION ====================
+
+  /**
+   * Resolve a report (admin only)
+   * Hiding the content or suspending the author also resolves the other
+   * pending reports about it
+   */
+  async moderateReport(
+    reportId: string,
+    action: ModerationActionType,
+    note?: string,
+  ): Promise<ContentReport> {
+    this.validateRequired(
+      reportId,
+      'reportId',
+      'ModerationService.moderateReport',
+    )
+
+    const response = await this.supabase.rpc('moderate_report', {
+      p_report_id: reportId,
+      p_action: action,
+      p_note: note?.trim() || undefined,
+    })
+
+    return this.handleResponse(response, 'ModerationService.moderateReport')
+  }
+
+  /**
+   * Get the moderation log, optionally for one report or one profile
+   */
+  async getModerationActions(options?: {
+    reportId?: string
+    targetProfileId?: string
+    limit?: number
+  }): Promise<Array<ModerationActionWithAdmin>> {
+    let query = this.supabase.from('moderation_actions').select(
+      `
+        *,
+        admin:profiles!moderation_actions_admin_id_fkey (
+          id,
+          username
+        )
+      `,
+    )
+
+    if (options?.reportId) {
+      query = query.eq('report_id', options.reportId)
+    }
+    if (options?.targetProfileId) {
+      query = query.eq('target_profile_id', options.targetProfileId)
+    }
+
+    const response = await query
+      .order('id', { ascending: false })
+      .limit(options?.limit || 50)
+
+    return this.handleResponse(
+      response,
+      'ModerationService.getModerationActions',
+    )
+  }
+}
+
+// Export singleton instance
+export const moderationService = new ModerationService()
@@ -6,6 +6,7 @@
  */
 
 import { BaseService } from './base.service'
+import type { RealtimeChannel } from '@supabase/supabase-js'
 import type { Database } from '../lib/database-types'
 
 type PrivateMessage = Database['public']['Tables']['private_messages']['Row']
@@ -36,6 +37,14 @@ export interface PrivateMessageWithRelations
   } | null
 }
 
+export interface ConversationLastMessage {
+  id: string
+  message: string
+  message_type: string | null
+  sender_id: string
+  created_at: string
+}
+
 export interface Conversation {
   id: string
   other_user: {
@@ -44,13 +53,28 @@ export interface Conversation {
     full_name: string | null
     avatar_url: string | null
   }
-  last_message: PrivateMessageWithRelations
+  last_message: ConversationLastMessage
   unread_count: number
+  // Set when the user hid the conversation (conversation_deletions)
+  hidden_at: string | null
+  // Hidden and no message received since
+  is_hidden: boolean
+}
+
+export interface ConversationCursor {
+  last_message_at: string
+  peer_id: string
 }
 
 export interface ConversationFilters {
   limit?: number
-  offset?: number
+  cursor?: ConversationCursor | null
+  includeHidden?: boolean
+}
+
+export interface ConversationPage {
+  conversations: Array<Conversation>
+  nextCursor: ConversationCursor | null
 }
 
 export interface MessageFilters {
@@ -58,86 +82,74 @@ export interface MessageFilters {
   offset?: number
 }
 
+export interface PrivateMessageRealtimeHandlers {
+  // A message was received by the subscribed user
+  onMessage?: (message: PrivateMessageWithRelations) => void
+  // A message sent by the subscribed user was read by its receiver
+  onRead?: (message: PrivateMessage) => void
+}
+
+export interface ConversationPresenceHandlers {
+  onTyping?: (isTyping: boolean) => void
+  onPresence?: (isOnline: boolean) => void
+}
+
+export interface ConversationPresence {
+  sendTyping: (isTyping: boolean) => void
+  unsubscribe: () => void
+}
+
 export class PrivateMessageService extends BaseService {
+  private channels: Map<string, RealtimeChannel> = new Map()
+
   /**
-   * Get conversations for a user
+   * Get conversations for a user, most recent activity first
+   * One summary row per peer computed by the get_conversation_summaries RPC
+   * Peers blocked or muted by the user are left out
    */
   async getConversations(
     userId: string,
     filters?: ConversationFilters,
-  ): Promise<Array<Conversation>> {
+  ): Promise<ConversationPage> {
     this.validateRequired(userId, 'userId', 'getConversations')
 
-    let query = this.supabase
-      .from('private_messages')
-      .select(
-        `
-        *,
-        sender:sender_id (
-          id,
-          username,
-          full_name,
-          avatar_url
-        ),
-        receiver:receiver_id (
-          id,
-          username,
-          full_name,
-          avatar_url
-        )
-      `,
-      )
-      .or(`sender_id.eq.${userId},receiver_id.eq.${userId}`)
-      .is('deleted_at', null)
-      .order('created_at', { ascending: false })
-
-    if (filters?.limit) {
-      query = query.limit(filters.limit)
-    }
-    if (filters?.offset) {
-      query = query.range(
-        filters.offset,
-        filters.offset + (filters.limit || 50) - 1,
-      )
-    }
-
-    const response = await query
-    const messages = this.handleResponse(
-      response,
-      'getConversations',
-    ) as Array<PrivateMessageWithRelations>
+    const limit = filters?.limit || 20
 
-    // Group messages by conversation
-    const conversations = new Map<string, Conversation>()
-
-    messages.forEach((message) => {
-      const otherUserId =
-        message.sender_id === userId ? message.receiver_id : message.sender_id
-
-      if (!otherUserId) return
-
-      const conversationKey = [userId, otherUserId].sort().join('-')
-
-      if (!conversations.has(conversationKey)) {
-        conversations.set(conversationKey, {
-          id: conversationKey,
-          other_user:
-            message.sender_id === userId
-              ? (message as any).receiver
-              : (message as any).sender,
-          last_message: message,
-          unread_count: 0,
-        })
-      }
-
-      // Count unread messages
-      if (message.receiver_id === userId && !message.read_at) {
-        const conversation = conversations.get(conversationKey)!
-        conversation.unread_count += 1
-      }
+    const response = await this.supabase.rpc('get_conversation_summaries', {
+      p_limit: limit,
+      p_before: filters?.cursor?.last_message_at,
+      p_before_peer_id: filters?.cursor?.peer_id,
+      p_include_hidden: filters?.includeHidden ?? false,
     })
-
-    return Array.from(conversations.values())
+    const rows = this.handleResponse(response, 'getConversations')
+
+    const conversations: Array<Conversation> = rows.map((row) => ({
+      id: [userId, row.peer_id].sort().join('-'),
+      other_user: {
+        id: row.peer_id,
+        username: row.peer_username,
+        full_name: row.peer_full_name,
+        avatar_url: row.peer_avatar_url,
+      },
+      last_message: {
+        id: row.last_message_id,
+        message: row.last_message,
+        message_type: row.last_message_type,
+        sender_id: row.last_message_sender_id,
+        created_at: row.last_message_at,
+      },
+      unread_count: row.unread_count,
+      hidden_at: row.hidden_at,
+      is_hidden: row.is_hidden,
+    }))
+
+    const last = rows[rows.length - 1]
+    const nextCursor =
+      rows.length === limit
+        ? { last_message_at: last.last_message_at, peer_id: last.peer_id }
+        : null
+
+    return { conversations, nextCursor }
   }
 
   /**
@@ -431,6 +443,7 @@ export class PrivateMessageService extends BaseService {
 
   /**
    * Send a private message
+   * Rejected with a PermissionDeniedError when either participant blocked the other
    */
   async sendMessage(messageData: {
     receiver_id: string
@@ -519,6 +532,7 @@ export class PrivateMessageService extends BaseService {
         updated_at: new Date().toISOString(),
       })
       .eq('sender_id', otherUserId)
+      .eq('receiver_id', currentUserId)
       .is('read_at', null)
       .is('deleted_at', null)
       .select()
@@ -546,6 +560,29 @@ export class PrivateMessageService extends BaseService {
     this.handleResponse(response, 'deleteMessage')
   }
 
+  /**
+   * Hide a conversation for the current user only
+   * It reappears in getConversations when a newer message arrives
+   */
+  async hideConversation(
+    otherUserId: string,
+    currentUserId: string,
+    lastMessageId?: string,
+  ): Promise<void> {
+    this.validateRequired(otherUserId, 'otherUserId', 'hideConversation')
+    this.validateRequired(currentUserId, 'currentUserId', 'hideConversation')
+
+    const response = await this.supabase.from('conversation_deletions').insert({
+      user_id: currentUserId,
+      participant_id: otherUserId,
+      last_message_id: lastMessageId,
+    })
+
+    if (response.error) {
+      this.handleError(response.error, 'hideConversation')
+    }
+  }
+
   /**
    * Soft delete conversation
    */
@@ -569,4 +606,168 @@ export class PrivateMessageService extends BaseService {
 
     this.handleResponse(response, 'deleteConversation')
   }
+
+  // ==================== REAL-TIME SUBSCRIPTIONS ====================
+
+  /**
+   * Subscribe to incoming messages and read receipts of a user
+   * Read receipts come from the read_at updates made by markAsRead/markConversationAsRead
+   */
+  subscribeToUserMessages(
+    userId: string,
+    handlers: PrivateMessageRealtimeHandlers,
+  ): () => void {
+    this.validateRequired(userId, 'userId', 'subscribeToUserMessages')
+
+    const channelKey = `private_messages_${userId}`
+
+    // Clean up existing subscription if any
+    if (this.channels.has(channelKey)) {
+      this.channels.get(channelKey)?.unsubscribe()
+    }
+
+    const channel = this.supabase
+      .channel(channelKey)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'private_messages',
+          filter: `receiver_id=eq.${userId}`,
+        },
+        async (payload) => {
+          if (!handlers.onMessage) return
+
+          try {
+            // Fetch complete message with sender data
+            const { data } = await this.supabase
+              .from('private_messages')
+              .select(
+                `
+              *,
+              sender:profiles!private_messages_sender_id_fkey (
+                id,
+                username,
+                full_name,
+                avatar_url
+              ),
+              reply_message:reply_to (
+                id,
+                message,
+                sender_id,
+                created_at
+              )
+            `,
+              )
+              .eq('id', payload.new.id)
+              .single()
+
+            if (data) {
+              handlers.onMessage(data as PrivateMessageWithRelations)
+            }
+          } catch (error) {
+            console.error('Error fetching new private message:', error)
+          }
+        },
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'private_messages',
+          filter: `sender_id=eq.${userId}`,
+        },
+        (payload) => {
+          const message = payload.new as PrivateMessage
+          if (message.read_at && handlers.onRead) {
+            handlers.onRead(message)
+          }
+        },
+      )
+      .subscribe()
+
+    this.channels.set(channelKey, channel)
+
+    // Return cleanup function
+    return () => {
+      channel.unsubscribe()
+      this.channels.delete(channelKey)
+    }
+  }
+
+  /**
+   * Join the presence channel of a conversation
+   * Typing goes over broadcast, online state over presence
+   */
+  subscribeToConversationPresence(
+    currentUserId: string,
+    otherUserId: string,
+    handlers: ConversationPresenceHandlers,
+  ): ConversationPresence {
+    this.validateRequired(
+      currentUserId,
+      'currentUserId',
+      'subscribeToConversationPresence',
+    )
+    this.validateRequired(
+      otherUserId,
+      'otherUserId',
+      'subscribeToConversationPresence',
+    )
+
+    // Both participants must join the same channel
+    const channelKey = `dm_${[currentUserId, otherUserId].sort().join('_')}`
+
+    if (this.channels.has(channelKey)) {
+      this.channels.get(channelKey)?.unsubscribe()
+    }
+
+    const channel = this.supabase.channel(channelKey, {
+      config: { presence: { key: currentUserId } },
+    })
+
+    channel
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        if (payload.user_id === otherUserId) {
+          handlers.onTyping?.(Boolean(payload.is_typing))
+        }
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState()
+        handlers.onPresence?.(otherUserId in state)
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          channel.track({ user_id: currentUserId })
+        }
+      })
+
+    this.channels.set(channelKey, channel)
+
+    return {
+      sendTyping: (isTyping: boolean) => {
+        channel.send({
+          type: 'broadcast',
+          event: 'typing',
+          payload: { user_id: currentUserId, is_typing: isTyping },
+        })
+      },
+      unsubscribe: () => {
+        channel.unsubscribe()
+        this.channels.delete(channelKey)
+      },
+    }
+  }
+
+  /**
+   * Unsubscribe from all channels
+   */
+  unsubscribeAll(): void {
+    for (const [, channel] of this.channels) {
+      channel.unsubscribe()
+    }
+    this.channels.clear()
+  }
 }
@@ -0,0 +1,150 @@
+/**
+ * Profile Block Service
+ *
+ * Block and mute relations between residents (`profile_blocks`).
+ * - block: no private messages in either direction, chat messages hidden,
+ *   both residents disappear from each other's profile search
+ * - mute: chat messages and the conversation are hidden, the muted resident
+ *   can still write and their messages come back when unmuted
+ *
+ * Messaging, chat and search are enforced in the database (trigger,
+ * restrictive RLS policies and the search RPCs). Residents never learn who
+ * blocked them: only the current user's own blocks and mutes are readable.
+ */
+
+import { ValidationError } from '../lib/crud/errors'
+import { BaseService } from './base.service'
+import type { Row } from '../lib/database-types'
+
+export type ProfileBlock = Row<'profile_blocks'>
+export type ProfileBlockKind = 'block' | 'mute'
+
+export interface ProfileBlockWithProfile extends ProfileBlock {
+  blocked: {
+    id: string
+    username: string | null
+    full_name: string | null
+    avatar_url: string | null
+  } | null
+}
+
+export interface ProfileBlockIds {
+  // Residents blocked by the current user
+  blocked: Array<string>
+  // Residents muted by the current user
+  muted: Array<string>
+}
+
+export class ProfileBlockService extends BaseService {
+  /**
+   * Get the residents blocked or muted by a profile, most recent first
+   */
+  async getBlocks(blockerId: string): Promise<Array<ProfileBlockWithProfile>> {
+    this.validateRequired(
+      blockerId,
+      'blockerId',
+      'ProfileBlockService.getBlocks',
+    )
+
+    const response = await this.supabase
+      .from('profile_blocks')
+      .select(
+        `
+        *,
+        blocked:profiles!profile_blocks_blocked_id_fkey (
+          id,
+          username,
+          full_name,
+          avatar_url
+        )
+      `,
+      )
+      .eq('blocker_id', blockerId)
+      .order('created_at', { ascending: false })
+
+    return this.handleResponse(
+      response,
+      'ProfileBlockService.getBlocks',
+    ) as Array<ProfileBlockWithProfile>
+  }
+
+  /**
+   * Get the residents blocked or muted by the current user
+   */
+  async getBlockIds(): Promise<ProfileBlockIds> {
+    const response = await this.supabase.rpc('get_profile_block_ids')
+    const rows = this.handleResponse(
+      response,
+      'ProfileBlockService.getBlockIds',
+    )
+
+    const ids: ProfileBlockIds = { blocked: [], muted: [] }
+    for (const row of rows) {
+      if (row.kind === 'mute') {
+        ids.muted.push(row.profile_id)
+      } else {
+        ids.blocked.push(row.profile_id)
+      }
+    }
+
+    return ids
+  }
+
+  /**
+   * Block or mute a resident, switching the kind if a relation already exists
+   */
+  async blockProfile(
+    blockedId: string,
+    kind: ProfileBlockKind = 'block',
+  ): Promise<ProfileBlock> {
+    this.validateRequired(
+      blockedId,
+      'blockedId',
+      'ProfileBlockService.blockProfile',
+    )
+
+    const response = await this.supabase
+      .from('profile_blocks')
+      .upsert({ blocked_id: blockedId, kind })
+      .select()
+      .single()
+
+    // profile_blocks_not_self check constraint
+    if (response.error?.code === '23514') {
+      throw new ValidationError('You cannot block yourself', {
+        context: 'ProfileBlockService.blockProfile',
+      })
+    }
+
+    return this.handleResponse(response, 'ProfileBlockService.blockProfile')
+  }
+
+  /**
+   * Remove a block or mute relation
+   */
+  async unblockProfile(blockerId: string, blockedId: string): Promise<void> {
+    this.validateRequired(
+      blockerId,
+      'blockerId',
+      'ProfileBlockService.unblockProfile',
+    )
+    this.validateRequired(
+      blockedId,
+      'blockedId',
+      'ProfileBlockService.unblockProfile',
+    )
+
+    const { error } = await this.supabase
+      .from('profile_blocks')
+      .delete()
+      .eq('blocker_id', blockerId)
+      .eq('blocked_id', blockedId)
+
+    if (error) {
+      this.handleError(error, 'ProfileBlockService.unblockProfile')
+    }
+  }
+}
+
+// Export singleton instance
+export const profileBlockService = new ProfileBlockService()
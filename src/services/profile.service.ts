@@ -11,6 +11,7 @@
  * - Type-safe operations with proper error handling
  */
 
+import { ConflictError, NotFoundError } from '../lib/crud/errors'
 import { BaseService } from './base.service'
 import type { InsertRow, Profile, UpdateRow } from '../lib/database-types'
 
@@ -194,17 +195,44 @@ export class ProfileService extends BaseService {
   /**
    * Update a profile
    */
-  async updateProfile(id: string, updates: ProfileUpdate): Promise<Profile> {
+  async updateProfile(
+    id: string,
+    updates: ProfileUpdate,
+    options?: { expectedUpdatedAt?: string | null },
+  ): Promise<Profile> {
     this.validateRequired(id, 'id', 'ProfileService.updateProfile')
 
-    const response = await this.supabase
+    let query = this.supabase
       .from('profiles')
       .update(this.createOptimisticUpdate(updates))
       .eq('id', id)
-      .select()
-      .single()
 
-    return this.handleResponse(response, 'ProfileService.updateProfile')
+    // Optimistic concurrency: only apply on top of the version the edit was made from
+    if (options?.expectedUpdatedAt) {
+      query = query.eq('updated_at', options.expectedUpdatedAt)
+    }
+
+    const response = await query.select().maybeSingle()
+    const profile = this.handleOptionalResponse(
+      response,
+      'ProfileService.updateProfile',
+    )
+
+    if (!profile) {
+      if (options?.expectedUpdatedAt) {
+        throw new ConflictError(
+          'Profile was changed since this edit was made',
+          {
+            context: 'ProfileService.updateProfile',
+          },
+        )
+      }
+      throw new NotFoundError('Profile not found', {
+        context: 'ProfileService.updateProfile',
+      })
+    }
+
+    return profile
   }
 
   /**
@@ -428,19 +456,18 @@ export class ProfileService extends BaseService {
   }
 
   /**
-   * Search profiles by multiple criteria
+   * Search profiles by name, username or email
+   * The search_profiles RPC matches the query literally and leaves out
+   * residents blocked in either direction
    */
   async searchProfiles(
     query: string,
     limit: number = 10,
   ): Promise<Array<Profile>> {
-    const response = await this.supabase
-      .from('profiles')
-      .select('*')
-      .or(
-        `full_name.ilike.%${query}%,username.ilike.%${query}%,email.ilike.%${query}%`,
-      )
-      .limit(limit)
+    const response = await this.supabase.rpc('search_profiles', {
+      p_query: query,
+      p_limit: limit,
+    })
 
     return this.handleResponse(response, 'ProfileService.searchProfiles')
   }
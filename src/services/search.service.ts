@@ -0,0 +1,125 @@
+/**
+ * Search Service
+ *
+ * Global search across marketplace listings, businesses, services, forums
+ * and threads, backed by the `search_content` RPC.
+ *
+ * - Postgres full-text search (`search_vector` columns) plus trigram
+ *   similarity on titles, results are ranked across content types
+ * - The query is passed as an RPC argument, never interpolated into a
+ *   PostgREST filter string
+ * - Snippets mark matched terms with STX / ETX characters, split them with
+ *   `splitSnippet` to render highlights without injecting HTML
+ */
+
+import { BaseService } from './base.service'
+
+export type SearchEntityType =
+  | 'marketplace_listing'
+  | 'business_inside'
+  | 'business_outside'
+  | 'service'
+  | 'forum'
+  | 'thread'
+
+export interface SearchResult {
+  entity_type: SearchEntityType
+  entity_id: string
+  // Forum of a thread, category of a service
+  parent_id: string | null
+  title: string
+  snippet: string
+  rank: number
+  created_at: string | null
+}
+
+export interface SearchOptions {
+  types?: Array<SearchEntityType>
+  limit?: number
+}
+
+export interface SnippetPart {
+  text: string
+  highlighted: boolean
+}
+
+export const MIN_SEARCH_LENGTH = 2
+export const MAX_SEARCH_RESULTS = 50
+
+// Options for `.textSearch('search_vector', ...)` filters, matches the
+// configuration of the generated columns. Without a type the query is
+// parsed by to_tsquery(), which supports prefix matching
+export const PREFIX_SEARCH_OPTIONS = { config: 'simple' } as const
+
+/**
+ * Build a to_tsquery() query matching every word of the search text as a
+ * prefix ("bik" finds "bike"), the client side of `prefix_tsquery()`
+ * Returns null when the text has no word to search for
+ */
+export function toPrefixSearchQuery(text: string): string | null {
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+
+  return words.length ? words.map((word) => `'${word}':*`).join(' & ') : null
+}
+
+const HIGHLIGHT_START = '\u0002'
+const HIGHLIGHT_END = '\u0003'
+
+/**
+ * Split a `search_content` snippet into plain and highlighted parts
+ */
+export function splitSnippet(snippet: string): Array<SnippetPart> {
+  const parts: Array<SnippetPart> = []
+
+  for (const chunk of snippet.split(HIGHLIGHT_START)) {
+    const [highlighted, rest] = chunk.includes(HIGHLIGHT_END)
+      ? chunk.split(HIGHLIGHT_END, 2)
+      : ['', chunk]
+
+    if (highlighted) parts.push({ text: highlighted, highlighted: true })
+    if (rest) parts.push({ text: rest, highlighted: false })
+  }
+
+  return parts
+}
+
+/**
+ * Escape LIKE wildcards so user input is matched literally by `.ilike()`
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&')
+}
+
+export class SearchService extends BaseService {
+  /**
+   * Search all content types, best matches first
+   */
+  async search(
+    query: string,
+    options?: SearchOptions,
+  ): Promise<Array<SearchResult>> {
+    this.validateRequired(query, 'query', 'SearchService.search')
+
+    const term = query.trim()
+    if (term.length < MIN_SEARCH_LENGTH) {
+      return []
+    }
+
+    const response = await this.supabase.rpc('search_content', {
+      p_query: term,
+      p_types: options?.types?.length ? options.types : undefined,
+      p_limit: Math.min(options?.limit ?? 20, MAX_SEARCH_RESULTS),
+    })
+
+    return this.handleResponse(
+      response,
+      'SearchService.search',
+    ) as Array<SearchResult>
+  }
+}
+
+// Export singleton instance
+export const searchService = new SearchService()
@@ -0,0 +1,241 @@
+/**
+ * Thread Post Service
+ *
+ * Handles replies inside forum threads: cursor pagination, quoting,
+ * editing (flagged with `is_edited`) and soft deletion (`deleted_at`).
+ * The content of deleted posts is cleared by the
+ * `trigger_clear_deleted_thread_post` database trigger.
+ * `threads.reply_count` and `threads.last_activity_at` are maintained by
+ * the `trigger_update_thread_activity` database trigger.
+ */
+
+import { BaseService } from './base.service'
+import type { Database } from '../lib/database-types'
+
+type ThreadPost = Database['public']['Tables']['thread_posts']['Row']
+
+interface PostAuthor {
+  id: string
+  username: string | null
+  full_name: string | null
+  avatar_url: string | null
+}
+
+export interface QuotedThreadPost {
+  id: string
+  content: string
+  author_id: string
+  created_at: string
+  deleted_at: string | null
+  author: Pick<PostAuthor, 'id' | 'username'> | null
+}
+
+export interface ThreadPostWithRelations extends ThreadPost {
+  author: PostAuthor | null
+  quoted_post: QuotedThreadPost | null
+}
+
+export interface ThreadPostCursor {
+  created_at: string
+  id: string
+}
+
+export interface ThreadPostPage {
+  // Oldest first, in reading order
+  posts: Array<ThreadPostWithRelations>
+  // Cursor pointing at the newest post of the page, null when exhausted
+  nextCursor: ThreadPostCursor | null
+}
+
+export interface CreateThreadPostData {
+  thread_id: string
+  author_id: string
+  content: string
+  quoted_post_id?: string | null
+}
+
+const THREAD_POST_SELECT = `
+  *,
+  author:profiles!thread_posts_author_id_fkey (
+    id,
+    username,
+    full_name,
+    avatar_url
+  ),
+  quoted_post:quoted_post_id (
+    id,
+    content,
+    author_id,
+    created_at,
+    deleted_at,
+    author:profiles!thread_posts_author_id_fkey (
+      id,
+      username
+    )
+  )
+`
+
+export class ThreadPostService extends BaseService {
+  // ==================== POST QUERIES ====================
+
+  /**
+   * Get a page of thread posts, oldest first
+   * Deleted posts are kept (with their content cleared) so replies quoting
+   * them still make sense
+   */
+  async getPostsByThread(
+    threadId: string,
+    options?: { cursor?: ThreadPostCursor | null; limit?: number },
+  ): Promise<ThreadPostPage> {
+    this.validateRequired(
+      threadId,
+      'threadId',
+      'ThreadPostService.getPostsByThread',
+    )
+
+    const limit = options?.limit || 20
+
+    let query = this.supabase
+      .from('thread_posts')
+      .select(THREAD_POST_SELECT)
+      .eq('thread_id', threadId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit)
+
+    if (options?.cursor) {
+      const { created_at, id } = options.cursor
+      query = query.or(
+        `created_at.gt."${created_at}",and(created_at.eq."${created_at}",id.gt.${id})`,
+      )
+    }
+
+    const response = await query
+    const rows = this.handleResponse(
+      response,
+      'ThreadPostService.getPostsByThread',
+    ) as Array<ThreadPostWithRelations>
+
+    const newest = rows[rows.length - 1]
+    const nextCursor =
+      rows.length === limit
+        ? { created_at: newest.created_at, id: newest.id }
+        : null
+
+    return {
+      posts: rows,
+      nextCursor,
+    }
+  }
+
+  /**
+   * Get a single post
+   */
+  async getPost(id: string): Promise<ThreadPostWithRelations> {
+    this.validateRequired(id, 'id', 'ThreadPostService.getPost')
+
+    const response = await this.supabase
+      .from('thread_posts')
+      .select(THREAD_POST_SELECT)
+      .eq('id', id)
+      .single()
+
+    return this.handleResponse(
+      response,
+      'ThreadPostService.getPost',
+    ) as ThreadPostWithRelations
+  }
+
+  // ==================== POST OPERATIONS ====================
+
+  /**
+   * Reply to a thread, optionally quoting another post
+   */
+  async createPost(
+    postData: CreateThreadPostData,
+  ): Promise<ThreadPostWithRelations> {
+    this.validateRequired(
+      postData.thread_id,
+      'thread_id',
+      'ThreadPostService.createPost',
+    )
+    this.validateRequired(
+      postData.author_id,
+      'author_id',
+      'ThreadPostService.createPost',
+    )
+    this.validateRequired(
+      postData.content.trim(),
+      'content',
+      'ThreadPostService.createPost',
+    )
+
+    const response = await this.supabase
+      .from('thread_posts')
+      .insert({
+        thread_id: postData.thread_id,
+        author_id: postData.author_id,
+        content: postData.content.trim(),
+        quoted_post_id: postData.quoted_post_id || null,
+      })
+      .select(THREAD_POST_SELECT)
+      .single()
+
+    return this.handleResponse(
+      response,
+      'ThreadPostService.createPost',
+    ) as ThreadPostWithRelations
+  }
+
+  /**
+   * Edit the content of a post and flag it as edited
+   */
+  async editPost(
+    id: string,
+    content: string,
+  ): Promise<ThreadPostWithRelations> {
+    this.validateRequired(id, 'id', 'ThreadPostService.editPost')
+    this.validateRequired(
+      content.trim(),
+      'content',
+      'ThreadPostService.editPost',
+    )
+
+    const response = await this.supabase
+      .from('thread_posts')
+      .update({
+        content: content.trim(),
+        is_edited: true,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select(THREAD_POST_SELECT)
+      .single()
+
+    return this.handleResponse(
+      response,
+      'ThreadPostService.editPost',
+    ) as ThreadPostWithRelations
+  }
+
+  /**
+   * Soft delete a post
+   */
+  async deletePost(id: string): Promise<void> {
+    this.validateRequired(id, 'id', 'ThreadPostService.deletePost')
+
+    const { error } = await this.supabase
+      .from('thread_posts')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('deleted_at', null)
+
+    if (error) {
+      this.handleError(error, 'ThreadPostService.deletePost')
+    }
+  }
+}
+
+// Export singleton instance
+export const threadPostService = new ThreadPostService()
@@ -2,7 +2,8 @@
  * Thread Service
  *
  * Handles forum thread operations with mobile-first optimizations.
- * Includes forum relationships, nested replies, voting system, and CRUD operations.
+ * Includes forum relationships, activity (reply count, last activity) and CRUD operations.
+ * Replies are handled by ThreadPostService.
  */
 
 import { BaseService } from './base.service'
@@ -127,7 +128,8 @@ export class ThreadService extends BaseService {
   }
 
   /**
-   * Get threads by forum
+   * Get threads by forum, most recently active first
+   * Each thread carries its reply_count and last_activity_at
    */
   async getThreadsByForum(
     forumId: string,
@@ -149,7 +151,7 @@ export class ThreadService extends BaseService {
       `,
       )
       .eq('forum_id', forumId)
-      .order('created_at', { ascending: false })
+      .order('last_activity_at', { ascending: false })
 
     if (options?.limit) {
       query = query.limit(options.limit)
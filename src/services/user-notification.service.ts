@@ -0,0 +1,110 @@
+/**
+ * User Notification Service
+ *
+ * Persistent notifications addressed to a resident (`user_notifications`),
+ * e.g. moderation warnings. Notifications are created by database functions,
+ * residents only read them and mark them as read.
+ */
+
+import { BaseService } from './base.service'
+import type { Row } from '../lib/database-types'
+
+export type UserNotification = Row<'user_notifications'>
+
+export class UserNotificationService extends BaseService {
+  /**
+   * Get a profile's notifications, newest first
+   */
+  async getNotifications(
+    profileId: string,
+    options?: { unreadOnly?: boolean; limit?: number },
+  ): Promise<Array<UserNotification>> {
+    this.validateRequired(
+      profileId,
+      'profileId',
+      'UserNotificationService.getNotifications',
+    )
+
+    let query = this.supabase
+      .from('user_notifications')
+      .select('*')
+      .eq('profile_id', profileId)
+
+    if (options?.unreadOnly) {
+      query = query.is('read_at', null)
+    }
+
+    const response = await query
+      .order('created_at', { ascending: false })
+      .limit(options?.limit || 20)
+
+    return this.handleResponse(
+      response,
+      'UserNotificationService.getNotifications',
+    )
+  }
+
+  /**
+   * Count a profile's unread notifications
+   */
+  async getUnreadCount(profileId: string): Promise<number> {
+    this.validateRequired(
+      profileId,
+      'profileId',
+      'UserNotificationService.getUnreadCount',
+    )
+
+    const { count, error } = await this.supabase
+      .from('user_notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('profile_id', profileId)
+      .is('read_at', null)
+
+    if (error) {
+      this.handleError(error, 'UserNotificationService.getUnreadCount')
+    }
+
+    return count || 0
+  }
+
+  /**
+   * Mark notifications as read
+   */
+  async markAsRead(ids: Array<string>): Promise<void> {
+    if (!ids.length) return
+
+    const { error } = await this.supabase
+      .from('user_notifications')
+      .update({ read_at: new Date().toISOString() })
+      .in('id', ids)
+      .is('read_at', null)
+
+    if (error) {
+      this.handleError(error, 'UserNotificationService.markAsRead')
+    }
+  }
+
+  /**
+   * Mark all of a profile's notifications as read
+   */
+  async markAllAsRead(profileId: string): Promise<void> {
+    this.validateRequired(
+      profileId,
+      'profileId',
+      'UserNotificationService.markAllAsRead',
+    )
+
+    const { error } = await this.supabase
+      .from('user_notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('profile_id', profileId)
+      .is('read_at', null)
+
+    if (error) {
+      this.handleError(error, 'UserNotificationService.markAllAsRead')
+    }
+  }
+}
+
+// Export singleton instance
+export const userNotificationService = new UserNotificationService()
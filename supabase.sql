@@ -34,6 +34,54 @@ CREATE TABLE public.chat (
   CONSTRAINT messages_reply_to_fkey FOREIGN KEY (reply_to) REFERENCES public.chat(id),
   CONSTRAINT messages_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id)
 );
+CREATE TABLE public.coin_transactions (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  profile_id uuid NOT NULL,
+  amount integer NOT NULL CHECK (amount <> 0),
+  balance_after integer NOT NULL,
+  reason text NOT NULL,
+  related_entity_type text,
+  related_entity_id text,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT coin_transactions_pkey PRIMARY KEY (id),
+  CONSTRAINT coin_transactions_profile_id_fkey FOREIGN KEY (profile_id) REFERENCES public.profiles(id) ON DELETE CASCADE,
+  CONSTRAINT coin_transactions_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.profiles(id)
+);
+CREATE TABLE public.coin_transfers (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  sender_id uuid NOT NULL,
+  recipient_id uuid NOT NULL,
+  amount integer NOT NULL CHECK (amount > 0),
+  kind text NOT NULL DEFAULT 'transfer'::text CHECK (kind = ANY (ARRAY['transfer'::text, 'tip'::text])),
+  note text CHECK (note IS NULL OR char_length(note) <= 200),
+  related_entity_type text CHECK (related_entity_type IS NULL OR (related_entity_type = ANY (ARRAY['marketplace_listings'::text, 'user_services'::text]))),
+  related_entity_id uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT coin_transfers_pkey PRIMARY KEY (id),
+  CONSTRAINT coin_transfers_sender_id_fkey FOREIGN KEY (sender_id) REFERENCES public.profiles(id),
+  CONSTRAINT coin_transfers_recipient_id_fkey FOREIGN KEY (recipient_id) REFERENCES public.profiles(id),
+  CONSTRAINT coin_transfers_not_self CHECK (sender_id <> recipient_id)
+);
+CREATE TABLE public.content_reports (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  reporter_id uuid NOT NULL DEFAULT auth.uid(),
+  content_type text NOT NULL CHECK (content_type = ANY (ARRAY['chat'::text, 'threads'::text, 'thread_posts'::text, 'marketplace_listings'::text, 'messages_header'::text])),
+  content_id uuid NOT NULL,
+  reported_profile_id uuid,
+  content_snapshot text,
+  reason text NOT NULL CHECK (reason = ANY (ARRAY['spam'::text, 'harassment'::text, 'inappropriate'::text, 'scam'::text, 'other'::text])),
+  details text CHECK (details IS NULL OR char_length(details) <= 500),
+  status text NOT NULL DEFAULT 'pending'::text CHECK (status = ANY (ARRAY['pending'::text, 'dismissed'::text, 'actioned'::text])),
+  resolved_by uuid,
+  resolved_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT content_reports_pkey PRIMARY KEY (id),
+  CONSTRAINT content_reports_reporter_id_fkey FOREIGN KEY (reporter_id) REFERENCES public.profiles(id) ON DELETE CASCADE,
+  CONSTRAINT content_reports_reported_profile_id_fkey FOREIGN KEY (reported_profile_id) REFERENCES public.profiles(id) ON DELETE SET NULL,
+  CONSTRAINT content_reports_resolved_by_fkey FOREIGN KEY (resolved_by) REFERENCES public.profiles(id),
+  CONSTRAINT content_reports_unique_reporter UNIQUE (reporter_id, content_type, content_id)
+);
 CREATE TABLE public.conversation_cleanup_notifications (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   user_id uuid NOT NULL,
@@ -64,23 +112,62 @@ CREATE TABLE public.forums (
   icon text,
   created_at timestamp with time zone DEFAULT now(),
   created_by uuid,
+  search_vector tsvector GENERATED ALWAYS AS (setweight(to_tsvector('simple'::regconfig, COALESCE(title, ''::text)), 'A'::"char") || setweight(to_tsvector('simple'::regconfig, COALESCE(description, ''::text)), 'C'::"char")) STORED,
   CONSTRAINT forums_pkey PRIMARY KEY (id),
   CONSTRAINT forums_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.profiles(id)
 );
+CREATE TABLE public.household_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  location_id uuid NOT NULL,
+  actor_id uuid,
+  profile_id uuid NOT NULL,
+  action text NOT NULL CHECK (action = ANY (ARRAY['role_changed'::text, 'revoked'::text, 'left'::text, 'ownership_transferred'::text, 'moved_out'::text, 'claimed'::text])),
+  previous_role text,
+  new_role text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT household_events_pkey PRIMARY KEY (id),
+  CONSTRAINT household_events_location_id_fkey FOREIGN KEY (location_id) REFERENCES public.locations(id),
+  CONSTRAINT household_events_actor_id_fkey FOREIGN KEY (actor_id) REFERENCES public.profiles(id),
+  CONSTRAINT household_events_profile_id_fkey FOREIGN KEY (profile_id) REFERENCES public.profiles(id)
+);
 CREATE TABLE public.location_association_requests (
   id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
   approver_id uuid,
   requester_id uuid,
   location_id uuid,
-  status text NOT NULL CHECK (status = ANY (ARRAY['pending'::text, 'approved'::text, 'rejected'::text])),
+  status text NOT NULL CHECK (status = ANY (ARRAY['pending'::text, 'approved'::text, 'rejected'::text, 'cancelled'::text, 'expired'::text])),
   created_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
   approved_at timestamp with time zone,
   rejected_at timestamp with time zone,
+  cancelled_at timestamp with time zone,
+  expired_at timestamp with time zone,
+  expires_at timestamp with time zone,
+  escalated_at timestamp with time zone,
   CONSTRAINT location_association_requests_pkey PRIMARY KEY (id),
   CONSTRAINT location_association_requests_location_id_fkey FOREIGN KEY (location_id) REFERENCES public.locations(id),
   CONSTRAINT location_association_requests_requester_id_fkey FOREIGN KEY (requester_id) REFERENCES public.profiles(id),
   CONSTRAINT location_association_requests_approver_id_fkey FOREIGN KEY (approver_id) REFERENCES public.profiles(id)
 );
+CREATE TABLE public.location_transfers (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  location_id uuid NOT NULL,
+  initiated_by uuid NOT NULL,
+  previous_owner_id uuid,
+  new_owner_id uuid,
+  business_action text NOT NULL DEFAULT 'archive'::text CHECK (business_action = ANY (ARRAY['archive'::text, 'reassign'::text])),
+  lock_until_claimed boolean NOT NULL DEFAULT true,
+  claim_code_hash text,
+  status text NOT NULL DEFAULT 'pending'::text CHECK (status = ANY (ARRAY['pending'::text, 'claimed'::text, 'cancelled'::text, 'expired'::text])),
+  expires_at timestamp with time zone NOT NULL,
+  claimed_at timestamp with time zone,
+  cancelled_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT location_transfers_pkey PRIMARY KEY (id),
+  CONSTRAINT location_transfers_location_id_fkey FOREIGN KEY (location_id) REFERENCES public.locations(id),
+  CONSTRAINT location_transfers_initiated_by_fkey FOREIGN KEY (initiated_by) REFERENCES public.profiles(id),
+  CONSTRAINT location_transfers_previous_owner_id_fkey FOREIGN KEY (previous_owner_id) REFERENCES public.profiles(id),
+  CONSTRAINT location_transfers_new_owner_id_fkey FOREIGN KEY (new_owner_id) REFERENCES public.profiles(id)
+);
 CREATE TABLE public.locations (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   block text NOT NULL,
@@ -91,6 +178,7 @@ CREATE TABLE public.locations (
   deleted_at timestamp with time zone,
   is_locked boolean DEFAULT false,
   marker_url text DEFAULT '/default-marker.png'::text,
+  boundary USER-DEFINED CHECK (boundary IS NULL OR st_isvalid(boundary)),
   CONSTRAINT locations_pkey PRIMARY KEY (id)
 );
 CREATE TABLE public.marketplace_listings (
@@ -115,9 +203,44 @@ CREATE TABLE public.marketplace_listings (
   created_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
   updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
   expires_at timestamp with time zone,
+  expiry_warning_sent_at timestamp with time zone,
+  hidden_at timestamp with time zone,
+  archived_at timestamp with time zone,
+  search_vector tsvector GENERATED ALWAYS AS (setweight(to_tsvector('simple'::regconfig, COALESCE(title, ''::text)), 'A'::"char") || setweight(to_tsvector('simple'::regconfig, COALESCE(category, ''::text)), 'B'::"char") || setweight(to_tsvector('simple'::regconfig, COALESCE(description, ''::text)), 'C'::"char")) STORED,
   CONSTRAINT marketplace_listings_pkey PRIMARY KEY (id),
   CONSTRAINT marketplace_listings_profile_id_fkey FOREIGN KEY (profile_id) REFERENCES public.profiles(id)
 );
+CREATE TABLE public.marketplace_offers (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  listing_id uuid NOT NULL,
+  buyer_id uuid NOT NULL,
+  seller_id uuid NOT NULL,
+  kind text NOT NULL DEFAULT 'offer'::text CHECK (kind = ANY (ARRAY['offer'::text, 'reservation'::text])),
+  amount numeric CHECK (amount IS NULL OR amount >= 0::numeric),
+  message text CHECK (message IS NULL OR char_length(message) <= 500),
+  status text NOT NULL DEFAULT 'pending'::text CHECK (status = ANY (ARRAY['pending'::text, 'accepted'::text, 'declined'::text, 'withdrawn'::text, 'cancelled'::text, 'completed'::text])),
+  responded_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT marketplace_offers_pkey PRIMARY KEY (id),
+  CONSTRAINT marketplace_offers_amount_required CHECK (kind <> 'offer'::text OR amount IS NOT NULL),
+  CONSTRAINT marketplace_offers_not_self CHECK (buyer_id <> seller_id),
+  CONSTRAINT marketplace_offers_listing_id_fkey FOREIGN KEY (listing_id) REFERENCES public.marketplace_listings(id) ON DELETE CASCADE,
+  CONSTRAINT marketplace_offers_buyer_id_fkey FOREIGN KEY (buyer_id) REFERENCES public.profiles(id),
+  CONSTRAINT marketplace_offers_seller_id_fkey FOREIGN KEY (seller_id) REFERENCES public.profiles(id)
+);
+CREATE TABLE public.marketplace_saved_searches (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL DEFAULT auth.uid(),
+  name text NOT NULL CHECK (char_length(name) >= 1 AND char_length(name) <= 60),
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(filters) = 'object'::text AND (filters - ARRAY['category'::text, 'listingType'::text, 'priceMin'::text, 'priceMax'::text, 'search'::text]) = '{}'::jsonb AND (NOT filters ? 'category'::text OR jsonb_typeof(filters -> 'category'::text) = 'string'::text) AND (NOT filters ? 'listingType'::text OR jsonb_typeof(filters -> 'listingType'::text) = 'string'::text) AND (NOT filters ? 'search'::text OR jsonb_typeof(filters -> 'search'::text) = 'string'::text) AND (NOT filters ? 'priceMin'::text OR jsonb_typeof(filters -> 'priceMin'::text) = 'number'::text) AND (NOT filters ? 'priceMax'::text OR jsonb_typeof(filters -> 'priceMax'::text) = 'number'::text)),
+  notify boolean NOT NULL DEFAULT true,
+  last_notified_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT marketplace_saved_searches_pkey PRIMARY KEY (id),
+  CONSTRAINT marketplace_saved_searches_profile_id_fkey FOREIGN KEY (profile_id) REFERENCES public.profiles(id) ON DELETE CASCADE
+);
 CREATE TABLE public.messages_header (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   user_id uuid,
@@ -129,6 +252,21 @@ CREATE TABLE public.messages_header (
   CONSTRAINT messages_header_pkey PRIMARY KEY (id),
   CONSTRAINT messages_header_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id)
 );
+CREATE TABLE public.moderation_actions (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  report_id uuid,
+  admin_id uuid NOT NULL DEFAULT auth.uid(),
+  action text NOT NULL CHECK (action = ANY (ARRAY['dismiss'::text, 'hide_content'::text, 'warn_user'::text, 'suspend_profile'::text])),
+  content_type text,
+  content_id uuid,
+  target_profile_id uuid,
+  note text CHECK (note IS NULL OR char_length(note) <= 500),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT moderation_actions_pkey PRIMARY KEY (id),
+  CONSTRAINT moderation_actions_report_id_fkey FOREIGN KEY (report_id) REFERENCES public.content_reports(id),
+  CONSTRAINT moderation_actions_admin_id_fkey FOREIGN KEY (admin_id) REFERENCES public.profiles(id),
+  CONSTRAINT moderation_actions_target_profile_id_fkey FOREIGN KEY (target_profile_id) REFERENCES public.profiles(id)
+);
 CREATE TABLE public.private_messages (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   sender_id uuid NOT NULL,
@@ -143,10 +281,22 @@ CREATE TABLE public.private_messages (
   message_type text DEFAULT 'text'::text CHECK (message_type = ANY (ARRAY['text'::text, 'image'::text, 'file'::text, 'location'::text])),
   reply_to uuid,
   is_edited boolean DEFAULT false,
+  marketplace_offer_id uuid,
   CONSTRAINT private_messages_pkey PRIMARY KEY (id),
   CONSTRAINT private_messages_reply_to_fkey FOREIGN KEY (reply_to) REFERENCES public.private_messages(id),
   CONSTRAINT private_messages_sender_id_fkey FOREIGN KEY (sender_id) REFERENCES public.profiles(id),
-  CONSTRAINT private_messages_receiver_id_fkey FOREIGN KEY (receiver_id) REFERENCES public.profiles(id)
+  CONSTRAINT private_messages_receiver_id_fkey FOREIGN KEY (receiver_id) REFERENCES public.profiles(id),
+  CONSTRAINT private_messages_marketplace_offer_id_fkey FOREIGN KEY (marketplace_offer_id) REFERENCES public.marketplace_offers(id) ON DELETE SET NULL
+);
+CREATE TABLE public.profile_blocks (
+  blocker_id uuid NOT NULL DEFAULT auth.uid(),
+  blocked_id uuid NOT NULL,
+  kind text NOT NULL DEFAULT 'block'::text CHECK (kind = ANY (ARRAY['block'::text, 'mute'::text])),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT profile_blocks_pkey PRIMARY KEY (blocker_id, blocked_id),
+  CONSTRAINT profile_blocks_not_self CHECK (blocker_id <> blocked_id),
+  CONSTRAINT profile_blocks_blocker_id_fkey FOREIGN KEY (blocker_id) REFERENCES public.profiles(id) ON DELETE CASCADE,
+  CONSTRAINT profile_blocks_blocked_id_fkey FOREIGN KEY (blocked_id) REFERENCES public.profiles(id) ON DELETE CASCADE
 );
 CREATE TABLE public.profile_location_associations (
   id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
@@ -154,6 +304,7 @@ CREATE TABLE public.profile_location_associations (
   is_verified boolean DEFAULT false,
   is_owner boolean DEFAULT false,
   profile_id uuid NOT NULL,
+  role text NOT NULL DEFAULT 'family_member'::text CHECK (role = ANY (ARRAY['owner'::text, 'co_owner'::text, 'tenant'::text, 'family_member'::text, 'staff'::text])),
   CONSTRAINT profile_location_associations_pkey PRIMARY KEY (id),
   CONSTRAINT profile_location_associations_location_id_fkey FOREIGN KEY (location_id) REFERENCES public.locations(id),
   CONSTRAINT profile_location_associations_profile_id_fkey FOREIGN KEY (profile_id) REFERENCES public.profiles(id)
@@ -198,12 +349,33 @@ CREATE TABLE public.spatial_ref_sys (
   proj4text character varying,
   CONSTRAINT spatial_ref_sys_pkey PRIMARY KEY (srid)
 );
+CREATE TABLE public.thread_posts (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  thread_id uuid NOT NULL,
+  author_id uuid NOT NULL DEFAULT auth.uid(),
+  content text NOT NULL CHECK (deleted_at IS NOT NULL AND content = ''::text OR char_length(content) >= 1 AND char_length(content) <= 10000),
+  quoted_post_id uuid,
+  is_edited boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  deleted_at timestamp with time zone,
+  CONSTRAINT thread_posts_pkey PRIMARY KEY (id),
+  CONSTRAINT thread_posts_thread_id_fkey FOREIGN KEY (thread_id) REFERENCES public.threads(id) ON DELETE CASCADE,
+  CONSTRAINT thread_posts_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.profiles(id),
+  CONSTRAINT thread_posts_quoted_post_id_fkey FOREIGN KEY (quoted_post_id) REFERENCES public.thread_posts(id)
+);
 CREATE TABLE public.threads (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   forum_id uuid,
   title text NOT NULL,
   created_by uuid,
   created_at timestamp with time zone DEFAULT now(),
+  body text,
+  reply_count integer NOT NULL DEFAULT 0,
+  last_activity_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  hidden_at timestamp with time zone,
+  search_vector tsvector GENERATED ALWAYS AS (setweight(to_tsvector('simple'::regconfig, COALESCE(title, ''::text)), 'A'::"char") || setweight(to_tsvector('simple'::regconfig, COALESCE(body, ''::text)), 'C'::"char")) STORED,
   CONSTRAINT threads_pkey PRIMARY KEY (id),
   CONSTRAINT threads_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.profiles(id),
   CONSTRAINT threads_forum_id_fkey FOREIGN KEY (forum_id) REFERENCES public.forums(id)
@@ -232,6 +404,7 @@ CREATE TABLE public.user_business_inside (
   facebook_url text,
   block text,
   lot text,
+  search_vector tsvector GENERATED ALWAYS AS (setweight(to_tsvector('simple'::regconfig, COALESCE(business_name, ''::text)), 'A'::"char") || setweight(to_tsvector('simple'::regconfig, COALESCE(description, ''::text)), 'C'::"char")) STORED,
   CONSTRAINT user_business_inside_pkey PRIMARY KEY (id),
   CONSTRAINT user_business_inside_location_id_fkey FOREIGN KEY (location_id) REFERENCES public.locations(id),
   CONSTRAINT user_business_inside_profile_id_fkey FOREIGN KEY (profile_id) REFERENCES public.profiles(id),
@@ -264,10 +437,23 @@ CREATE TABLE public.user_business_outside (
   hours text,
   facebook_url text,
   phone_type text,
+  search_vector tsvector GENERATED ALWAYS AS (setweight(to_tsvector('simple'::regconfig, COALESCE(business_name, ''::text)), 'A'::"char") || setweight(to_tsvector('simple'::regconfig, COALESCE(city, ''::text)), 'B'::"char") || setweight(to_tsvector('simple'::regconfig, COALESCE(description, ''::text)), 'C'::"char")) STORED,
   CONSTRAINT user_business_outside_pkey PRIMARY KEY (id),
   CONSTRAINT user_business_outside_profile_id_fkey FOREIGN KEY (profile_id) REFERENCES public.profiles(id),
   CONSTRAINT user_business_outside_category_id_fkey FOREIGN KEY (category_id) REFERENCES public.business_outside_categories(id)
 );
+CREATE TABLE public.user_notifications (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL,
+  type text NOT NULL,
+  title text NOT NULL CHECK (char_length(title) <= 200),
+  body text CHECK (body IS NULL OR char_length(body) <= 1000),
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  read_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT user_notifications_pkey PRIMARY KEY (id),
+  CONSTRAINT user_notifications_profile_id_fkey FOREIGN KEY (profile_id) REFERENCES public.profiles(id) ON DELETE CASCADE
+);
 CREATE TABLE public.user_services (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   profile_id uuid NOT NULL,
@@ -289,6 +475,7 @@ CREATE TABLE public.user_services (
   facebook_url text,
   block text,
   lot text,
+  search_vector tsvector GENERATED ALWAYS AS (setweight(to_tsvector('simple'::regconfig, COALESCE(description, ''::text)), 'A'::"char") || setweight(to_tsvector('simple'::regconfig, concat_ws(' '::text, price_range, availability)), 'C'::"char")) STORED,
   CONSTRAINT user_services_pkey PRIMARY KEY (id),
   CONSTRAINT user_services_location_id_fkey FOREIGN KEY (location_id) REFERENCES public.locations(id),
   CONSTRAINT user_services_profile_id_fkey FOREIGN KEY (profile_id) REFERENCES public.profiles(id),
@@ -122,6 +122,175 @@ export type Database = {
           },
         ]
       }
+      coin_transactions: {
+        Row: {
+          amount: number
+          balance_after: number
+          created_at: string
+          created_by: string | null
+          id: number
+          profile_id: string
+          reason: string
+          related_entity_id: string | null
+          related_entity_type: string | null
+        }
+        Insert: {
+          amount: number
+          balance_after: number
+          created_at?: string
+          created_by?: string | null
+          id?: never
+          profile_id: string
+          reason: string
+          related_entity_id?: string | null
+          related_entity_type?: string | null
+        }
+        Update: {
+          amount?: number
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          id?: never
+          profile_id?: string
+          reason?: string
+          related_entity_id?: string | null
+          related_entity_type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coin_transactions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coin_transactions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coin_transfers: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          kind: string
+          note: string | null
+          recipient_id: string
+          related_entity_id: string | null
+          related_entity_type: string | null
+          sender_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          kind?: string
+          note?: string | null
+          recipient_id: string
+          related_entity_id?: string | null
+          related_entity_type?: string | null
+          sender_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          kind?: string
+          note?: string | null
+          recipient_id?: string
+          related_entity_id?: string | null
+          related_entity_type?: string | null
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coin_transfers_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coin_transfers_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_reports: {
+        Row: {
+          content_id: string
+          content_snapshot: string | null
+          content_type: string
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reported_profile_id: string | null
+          reporter_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+        }
+        Insert: {
+          content_id: string
+          content_snapshot?: string | null
+          content_type: string
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reported_profile_id?: string | null
+          reporter_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Update: {
+          content_id?: string
+          content_snapshot?: string | null
+          content_type?: string
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reported_profile_id?: string | null
+          reporter_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_reports_reported_profile_id_fkey"
+            columns: ["reported_profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_reports_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversation_cleanup_notifications: {
         Row: {
           cleanup_scheduled_at: string
@@ -216,6 +385,7 @@ export type Database = {
           description: string | null
           icon: string | null
           id: string
+          search_vector: unknown
           title: string
         }
         Insert: {
@@ -224,6 +394,7 @@ export type Database = {
           description?: string | null
           icon?: string | null
           id?: string
+          search_vector?: unknown
           title: string
         }
         Update: {
@@ -232,6 +403,7 @@ export type Database = {
           description?: string | null
           icon?: string | null
           id?: string
+          search_vector?: unknown
           title?: string
         }
         Relationships: [
@@ -244,11 +416,70 @@ export type Database = {
           },
         ]
       }
+      household_events: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          id: string
+          location_id: string
+          new_role: string | null
+          previous_role: string | null
+          profile_id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          location_id: string
+          new_role?: string | null
+          previous_role?: string | null
+          profile_id: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          location_id?: string
+          new_role?: string | null
+          previous_role?: string | null
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "household_events_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "household_events_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       location_association_requests: {
         Row: {
           approved_at: string | null
           approver_id: string | null
+          cancelled_at: string | null
           created_at: string | null
+          escalated_at: string | null
+          expired_at: string | null
+          expires_at: string | null
           id: number
           location_id: string | null
           rejected_at: string | null
@@ -258,7 +489,11 @@ export type Database = {
         Insert: {
           approved_at?: string | null
           approver_id?: string | null
+          cancelled_at?: string | null
           created_at?: string | null
+          escalated_at?: string | null
+          expired_at?: string | null
+          expires_at?: string | null
           id?: never
           location_id?: string | null
           rejected_at?: string | null
@@ -268,7 +503,11 @@ export type Database = {
         Update: {
           approved_at?: string | null
           approver_id?: string | null
+          cancelled_at?: string | null
           created_at?: string | null
+          escalated_at?: string | null
+          expired_at?: string | null
+          expires_at?: string | null
           id?: never
           location_id?: string | null
           rejected_at?: string | null
@@ -306,9 +545,94 @@ export type Database = {
           },
         ]
       }
+      location_transfers: {
+        Row: {
+          business_action: string
+          cancelled_at: string | null
+          claim_code_hash: string | null
+          claimed_at: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          initiated_by: string
+          location_id: string
+          lock_until_claimed: boolean
+          new_owner_id: string | null
+          previous_owner_id: string | null
+          status: string
+        }
+        Insert: {
+          business_action?: string
+          cancelled_at?: string | null
+          claim_code_hash?: string | null
+          claimed_at?: string | null
+          created_at?: string
+          expires_at: string
+          id?: string
+          initiated_by: string
+          location_id: string
+          lock_until_claimed?: boolean
+          new_owner_id?: string | null
+          previous_owner_id?: string | null
+          status?: string
+        }
+        Update: {
+          business_action?: string
+          cancelled_at?: string | null
+          claim_code_hash?: string | null
+          claimed_at?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          initiated_by?: string
+          location_id?: string
+          lock_until_claimed?: boolean
+          new_owner_id?: string | null
+          previous_owner_id?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_transfers_initiated_by_fkey"
+            columns: ["initiated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "location_transfers_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "location_transfers_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "v_locations_with_coordinates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "location_transfers_new_owner_id_fkey"
+            columns: ["new_owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "location_transfers_previous_owner_id_fkey"
+            columns: ["previous_owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       locations: {
         Row: {
           block: string
+          boundary: unknown | null
           coordinates: unknown | null
           created_at: string | null
           deleted_at: string | null
@@ -320,6 +644,7 @@ export type Database = {
         }
         Insert: {
           block: string
+          boundary?: unknown | null
           coordinates?: unknown | null
           created_at?: string | null
           deleted_at?: string | null
@@ -331,6 +656,7 @@ export type Database = {
         }
         Update: {
           block?: string
+          boundary?: unknown | null
           coordinates?: unknown | null
           created_at?: string | null
           deleted_at?: string | null
@@ -344,12 +670,15 @@ export type Database = {
       }
       marketplace_listings: {
         Row: {
+          archived_at: string | null
           category: string | null
           contact_method: string | null
           created_at: string | null
           currency: string | null
           description: string | null
           expires_at: string | null
+          expiry_warning_sent_at: string | null
+          hidden_at: string | null
           id: string
           is_active: boolean | null
           is_featured: boolean | null
@@ -362,17 +691,21 @@ export type Database = {
           photo_5_url: string | null
           price: number | null
           profile_id: string
+          search_vector: unknown
           status: string | null
           title: string
           updated_at: string | null
         }
         Insert: {
+          archived_at?: string | null
           category?: string | null
           contact_method?: string | null
           created_at?: string | null
           currency?: string | null
           description?: string | null
           expires_at?: string | null
+          expiry_warning_sent_at?: string | null
+          hidden_at?: string | null
           id?: string
           is_active?: boolean | null
           is_featured?: boolean | null
@@ -385,17 +718,21 @@ export type Database = {
           photo_5_url?: string | null
           price?: number | null
           profile_id: string
+          search_vector?: unknown
           status?: string | null
           title: string
           updated_at?: string | null
         }
         Update: {
+          archived_at?: string | null
           category?: string | null
           contact_method?: string | null
           created_at?: string | null
           currency?: string | null
           description?: string | null
           expires_at?: string | null
+          expiry_warning_sent_at?: string | null
+          hidden_at?: string | null
           id?: string
           is_active?: boolean | null
           is_featured?: boolean | null
@@ -408,6 +745,7 @@ export type Database = {
           photo_5_url?: string | null
           price?: number | null
           profile_id?: string
+          search_vector?: unknown
           status?: string | null
           title?: string
           updated_at?: string | null
@@ -422,6 +760,111 @@ export type Database = {
           },
         ]
       }
+      marketplace_offers: {
+        Row: {
+          amount: number | null
+          buyer_id: string
+          created_at: string
+          id: string
+          kind: string
+          listing_id: string
+          message: string | null
+          responded_at: string | null
+          seller_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount?: number | null
+          buyer_id: string
+          created_at?: string
+          id?: string
+          kind?: string
+          listing_id: string
+          message?: string | null
+          responded_at?: string | null
+          seller_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number | null
+          buyer_id?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          listing_id?: string
+          message?: string | null
+          responded_at?: string | null
+          seller_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "marketplace_offers_buyer_id_fkey"
+            columns: ["buyer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "marketplace_offers_listing_id_fkey"
+            columns: ["listing_id"]
+            isOneToOne: false
+            referencedRelation: "marketplace_listings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "marketplace_offers_seller_id_fkey"
+            columns: ["seller_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      marketplace_saved_searches: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          last_notified_at: string | null
+          name: string
+          notify: boolean
+          profile_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          last_notified_at?: string | null
+          name: string
+          notify?: boolean
+          profile_id?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          last_notified_at?: string | null
+          name?: string
+          notify?: boolean
+          profile_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "marketplace_saved_searches_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages_header: {
         Row: {
           coins_spent: number | null
@@ -460,6 +903,64 @@ export type Database = {
           },
         ]
       }
+      moderation_actions: {
+        Row: {
+          action: string
+          admin_id: string
+          content_id: string | null
+          content_type: string | null
+          created_at: string
+          id: number
+          note: string | null
+          report_id: string | null
+          target_profile_id: string | null
+        }
+        Insert: {
+          action: string
+          admin_id?: string
+          content_id?: string | null
+          content_type?: string | null
+          created_at?: string
+          id?: number
+          note?: string | null
+          report_id?: string | null
+          target_profile_id?: string | null
+        }
+        Update: {
+          action?: string
+          admin_id?: string
+          content_id?: string | null
+          content_type?: string | null
+          created_at?: string
+          id?: number
+          note?: string | null
+          report_id?: string | null
+          target_profile_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_actions_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_actions_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "content_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_actions_target_profile_id_fkey"
+            columns: ["target_profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       private_messages: {
         Row: {
           attachment_type: string | null
@@ -468,6 +969,7 @@ export type Database = {
           deleted_at: string | null
           id: string
           is_edited: boolean | null
+          marketplace_offer_id: string | null
           message: string
           message_type: string | null
           read_at: string | null
@@ -483,6 +985,7 @@ export type Database = {
           deleted_at?: string | null
           id?: string
           is_edited?: boolean | null
+          marketplace_offer_id?: string | null
           message: string
           message_type?: string | null
           read_at?: string | null
@@ -498,6 +1001,7 @@ export type Database = {
           deleted_at?: string | null
           id?: string
           is_edited?: boolean | null
+          marketplace_offer_id?: string | null
           message?: string
           message_type?: string | null
           read_at?: string | null
@@ -507,6 +1011,13 @@ export type Database = {
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "private_messages_marketplace_offer_id_fkey"
+            columns: ["marketplace_offer_id"]
+            isOneToOne: false
+            referencedRelation: "marketplace_offers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "private_messages_receiver_id_fkey"
             columns: ["receiver_id"]
@@ -530,6 +1041,42 @@ export type Database = {
           },
         ]
       }
+      profile_blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+          kind: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id?: string
+          created_at?: string
+          kind?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+          kind?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_blocks_blocked_id_fkey"
+            columns: ["blocked_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profile_blocks_blocker_id_fkey"
+            columns: ["blocker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profile_location_associations: {
         Row: {
           id: number
@@ -537,6 +1084,7 @@ export type Database = {
           is_verified: boolean | null
           location_id: string | null
           profile_id: string
+          role: string
         }
         Insert: {
           id?: never
@@ -544,6 +1092,7 @@ export type Database = {
           is_verified?: boolean | null
           location_id?: string | null
           profile_id: string
+          role?: string
         }
         Update: {
           id?: never
@@ -551,6 +1100,7 @@ export type Database = {
           is_verified?: boolean | null
           location_id?: string | null
           profile_id?: string
+          role?: string
         }
         Relationships: [
           {
@@ -693,27 +1243,103 @@ export type Database = {
         }
         Relationships: []
       }
+      thread_posts: {
+        Row: {
+          author_id: string
+          content: string
+          created_at: string
+          deleted_at: string | null
+          id: string
+          is_edited: boolean
+          quoted_post_id: string | null
+          thread_id: string
+          updated_at: string
+        }
+        Insert: {
+          author_id?: string
+          content: string
+          created_at?: string
+          deleted_at?: string | null
+          id?: string
+          is_edited?: boolean
+          quoted_post_id?: string | null
+          thread_id: string
+          updated_at?: string
+        }
+        Update: {
+          author_id?: string
+          content?: string
+          created_at?: string
+          deleted_at?: string | null
+          id?: string
+          is_edited?: boolean
+          quoted_post_id?: string | null
+          thread_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "thread_posts_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "thread_posts_quoted_post_id_fkey"
+            columns: ["quoted_post_id"]
+            isOneToOne: false
+            referencedRelation: "thread_posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "thread_posts_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       threads: {
         Row: {
+          body: string | null
           created_at: string | null
           created_by: string | null
           forum_id: string | null
+          hidden_at: string | null
           id: string
+          last_activity_at: string
+          reply_count: number
+          search_vector: unknown
           title: string
+          updated_at: string | null
         }
         Insert: {
+          body?: string | null
           created_at?: string | null
           created_by?: string | null
           forum_id?: string | null
+          hidden_at?: string | null
           id?: string
+          last_activity_at?: string
+          reply_count?: number
+          search_vector?: unknown
           title: string
+          updated_at?: string | null
         }
         Update: {
+          body?: string | null
           created_at?: string | null
           created_by?: string | null
           forum_id?: string | null
+          hidden_at?: string | null
           id?: string
+          last_activity_at?: string
+          reply_count?: number
+          search_vector?: unknown
           title?: string
+          updated_at?: string | null
         }
         Relationships: [
           {
@@ -755,6 +1381,7 @@ export type Database = {
           photo_4_url: string | null
           photo_5_url: string | null
           profile_id: string
+          search_vector: unknown
           updated_at: string | null
           website_url: string | null
         }
@@ -780,6 +1407,7 @@ export type Database = {
           photo_4_url?: string | null
           photo_5_url?: string | null
           profile_id: string
+          search_vector?: unknown
           updated_at?: string | null
           website_url?: string | null
         }
@@ -805,6 +1433,7 @@ export type Database = {
           photo_4_url?: string | null
           photo_5_url?: string | null
           profile_id?: string
+          search_vector?: unknown
           updated_at?: string | null
           website_url?: string | null
         }
@@ -865,6 +1494,7 @@ export type Database = {
           postal_code: string | null
           profile_id: string
           province: string | null
+          search_vector: unknown
           updated_at: string | null
           website_url: string | null
         }
@@ -893,6 +1523,7 @@ export type Database = {
           postal_code?: string | null
           profile_id: string
           province?: string | null
+          search_vector?: unknown
           updated_at?: string | null
           website_url?: string | null
         }
@@ -921,6 +1552,7 @@ export type Database = {
           postal_code?: string | null
           profile_id?: string
           province?: string | null
+          search_vector?: unknown
           updated_at?: string | null
           website_url?: string | null
         }
@@ -941,6 +1573,47 @@ export type Database = {
           },
         ]
       }
+      user_notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          data: Json
+          id: string
+          profile_id: string
+          read_at: string | null
+          title: string
+          type: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          profile_id: string
+          read_at?: string | null
+          title: string
+          type: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          profile_id?: string
+          read_at?: string | null
+          title?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_notifications_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_services: {
         Row: {
           availability: string | null
@@ -961,6 +1634,7 @@ export type Database = {
           photo_5_url: string | null
           price_range: string | null
           profile_id: string
+          search_vector: unknown
           service_location_type: string | null
           updated_at: string | null
         }
@@ -983,6 +1657,7 @@ export type Database = {
           photo_5_url?: string | null
           price_range?: string | null
           profile_id: string
+          search_vector?: unknown
           service_location_type?: string | null
           updated_at?: string | null
         }
@@ -1005,6 +1680,7 @@ export type Database = {
           photo_5_url?: string | null
           price_range?: string | null
           profile_id?: string
+          search_vector?: unknown
           service_location_type?: string | null
           updated_at?: string | null
         }
@@ -1381,6 +2057,14 @@ export type Database = {
         Args: { "": unknown } | { "": unknown }
         Returns: string
       }
+      cancel_location_transfer: {
+        Args: { p_transfer_id: string }
+        Returns: undefined
+      }
+      claim_location: {
+        Args: { p_code: string }
+        Returns: string
+      }
       cleanup_expired_messages: {
         Args: Record<PropertyKey, never>
         Returns: Array<{
@@ -1449,6 +2133,46 @@ export type Database = {
         Args: { geom1: unknown; geom2: unknown }
         Returns: boolean
       }
+      find_location_at_point: {
+        Args: { p_lat: number; p_lng: number }
+        Returns: Array<{
+          block: string
+          id: string
+          lot: string
+        }>
+      }
+      find_locations_within_radius: {
+        Args: { p_lat: number; p_lng: number; p_radius_meters: number }
+        Returns: Array<{
+          block: string
+          created_at: string
+          deleted_at: string
+          distance_meters: number
+          id: string
+          is_locked: boolean
+          lat: number
+          lng: number
+          lot: string
+          marker_url: string
+          updated_at: string
+        }>
+      }
+      find_nearest_locations: {
+        Args: { p_lat: number; p_limit?: number; p_lng: number }
+        Returns: Array<{
+          block: string
+          created_at: string
+          deleted_at: string
+          distance_meters: number
+          id: string
+          is_locked: boolean
+          lat: number
+          lng: number
+          lot: string
+          marker_url: string
+          updated_at: string
+        }>
+      }
       geography: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
@@ -1688,10 +2412,55 @@ export type Database = {
           users: Json
         }>
       }
+      get_block_outlines: {
+        Args: Record<PropertyKey, never>
+        Returns: Array<{
+          area_sq_m: number
+          block: string
+          lot_count: number
+          outline: Json
+        }>
+      }
       get_cleanup_statistics: {
         Args: Record<PropertyKey, never>
         Returns: Json
       }
+      get_coin_transfer_usage: {
+        Args: Record<PropertyKey, never>
+        Returns: Array<{
+          daily_amount_limit: number
+          daily_count_limit: number
+          max_per_transfer: number
+          sent_amount_today: number
+          sent_count_today: number
+        }>
+      }
+      get_conversation_summaries: {
+        Args: {
+          p_before?: string
+          p_before_peer_id?: string
+          p_include_hidden?: boolean
+          p_limit?: number
+        }
+        Returns: Array<{
+          hidden_at: string | null
+          is_hidden: boolean
+          last_message: string
+          last_message_at: string
+          last_message_id: string
+          last_message_sender_id: string
+          last_message_type: string
+          peer_avatar_url: string
+          peer_full_name: string
+          peer_id: string
+          peer_username: string
+          unread_count: number
+        }>
+      }
+      get_household_role: {
+        Args: { p_location_id: string }
+        Returns: string
+      }
       get_inactive_conversations_for_cleanup: {
         Args: { cutoff_date: string; days_inactive?: number }
         Returns: Array<{
@@ -1705,6 +2474,18 @@ export type Database = {
         Args: { record_id: string; table_name: string }
         Returns: Json
       }
+      get_location_boundaries: {
+        Args: Record<PropertyKey, never>
+        Returns: Array<{
+          area_sq_m: number
+          block: string
+          boundary: Json
+          id: string
+          lot: string
+          marker_lat: number
+          marker_lng: number
+        }>
+      }
       get_location_coordinates: {
         Args: { location_id: string }
         Returns: Json
@@ -1732,6 +2513,13 @@ export type Database = {
         Args: { user_id_param: string }
         Returns: Json
       }
+      get_profile_block_ids: {
+        Args: Record<PropertyKey, never>
+        Returns: Array<{
+          kind: string
+          profile_id: string
+        }>
+      }
       get_proj4_from_srid: {
         Args: { "": number }
         Returns: string
@@ -1752,6 +2540,26 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      import_locations: {
+        Args: { p_dry_run?: boolean; p_rows: Json }
+        Returns: Array<{
+          action: string
+          block: string
+          boundary_changed: boolean
+          lat: number | null
+          lng: number | null
+          location_id: string | null
+          lot: string
+          marker_url: string | null
+          previous_lat: number | null
+          previous_lng: number | null
+          previous_marker_url: string | null
+        }>
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
       json: {
         Args: { "": unknown }
         Returns: Json
@@ -1760,10 +2568,56 @@ export type Database = {
         Args: { "": unknown }
         Returns: Json
       }
+      location_marker_point: {
+        Args: { p_boundary: unknown; p_coordinates: unknown }
+        Returns: unknown
+      }
       longtransactionsenabled: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      make_marketplace_offer: {
+        Args: {
+          p_amount?: number
+          p_kind?: string
+          p_listing_id: string
+          p_message?: string
+        }
+        Returns: {
+          amount: number | null
+          buyer_id: string
+          created_at: string
+          id: string
+          kind: string
+          listing_id: string
+          message: string | null
+          responded_at: string | null
+          seller_id: string
+          status: string
+          updated_at: string
+        }
+      }
+      moderate_report: {
+        Args: {
+          p_action: string
+          p_note?: string
+          p_report_id: string
+        }
+        Returns: {
+          content_id: string
+          content_snapshot: string | null
+          content_type: string
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reported_profile_id: string | null
+          reporter_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+        }
+      }
       path: {
         Args: { "": unknown }
         Returns: unknown
@@ -1954,6 +2808,22 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      prefix_tsquery: {
+        Args: { p_text: string }
+        Returns: unknown
+      }
+      process_location_request_expiry: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      process_marketplace_listing_expiry: {
+        Args: Record<PropertyKey, never>
+        Returns: Array<{
+          archived_count: number
+          expired_count: number
+          warned_count: number
+        }>
+      }
       publish_header_message: {
         Args: {
           p_coins: number
@@ -1963,6 +2833,67 @@ export type Database = {
         }
         Returns: undefined
       }
+      reconcile_coin_balances: {
+        Args: { p_fix?: boolean; p_profile_id?: string }
+        Returns: Array<{
+          balance: number
+          difference: number
+          fixed: boolean
+          ledger_balance: number
+          profile_id: string
+          username: string
+        }>
+      }
+      renew_marketplace_listing: {
+        Args: { p_listing_id: string; p_use_coins?: boolean }
+        Returns: Array<{
+          archived_at: string | null
+          category: string | null
+          contact_method: string | null
+          created_at: string | null
+          currency: string | null
+          description: string | null
+          expires_at: string | null
+          expiry_warning_sent_at: string | null
+          hidden_at: string | null
+          id: string
+          is_active: boolean | null
+          is_featured: boolean | null
+          listing_type: string
+          location_description: string | null
+          photo_1_url: string | null
+          photo_2_url: string | null
+          photo_3_url: string | null
+          photo_4_url: string | null
+          photo_5_url: string | null
+          price: number | null
+          profile_id: string
+          search_vector: unknown
+          status: string | null
+          title: string
+          updated_at: string | null
+        }>
+      }
+      respond_to_marketplace_offer: {
+        Args: { p_action: string; p_message?: string; p_offer_id: string }
+        Returns: {
+          amount: number | null
+          buyer_id: string
+          created_at: string
+          id: string
+          kind: string
+          listing_id: string
+          message: string | null
+          responded_at: string | null
+          seller_id: string
+          status: string
+          updated_at: string
+        }
+      }
+      revoke_household_member: {
+        Args: { p_association_id: number }
+        Returns: undefined
+      }
       safe_complete_onboarding: {
         Args: { user_id_param: string }
         Returns: Json
@@ -1971,6 +2902,60 @@ export type Database = {
         Args: { new_coins: number; operation?: string; user_id_param: string }
         Returns: Json
       }
+      search_content: {
+        Args: { p_limit?: number; p_query: string; p_types?: Array<string> }
+        Returns: Array<{
+          created_at: string | null
+          entity_id: string
+          entity_type: string
+          parent_id: string | null
+          rank: number
+          snippet: string
+          title: string
+        }>
+      }
+      search_profiles: {
+        Args: { p_limit?: number; p_query: string }
+        Returns: Array<{
+          avatar_url: string | null
+          coins: number
+          created_at: string | null
+          deleted_at: string | null
+          description: string | null
+          email: string | null
+          facebook_url: string | null
+          full_name: string | null
+          id: string
+          is_admin: boolean
+          last_daily_checkin: string | null
+          messenger_url: string | null
+          occupation: string | null
+          onboarding_completed: boolean | null
+          updated_at: string | null
+          username: string | null
+          viber_number: string | null
+          whatsapp_number: string | null
+        }>
+      }
+      set_coin_transaction_context: {
+        Args: {
+          p_reason: string
+          p_related_entity_id?: string
+          p_related_entity_type?: string
+        }
+        Returns: undefined
+      }
+      set_household_role: {
+        Args: { p_association_id: number; p_role: string }
+        Returns: {
+          id: number
+          is_owner: boolean | null
+          is_verified: boolean | null
+          location_id: string | null
+          profile_id: string
+          role: string
+        }
+      }
       set_onboarding_completed_bypass_rls: {
         Args: { user_id: string }
         Returns: undefined
@@ -3044,10 +4029,43 @@ export type Database = {
         Args: { "": unknown }
         Returns: number
       }
+      start_location_transfer: {
+        Args: {
+          p_business_action?: string
+          p_location_id: string
+          p_lock_until_claimed?: boolean
+        }
+        Returns: Array<{
+          claim_code: string
+          code_expires_at: string
+          transfer_id: string
+        }>
+      }
       text: {
         Args: { "": unknown }
         Returns: string
       }
+      transfer_coins: {
+        Args: {
+          p_amount: number
+          p_note?: string
+          p_recipient_id: string
+          p_related_entity_id?: string
+          p_related_entity_type?: string
+        }
+        Returns: Array<{
+          amount: number
+          created_at: string
+          kind: string
+          recipient_id: string
+          sender_balance: number
+          transfer_id: string
+        }>
+      }
+      transfer_household_ownership: {
+        Args: { p_location_id: string; p_new_owner_id: string }
+        Returns: undefined
+      }
       unlockrows: {
         Args: { "": string }
         Returns: number